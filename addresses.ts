@@ -0,0 +1,115 @@
+/**
+ * Address Book for E-Commerce Concierge
+ * Each shopper's saved shipping addresses and which one is the default.
+ * An address's region decides the tax and shipping zone of orders sent there.
+ */
+
+import type { Address, AddressBook } from "./data"
+import { TAX_REGIONS, findRegion } from "./pricing"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What a shopper gives when saving an address
+ */
+export type AddressInput = {
+  name: string
+  line1: string
+  line2?: string
+  city: string
+  region: string // Region code or name, e.g. "US-NY" or "New York"
+  postalCode: string
+}
+
+// ============================================================================
+// ADDRESS BOOK
+// ============================================================================
+
+/**
+ * Validate an address and save it, returning it. The first address saved
+ * becomes the default. Throws for missing fields and regions the store
+ * doesn't ship to.
+ */
+export function saveAddress(book: AddressBook, input: AddressInput): Address {
+  const missing = (['name', 'line1', 'city', 'region', 'postalCode'] as const)
+    .filter(field => !input[field]?.trim())
+  if (missing.length > 0) {
+    throw new Error(`An address needs a ${missing.map(describeField).join(', ')}`)
+  }
+
+  const region = findRegion(input.region)
+  if (!region) {
+    throw new Error(`We don't ship to "${input.region}". We ship to ${TAX_REGIONS.map(r => r.name).join(', ')}`)
+  }
+
+  const address: Address = {
+    id: nextAddressId(book),
+    name: input.name.trim(),
+    line1: input.line1.trim(),
+    line2: input.line2?.trim() || undefined,
+    city: input.city.trim(),
+    region: region.code,
+    postalCode: input.postalCode.trim().toUpperCase(),
+  }
+  book.addresses.push(address)
+  if (!book.defaultId) book.defaultId = address.id
+  return address
+}
+
+/**
+ * The address with this ID, or the default address when no ID is given.
+ * Throws when it doesn't exist or the shopper has no addresses yet.
+ */
+export function requireAddress(book: AddressBook, addressId?: string): Address {
+  const id = addressId ?? book.defaultId
+  if (!id) {
+    throw new Error('You have no saved shipping address. Add one first, or choose store pickup.')
+  }
+  const address = book.addresses.find(a => a.id.toLowerCase() === id.toLowerCase())
+  if (!address) {
+    throw new Error(`Address "${id}" not found`)
+  }
+  return address
+}
+
+/**
+ * Delete an address, making the oldest remaining one the default if it was
+ */
+export function deleteAddress(book: AddressBook, addressId: string): Address {
+  const address = requireAddress(book, addressId)
+  book.addresses = book.addresses.filter(a => a.id !== address.id)
+  if (book.defaultId === address.id) {
+    book.defaultId = book.addresses[0]?.id
+  }
+  return address
+}
+
+/**
+ * One-line form, e.g. "Ana Diaz, 12 Main St, Apt 4, Austin, Texas 78701"
+ */
+export function formatAddress(address: Address): string {
+  const region = findRegion(address.region)?.name ?? address.region
+  return [address.name, address.line1, address.line2, address.city, `${region} ${address.postalCode}`]
+    .filter(Boolean)
+    .join(', ')
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function nextAddressId(book: AddressBook): string {
+  const highest = book.addresses.reduce((max, a) => Math.max(max, Number(a.id.split('-')[1]) || 0), 0)
+  return `addr-${highest + 1}`
+}
+
+function describeField(field: keyof AddressInput): string {
+  switch (field) {
+    case 'line1': return 'street address'
+    case 'postalCode': return 'postal code'
+    case 'region': return 'state or country'
+    default: return field
+  }
+}
@@ -1,22 +1,30 @@
 import { b } from "./baml_client"
 import * as tools from "./tools"
+import { mockData, Order, OrderRefund } from "./data"
 import type { AgentResponse } from "./baml_client/types"
 import * as ui from "./ui"
+import type { Session } from "./session"
+import type { ProductComparison } from "./specs"
+import type { ShippingMethod } from "./pricing"
+import { formatAddress } from "./addresses"
+import type { InvoiceFormat } from "./invoice"
+import { ReturnLineInput, ReturnReason, enteredAt, nextStep, returnDeadline, returnReasonLabel, returnedQuantity } from "./orders"
+import { expandQuery, loadSynonyms } from "./synonyms"
+import { parseQuery } from "./query"
 
 /**
  * Shopping Agent - AI-powered e-commerce assistant
- * Handles user requests through multi-turn conversations with tool execution
+ * Handles user requests through multi-turn conversations with tool execution.
+ * The agent itself is stateless; all per-shopper state lives in the Session.
  */
 export class ShoppingAgent {
-  private conversationHistory: string[] = []
   private maxIterations = 10
-  private currentProductContext: { productId: string; title: string } | null = null
   private maxHistoryLength = 20 // Keep last N conversation entries
 
   /**
-   * Process a user request and return a formatted response
+   * Process a user request for a shopper's session and return a formatted response
    */
-  async run(userRequest: string): Promise<string> {
+  async run(session: Session, userRequest: string): Promise<string> {
     // Handle special commands
     const lowerRequest = userRequest.toLowerCase().trim()
     
@@ -25,25 +33,87 @@ export class ShoppingAgent {
     }
     
     if (lowerRequest === 'cart' || lowerRequest === 'view cart' || lowerRequest === 'show cart') {
-      return this.formatCartResponse(await tools.viewCart())
+      return this.formatCartResponse(await tools.viewCart(session))
     }
     
     if (lowerRequest === 'wishlist' || lowerRequest === 'show wishlist' || lowerRequest === 'view wishlist') {
-      return this.formatWishlistResponse(await tools.viewWishlist())
+      return this.formatWishlistResponse(await tools.viewWishlist(session))
     }
     
     if (lowerRequest === 'orders' || lowerRequest === 'my orders' || lowerRequest === 'order history') {
-      return this.formatOrdersResponse(await tools.viewOrders())
+      return this.formatOrdersResponse(await tools.viewOrders(session))
+    }
+    
+    if (lowerRequest === 'addresses' || lowerRequest === 'my addresses') {
+      return this.formatToolResult('ViewAddresses', await tools.viewAddresses(session))
+    }
+    
+    if (lowerRequest === 'wallet' || lowerRequest === 'payment methods') {
+      return this.formatToolResult('ViewPaymentMethods', await tools.viewPaymentMethods(session))
+    }
+    
+    if (lowerRequest === 'categories' || lowerRequest === 'browse' || lowerRequest === 'show categories') {
+      return this.formatToolResult('BrowseCategory', await tools.browseCategory(session))
+    }
+    
+    if (['for me', 'recommended for me', 'recommend for me', 'for you'].includes(lowerRequest)) {
+      return this.formatToolResult('GetPersonalRecommendations', await tools.getPersonalRecommendations(session))
+    }
+    
+    if (['more', 'show more', 'more results', 'next', 'next page'].includes(lowerRequest)) {
+      return this.turnSearchPage(session, 1)
+    }
+    
+    if (['previous', 'prev', 'previous page', 'back'].includes(lowerRequest)) {
+      return this.turnSearchPage(session, -1)
+    }
+    
+    if (lowerRequest === 'add bundle' || lowerRequest === 'add the bundle') {
+      if (!session.productContext) {
+        return ui.messageBox('Add or look at a product first, then say "add bundle" to add what is usually bought with it.', 'info')
+      }
+      return this.formatToolResult('AddBundleToCart', await tools.addBundleToCart(session, session.productContext.productId))
+    }
+    
+    const trackMatch = userRequest.trim().match(/^track(?:\s+(ORD-\S+))?$/i)
+    if (trackMatch) {
+      try {
+        return this.formatToolResult('TrackOrder', await tools.getOrderDetails(session, trackMatch[1]))
+      } catch (error) {
+        // An unknown order won't turn up on a retry
+        return ui.messageBox(error instanceof Error ? error.message : 'Unknown error', 'error')
+      }
+    }
+    
+    const invoiceMatch = userRequest.trim().match(/^invoice(?:\s+(ORD-\S+))?(?:\s+(text|txt|html|pdf))?$/i)
+    if (invoiceMatch) {
+      const format = invoiceMatch[2]?.toLowerCase().replace('txt', 'text') as InvoiceFormat | undefined
+      try {
+        const invoice = await tools.exportInvoice(session, invoiceMatch[1], format)
+        return ui.messageBox(`${ui.icons.package} Invoice for order ${invoice.orderId} saved to ${invoice.path}`, 'success')
+      } catch (error) {
+        // Not transient (unknown order, unwritable directory): show it rather than retrying
+        return ui.messageBox(error instanceof Error ? error.message : 'Unknown error', 'error')
+      }
+    }
+    
+    const synonymMatch = userRequest.trim().match(/^(?:synonyms|expand)\s+(.+)$/i)
+    if (synonymMatch) {
+      const { searchTerm } = parseQuery(synonymMatch[1])
+      const dictionary = await loadSynonyms()
+      const expansions = await expandQuery(searchTerm)
+      return `\n${ui.divider(`${ui.icons.search} Synonyms`)}\n\n${ui.synonymExpansion(searchTerm, dictionary, expansions)}\n`
     }
     
     if (lowerRequest === 'clear cart' || lowerRequest === 'empty cart') {
-      const result = await tools.clearCart()
+      const result = await tools.clearCart(session)
       return ui.messageBox(result.message, 'success')
     }
     
     if (lowerRequest === 'clear history' || lowerRequest === 'reset') {
-      this.conversationHistory = []
-      this.currentProductContext = null
+      session.conversationHistory = []
+      session.productContext = null
+      session.searchContext = null
       return ui.messageBox('Conversation history cleared. Starting fresh!', 'success')
     }
 
@@ -51,19 +121,29 @@ export class ShoppingAgent {
     let enrichedRequest = userRequest
     
     // If user references "this", "it", "the product", etc. and we have context, enrich the request
-    const contextualPhrases = ['this', 'it', 'that', 'the product', 'this product', 'this item', 'buy now', 'add to cart', 'purchase']
+    const contextualPhrases = ['this', 'it', 'that', 'the product', 'this product', 'this item', 'buy now', 'add to cart', 'purchase', 'size', 'color', 'length']
     const needsContext = contextualPhrases.some(phrase => lowerRequest.includes(phrase))
     
-    if (needsContext && this.currentProductContext) {
-      enrichedRequest = `${userRequest} [Context: User is referring to ${this.currentProductContext.title} (ID: ${this.currentProductContext.productId})]`
+    if (needsContext && session.productContext) {
+      enrichedRequest = `${userRequest} [Context: User is referring to ${session.productContext.title} (ID: ${session.productContext.productId})]`
+    }
+
+    // "more like that", "page 3", "next ones" continue the last search
+    const pagingPhrases = ['more', 'next', 'page', 'previous']
+    const search = session.searchContext
+    if (search && pagingPhrases.some(phrase => lowerRequest.includes(phrase))) {
+      const { offset, limit, total, nextCursor } = search.page
+      const shown = `results ${offset + 1}-${Math.min(offset + limit, total)} of ${total}`
+      const next = nextCursor ? `; next page cursor: ${nextCursor}` : '; that was the last page'
+      enrichedRequest += ` [Context: Last search "${search.searchTerm}" with filters ${JSON.stringify(search.filters ?? {})} showed ${shown}, ${limit} per page${next}]`
     }
 
     // Add to conversation history (don't reset - maintain context across requests)
-    this.conversationHistory.push(`User: ${enrichedRequest}`)
+    session.conversationHistory.push(`User: ${enrichedRequest}`)
     
     // Trim history if too long (keep recent context)
-    if (this.conversationHistory.length > this.maxHistoryLength) {
-      this.conversationHistory = this.conversationHistory.slice(-this.maxHistoryLength)
+    if (session.conversationHistory.length > this.maxHistoryLength) {
+      session.conversationHistory = session.conversationHistory.slice(-this.maxHistoryLength)
     }
 
     let iteration = 0
@@ -72,7 +152,7 @@ export class ShoppingAgent {
     while (iteration < this.maxIterations) {
       iteration++
 
-      const history = this.conversationHistory.join("\n\n")
+      const history = session.conversationHistory.join("\n\n")
       
       let response: AgentResponse
       try {
@@ -82,7 +162,7 @@ export class ShoppingAgent {
         return ui.messageBox(`Failed to process request: ${errorMsg}`, 'error')
       }
 
-      this.conversationHistory.push(`Agent Thought: ${response.thought}`)
+      session.conversationHistory.push(`Agent Thought: ${response.thought}`)
 
       // If no tool needed or should stop, return final response
       if (!response.should_continue || response.action.tool === "None") {
@@ -93,6 +173,7 @@ export class ShoppingAgent {
       // Execute the tool
       try {
       const toolResult = await this.executeTool(
+        session,
         response.action.tool,
         response.action.parameters
       )
@@ -100,10 +181,15 @@ export class ShoppingAgent {
         const formattedResult = this.formatToolResult(response.action.tool, toolResult)
         lastToolResults.push(formattedResult)
 
-      this.conversationHistory.push(
+      session.conversationHistory.push(
         `Tool: ${response.action.tool}\nParameters: ${response.action.parameters}\nResult: ${JSON.stringify(toolResult, null, 2)}`
       )
 
+        // The shopper has to pick a size/color/length before we can go on
+        if (this.isVariantChoice(toolResult)) {
+          return this.formatFinalResponse('', lastToolResults)
+        }
+
         // If there's a final response after tool execution, return it
       if (response.final_response) {
           return this.formatFinalResponse(response.final_response, lastToolResults)
@@ -123,7 +209,7 @@ export class ShoppingAgent {
   /**
    * Execute a tool based on name and parameters
    */
-  private async executeTool(tool: string, parametersJson: string): Promise<unknown> {
+  private async executeTool(session: Session, tool: string, parametersJson: string): Promise<unknown> {
     let params: Record<string, unknown>
     
     try {
@@ -134,24 +220,32 @@ export class ShoppingAgent {
 
       switch (tool) {
         case "SearchProducts": {
-          const results = await tools.searchProducts(
-            params.searchTerm as string,
-            params.filters as tools.FilterOptions | undefined
-          )
+          const searchTerm = params.searchTerm as string
+          const filters = params.filters as tools.FilterOptions | undefined
+          const response = await tools.searchProducts(session, searchTerm, filters, {
+            offset: params.offset as number | undefined,
+            limit: params.limit as number | undefined,
+            cursor: params.cursor as string | undefined,
+          })
+          // Remember the search so "more" can fetch the next page
+          session.searchContext = { searchTerm, filters, page: response.page }
           // If only one result, set it as current context
-          if (results.length === 1) {
-            this.currentProductContext = {
-              productId: results[0].id,
-              title: results[0].title
+          if (response.results.length === 1) {
+            session.productContext = {
+              productId: response.results[0].id,
+              title: response.results[0].title
             }
           }
-          return results
+          return response
         }
 
+        case "BrowseCategory":
+          return await tools.browseCategory(session, params.category as string | undefined)
+
         case "GetProductDetails": {
-          const product = await tools.getProductDetails(params.productId as string)
+          const product = await tools.getProductDetails(session, params.productId as string)
           // Track the current product context for follow-up requests
-          this.currentProductContext = {
+          session.productContext = {
             productId: product.id,
             title: product.title
           }
@@ -161,68 +255,282 @@ export class ShoppingAgent {
         case "GetProductReviews":
         return await tools.getProductReviews(params.productId as string)
 
-        case "PurchaseProduct":
-        return await tools.purchaseProduct(
-          params.productId as string,
-          (params.quantity as number) || 1
-        )
+        case "PurchaseProduct": {
+          const choice = this.requireVariant(session, params)
+          if (choice) return choice
+          return await tools.purchaseProduct(
+            session,
+            params.productId as string,
+            (params.quantity as number | undefined) ?? 1,
+            params.options as tools.VariantSelection | undefined,
+            this.checkoutOptions(params)
+          )
+        }
 
-      case "AddToCart":
-        return await tools.addToCart(
+      case "AddToCart": {
+        const choice = this.requireVariant(session, params)
+        if (choice) return choice
+        const added = await tools.addToCart(
+          session,
           params.productId as string,
-          (params.quantity as number) || 1
+          (params.quantity as number | undefined) ?? 1,
+          params.options as tools.VariantSelection | undefined
         )
+        // "add bundle" next refers to the product just added
+        if (added.bundle) {
+          const product = mockData.productDetails[added.bundle.productId]
+          session.productContext = { productId: product.id, title: product.title }
+        }
+        return added
+      }
+
+      case "AddBundleToCart":
+        return await tools.addBundleToCart(session, params.productId as string)
 
       case "RemoveFromCart":
-        return await tools.removeFromCart(params.productId as string)
+        return await tools.removeFromCart(
+          session,
+          params.productId as string,
+          params.sku as string | undefined
+        )
 
       case "ViewCart":
-        return await tools.viewCart()
+        return await tools.viewCart(session)
 
       case "AddToWishlist":
-        return await tools.addToWishlist(params.productId as string)
+        return await tools.addToWishlist(session, params.productId as string)
 
       case "RemoveFromWishlist":
-        return await tools.removeFromWishlist(params.productId as string)
+        return await tools.removeFromWishlist(session, params.productId as string)
 
       case "ViewWishlist":
-        return await tools.viewWishlist()
+        return await tools.viewWishlist(session)
 
       case "CompareProducts":
-        return await tools.compareProducts(params.productIds as string[])
+        return await tools.compareProducts(session, params.productIds as string[])
 
       case "Checkout":
-        return await tools.checkout()
+        return await tools.checkout(session, this.checkoutOptions(params))
 
       case "ViewOrders":
-        return await tools.viewOrders()
+        return await tools.viewOrders(session)
+
+      case "TrackOrder":
+        return await tools.getOrderDetails(session, params.orderId as string | undefined)
+
+      case "CancelOrder":
+        return await tools.cancelOrder(session, params.orderId as string, params.reason as string | undefined)
+
+      case "RequestReturn":
+        return await tools.requestReturn(
+          session,
+          params.orderId as string,
+          (params.items as ReturnLineInput[] | undefined) ?? [],
+          params.reason as ReturnReason,
+          params.comment as string | undefined
+        )
 
       case "GetRecommendations":
         return await tools.getRecommendations(
+          session,
           params.productId as string,
           (params.limit as number) || 3
         )
 
+      case "CheckCompatibility":
+        return await tools.checkCompatibility(
+          session,
+          params.productIds as string[],
+          params.platform as string | undefined
+        )
+
+      case "ApplyCoupon":
+        return await tools.applyCoupon(session, params.code as string)
+
+      case "RemoveCoupon":
+        return await tools.removeCoupon(session, params.code as string)
+
+      case "GetPersonalRecommendations":
+        return await tools.getPersonalRecommendations(session, params.limit as number | undefined)
+
+      case "DismissRecommendation":
+        return await tools.dismissRecommendation(session, params.productId as string)
+
+      case "FrequentlyBoughtTogether": {
+        const result = await tools.frequentlyBoughtTogether(
+          session,
+          params.productId as string,
+          params.limit as number | undefined
+        )
+        session.productContext = { productId: result.product.id, title: result.product.title }
+        return result
+      }
+
+      case "AddAddress":
+        return await tools.addAddress(
+          session,
+          {
+            name: params.name as string,
+            line1: params.line1 as string,
+            line2: params.line2 as string | undefined,
+            city: params.city as string,
+            region: params.region as string,
+            postalCode: params.postalCode as string,
+          },
+          params.makeDefault === true
+        )
+
+      case "ViewAddresses":
+        return await tools.viewAddresses(session)
+
+      case "SetDefaultAddress":
+        return await tools.setDefaultAddress(session, params.addressId as string)
+
+      case "RemoveAddress":
+        return await tools.removeAddress(session, params.addressId as string)
+
+      case "GetDeliveryOptions":
+        return await tools.getDeliveryOptions(session, params.addressId as string | undefined)
+
+      case "AddPaymentMethod":
+        return await tools.addPaymentMethod(
+          session,
+          params.type === 'gift_card'
+            ? { type: 'gift_card', code: params.code as string }
+            : { type: 'card', number: String(params.cardNumber), expiry: String(params.expiry) },
+          params.makeDefault === true
+        )
+
+      case "ViewPaymentMethods":
+        return await tools.viewPaymentMethods(session)
+
+      case "SetDefaultPaymentMethod":
+        return await tools.setDefaultPaymentMethod(session, params.paymentMethodId as string)
+
+      case "RemovePaymentMethod":
+        return await tools.removePaymentMethod(session, params.paymentMethodId as string)
+
         default:
           throw new Error(`Unknown tool: ${tool}`)
       }
   }
 
+  /**
+   * Show the page after (1) or before (-1) the last search's current page
+   */
+  private async turnSearchPage(session: Session, direction: 1 | -1): Promise<string> {
+    const search = session.searchContext
+    if (!search) {
+      return ui.messageBox('Search for something first, then say "more" to see further results.', 'info')
+    }
+
+    const { offset, limit, hasMore } = search.page
+    if (direction === 1 && !hasMore) {
+      return ui.messageBox(`That's everything for "${search.searchTerm}" - no more results.`, 'info')
+    }
+    if (direction === -1 && offset === 0) {
+      return ui.messageBox('You are already on the first page.', 'info')
+    }
+
+    const response = await tools.searchProducts(session, search.searchTerm, search.filters, {
+      offset: Math.max(0, offset + direction * limit),
+      limit,
+    })
+    session.searchContext = { ...search, page: response.page }
+    return this.formatToolResult('SearchProducts', response)
+  }
+
+  /**
+   * Check whether a product still needs a variant choice before adding/buying.
+   * Keeps the product as context so "size 10" in the next turn refers to it.
+   */
+  private requireVariant(session: Session, params: Record<string, unknown>): tools.VariantChoiceRequired | null {
+    const choice = tools.getVariantChoice(
+      params.productId as string,
+      params.options as tools.VariantSelection | undefined
+    )
+    if (choice) {
+      session.productContext = { productId: choice.productId, title: choice.title }
+    }
+    return choice
+  }
+
+  /**
+   * Delivery method and saved address for a purchase or checkout
+   */
+  private checkoutOptions(params: Record<string, unknown>): tools.CheckoutOptions {
+    return {
+      shippingMethod: params.shippingMethod as ShippingMethod | undefined,
+      addressId: params.addressId as string | undefined,
+      paymentMethodId: params.paymentMethodId as string | undefined,
+    }
+  }
+
+  /**
+   * " Refunded $X to Visa ending 4242." or nothing when nothing was refunded
+   */
+  private describeRefund(refund?: OrderRefund): string {
+    return refund ? ` Refunded ${ui.formatPrice(refund.amount)} to ${refund.description}.` : ''
+  }
+
+  /**
+   * Whether a tool result is a request to pick a variant
+   */
+  private isVariantChoice(result: unknown): result is tools.VariantChoiceRequired {
+    return typeof result === 'object' && result !== null && 'needsVariantSelection' in result
+  }
+
   /**
    * Format tool results for display
    */
   private formatToolResult(toolName: string, result: unknown): string {
+    if (this.isVariantChoice(result)) {
+      return ui.variantPicker(result)
+    }
+
     switch (toolName) {
       case "SearchProducts": {
-        const products = result as tools.SearchResult[]
+        const { results: products, facets, page, query, suggestions } = result as tools.SearchResponse
+        const applied = ui.activeFilters(query.filters)
         if (products.length === 0) {
-          return ui.messageBox('No products found matching your search.', 'info')
+          if (page.total > 0) {
+            return ui.messageBox(`There are only ${page.total} results - no more pages.`, 'info')
+          }
+          let message = 'No products found matching your search.'
+          if (suggestions?.length) {
+            message += `\nDid you mean ${suggestions.map(s => `"${s}"`).join(' or ')}?`
+          }
+          if (applied) {
+            message += `\nFilters: ${applied}`
+          }
+          return ui.messageBox(message, 'info')
         }
         
-        let output = `\n${ui.divider(`${ui.icons.search} Found ${products.length} products`)}\n\n`
+        const pageLabel = page.pageCount > 1 ? ` · Page ${page.page} of ${page.pageCount}` : ''
+        let output = `\n${ui.divider(`${ui.icons.search} Found ${page.total} products${pageLabel}`)}\n\n`
+        if (applied) {
+          output += `  ${ui.style.muted(`Filters: ${applied}`)}\n\n`
+        }
         for (const product of products) {
           output += ui.productCard(product) + '\n'
         }
+        if (page.pageCount > 1) {
+          output += `${ui.pageFooter(page, products.length)}\n`
+        }
+        output += `\n${ui.facetSummary(facets)}\n`
+        return output
+      }
+
+      case "BrowseCategory": {
+        const listing = result as tools.CategoryListing
+        const title = listing.category ? listing.category.path : 'All Categories'
+        let output = `\n${ui.divider(`${ui.icons.package} ${title}`)}\n\n`
+        if (listing.subcategories.length > 0) {
+          output += ui.categoryTree(listing.subcategories) + '\n\n'
+        }
+        for (const product of listing.products) {
+          output += ui.productCard(product) + '\n'
+        }
         return output
       }
 
@@ -232,6 +540,9 @@ export class ShoppingAgent {
         output += ui.productCard(product) + '\n'
         output += `\n  ${ui.style.bold('Description:')}\n`
         output += `  ${ui.wrapText(product.description, 60).split('\n').join('\n  ')}\n`
+        if (product.variants) {
+          output += `\n${ui.variantList(product.price, product.variants)}\n`
+        }
         return output
       }
 
@@ -245,8 +556,22 @@ export class ShoppingAgent {
       }
 
       case "AddToCart": {
-        const cartResult = result as { success: boolean; message: string; cart: { items: tools.SearchResult[]; total: number } }
-        return ui.messageBox(`${ui.icons.cart} ${cartResult.message}`, 'success')
+        const cartResult = result as { success: boolean; message: string; bundle?: tools.BundleSuggestion; warnings?: string[] }
+        let output = ui.messageBox(`${ui.icons.cart} ${cartResult.message}`, 'success')
+        if (cartResult.warnings) {
+          output += `\n${ui.compatibilityWarnings(cartResult.warnings)}\n`
+        }
+        if (cartResult.bundle) {
+          const { message, items } = cartResult.bundle
+          output += `\n  ${ui.icons.sparkle} ${message}\n`
+          output += `  ${ui.style.muted(`Say "add bundle" to add ${items.length === 1 ? 'it' : 'them'} too (+${ui.formatPrice(items.reduce((sum, i) => sum + i.price, 0))})`)}\n`
+        }
+        return output
+      }
+
+      case "AddBundleToCart": {
+        const bundleResult = result as { success: boolean; message: string }
+        return ui.messageBox(`${ui.icons.cart} ${bundleResult.message}`, bundleResult.success ? 'success' : 'info')
       }
 
       case "RemoveFromCart": {
@@ -255,7 +580,7 @@ export class ShoppingAgent {
       }
 
       case "ViewCart": {
-        return this.formatCartResponse(result as { items: Array<{ title: string; price: number; quantity: number }>; total: number })
+        return this.formatCartResponse(result as tools.CartView)
       }
 
       case "AddToWishlist":
@@ -269,34 +594,147 @@ export class ShoppingAgent {
       }
 
       case "CompareProducts": {
-        const products = result as tools.ProductDetails[]
-        return ui.comparisonTable(products.map(p => ({
-          title: p.title,
-          price: p.price,
-          rating: p.rating,
-          features: [p.description.substring(0, 100)],
-        })))
+        const comparison = result as ProductComparison
+        return ui.comparisonTable(comparison.products, comparison.rows)
       }
 
       case "PurchaseProduct":
       case "Checkout": {
-        const order = result as { orderId: string; items: Array<{ title: string; price: number; quantity: number }>; total: number; estimatedDelivery?: string }
-        return ui.orderConfirmation(order)
+        const order = result as Order & { warnings?: string[] }
+        return ui.orderConfirmation({ ...order, shipTo: order.shippingAddress && formatAddress(order.shippingAddress) })
       }
 
       case "ViewOrders": {
-        return this.formatOrdersResponse(result as Array<{ orderId: string; items: Array<{ title: string; price: number; quantity: number }>; total: number; status: string; orderDate: string }>)
+        return this.formatOrdersResponse(result as Order[])
+      }
+
+      case "TrackOrder": {
+        const details = result as tools.OrderDetails
+        return ui.trackingTimeline(details, details.timeline)
+      }
+
+      case "CancelOrder": {
+        const cancelled = result as Order & { refund?: OrderRefund }
+        return ui.messageBox(`${ui.icons.cross} Cancelled order ${cancelled.orderId}.${this.describeRefund(cancelled.refund)}`, 'success')
+      }
+
+      case "RequestReturn": {
+        const { return: returned, refund } = result as tools.ReturnConfirmation
+        const items = returned.items.map(item => `${item.quantity} × ${item.title}`).join(', ')
+        return ui.messageBox(`${ui.icons.returned} Return ${returned.returnId} accepted: ${items}.${this.describeRefund(refund)}`, 'success')
+      }
+
+      case "ApplyCoupon":
+      case "RemoveCoupon": {
+        const couponResult = result as { success: boolean; message: string; cart: tools.CartView }
+        return ui.messageBox(`${ui.icons.tag} ${couponResult.message}`, 'success') + this.formatCartResponse(couponResult.cart)
+      }
+
+      case "CheckCompatibility": {
+        const report = result as tools.CompatibilityReport
+        let output = `\n${ui.divider(`${ui.icons.check} Compatibility`)}\n\n`
+        output += `  ${ui.style.bold(report.products.map(p => p.title).join(' + '))}\n\n`
+        for (const check of report.checks) {
+          output += ui.compatibilityLine(check.status, check.reason) + '\n'
+        }
+        for (const support of report.platform?.support ?? []) {
+          output += ui.compatibilityLine(support.status, support.reason) + '\n'
+        }
+        if (report.platform && report.platform.support.length === 0) {
+          output += `  ${ui.style.muted(`None of these depend on ${report.platform.name}.`)}\n`
+        }
+        const fits = report.worksWith?.filter(other => other.status !== 'incompatible') ?? []
+        const misfits = report.worksWith?.filter(other => other.status === 'incompatible') ?? []
+        for (const [heading, others] of [['Works with:', fits], ["Doesn't fit:", misfits]] as const) {
+          if (others.length === 0) continue
+          output += `\n  ${ui.style.bold(heading)}\n`
+          for (const other of others) {
+            output += `  ${ui.icons.bullet} ${other.title} ${ui.style.muted(`(${other.id}, ${ui.formatPrice(other.price)})`)}\n`
+            output += `  ${ui.compatibilityLine(other.status, other.reason)}\n`
+          }
+        }
+        if (report.checks.length === 0 && !report.platform && !report.worksWith?.length) {
+          output += `  ${ui.style.muted("These products don't plug into each other, so there's nothing to check.")}\n`
+        }
+        return output
+      }
+
+      case "FrequentlyBoughtTogether": {
+        const { product, items, bundleTotal } = result as tools.BoughtTogether
+        if (items.length === 0) {
+          return ui.messageBox(`Not enough orders yet to say what goes with "${product.title}".`, 'info')
+        }
+        let output = `\n${ui.divider(`${ui.icons.cart} Frequently Bought Together`)}\n\n`
+        output += `  ${ui.style.muted('With')} ${ui.style.bold(product.title)}\n\n`
+        for (const item of items) {
+          output += ui.productCard(item) + '\n'
+          output += `  ${ui.style.muted(`${ui.icons.arrow} Bought together in ${item.timesBoughtTogether} orders (${Math.round(item.confidence * 100)}% of orders with this product)`)}\n\n`
+        }
+        output += `${ui.bundleSummary(items.length + 1, bundleTotal)}\n`
+        return output
       }
 
       case "GetRecommendations": {
-        const products = result as tools.SearchResult[]
-        let output = `\n${ui.divider(`${ui.icons.sparkle} Recommended for You`)}\n\n`
+        const products = result as tools.Recommendation[]
+        if (products.length === 0) {
+          return ui.messageBox('No similar products found.', 'info')
+        }
+        let output = `\n${ui.divider(`${ui.icons.sparkle} Similar Products`)}\n\n`
         for (const product of products) {
           output += ui.productCard(product) + '\n'
+          output += `  ${ui.style.muted(`${ui.icons.arrow} ${product.reason}`)}\n\n`
         }
         return output
       }
 
+      case "GetPersonalRecommendations": {
+        const feed = result as tools.PersonalFeed
+        if (feed.results.length === 0) {
+          return ui.messageBox("You've seen everything we'd recommend - check back when new products arrive.", 'info')
+        }
+        let output = `\n${ui.divider(`${ui.icons.sparkle} Recommended for You`)}\n\n`
+        if (!feed.personalized) {
+          output += `  ${ui.style.muted('Popular picks for now - view, save or buy a few products and these will get personal.')}\n\n`
+        }
+        for (const product of feed.results) {
+          output += ui.productCard(product) + '\n'
+          output += `  ${ui.style.muted(`${ui.icons.arrow} ${product.reason}`)}\n\n`
+        }
+        return output
+      }
+
+      case "DismissRecommendation": {
+        const dismissResult = result as { success: boolean; message: string }
+        return ui.messageBox(dismissResult.message, 'success')
+      }
+
+      case "AddAddress":
+      case "SetDefaultAddress":
+      case "RemoveAddress": {
+        const addressResult = result as { success: boolean; message: string }
+        return ui.messageBox(`${ui.icons.home} ${addressResult.message}`, 'success')
+      }
+
+      case "ViewAddresses": {
+        return ui.addressList(result as tools.SavedAddress[])
+      }
+
+      case "AddPaymentMethod":
+      case "SetDefaultPaymentMethod":
+      case "RemovePaymentMethod": {
+        const paymentResult = result as { success: boolean; message: string }
+        return ui.messageBox(`${ui.icons.money} ${paymentResult.message}`, 'success')
+      }
+
+      case "ViewPaymentMethods": {
+        return ui.paymentMethodList(result as tools.SavedPaymentMethod[])
+      }
+
+      case "GetDeliveryOptions": {
+        const delivery = result as tools.DeliveryOptions
+        return ui.deliveryOptions(delivery.address?.formatted, delivery.options)
+      }
+
       default:
         return JSON.stringify(result, null, 2)
     }
@@ -325,8 +763,8 @@ export class ShoppingAgent {
   /**
    * Format cart response
    */
-  private formatCartResponse(cart: { items: Array<{ title: string; price: number; quantity: number; productId?: string }>; total: number }): string {
-    return ui.cartSummary(cart.items, cart.total)
+  private formatCartResponse(cart: tools.CartView): string {
+    return ui.cartSummary(cart.items, cart.total, cart.pricing)
   }
 
   /**
@@ -347,7 +785,7 @@ export class ShoppingAgent {
   /**
    * Format orders response
    */
-  private formatOrdersResponse(orders: Array<{ orderId: string; items: Array<{ title: string; price: number; quantity: number }>; total: number; status: string; orderDate: string }>): string {
+  private formatOrdersResponse(orders: Order[]): string {
     if (orders.length === 0) {
       return ui.messageBox(`${ui.icons.package} No orders yet. Start shopping!`, 'info')
     }
@@ -355,17 +793,44 @@ export class ShoppingAgent {
     let output = `\n${ui.divider(`${ui.icons.package} Order History`)}\n\n`
     
     for (const order of orders) {
-      const statusIcon = order.status === 'delivered' ? ui.icons.success : 
-                        order.status === 'shipped' ? ui.icons.truck : ui.icons.clock
+      const statusIcon = {
+        pending: ui.icons.clock,
+        confirmed: ui.icons.clock,
+        shipped: ui.icons.truck,
+        delivered: ui.icons.success,
+        cancelled: ui.icons.cross,
+        returned: ui.icons.returned,
+      }[order.status]
+      const since = enteredAt(order, order.status)?.toISOString() ?? order.orderDate
+      const next = nextStep(order)
+      const upcoming = next ? ` • ${next.status === 'shipped' ? 'Ships' : 'Arrives'} ${ui.formatDate(next.at.toISOString())}` : ''
       
       output += `  ${ui.style.bold(`Order ${ui.style.accent(order.orderId)}`)}\n`
-      output += `  ${statusIcon} ${ui.style.muted(order.status.toUpperCase())} • ${ui.formatDate(order.orderDate)}\n`
+      output += `  ${statusIcon} ${ui.style.muted(order.status.toUpperCase())} • ${ui.formatDate(since)}${ui.style.muted(upcoming)}\n`
       
       for (const item of order.items) {
-        output += `    ${ui.icons.bullet} ${item.title.substring(0, 40)}${item.title.length > 40 ? '...' : ''}\n`
+        const returned = returnedQuantity(order, item.sku)
+        const note = returned > 0 && order.status !== 'returned' ? ui.style.muted(` (${returned} of ${item.quantity} returned)`) : ''
+        output += `    ${ui.icons.bullet} ${item.title.substring(0, 40)}${item.title.length > 40 ? '...' : ''}${note}\n`
       }
       
-      output += `  ${ui.style.bold('Total:')} ${ui.style.price(ui.formatPrice(order.total))}\n\n`
+      output += `  ${ui.style.bold('Total:')} ${ui.style.price(ui.formatPrice(order.total))}\n`
+      
+      for (const returned of order.returns ?? []) {
+        const units = returned.items.reduce((sum, item) => sum + item.quantity, 0)
+        output += `  ${ui.icons.returned} ${ui.style.muted(`Return ${returned.returnId}: ${units} item${units === 1 ? '' : 's'}, ${returnReasonLabel(returned.reason).toLowerCase()} • ${ui.formatDate(returned.requestedAt)}`)}\n`
+      }
+      for (const refund of order.refunds ?? []) {
+        output += `  ${ui.icons.money} ${ui.style.muted(`Refunded ${ui.formatPrice(refund.amount)} to ${refund.description} (${refund.reason}) • ${ui.formatDate(refund.refundedAt)}`)}\n`
+      }
+      if (order.shipment && order.status === 'shipped') {
+        output += `  ${ui.icons.truck} ${ui.style.muted(`${order.shipment.carrier} ${order.shipment.trackingNumber}`)}\n`
+      }
+      const deadline = order.status === 'delivered' && returnDeadline(order)
+      if (deadline && deadline > new Date()) {
+        output += `  ${ui.style.muted(`Returnable until ${ui.formatDate(deadline.toISOString())}`)}\n`
+      }
+      output += '\n'
     }
     
     return output
@@ -34,7 +34,7 @@ export default class TypeBuilder {
     ToolCall: ClassViewer<'ToolCall', "tool" | "reasoning" | "parameters">;
     
     
-    ToolName: EnumViewer<'ToolName', "SearchProducts" | "GetProductDetails" | "GetProductReviews" | "CompareProducts" | "GetRecommendations" | "AddToCart" | "RemoveFromCart" | "ViewCart" | "AddToWishlist" | "RemoveFromWishlist" | "ViewWishlist" | "PurchaseProduct" | "Checkout" | "ViewOrders" | "None">;
+    ToolName: EnumViewer<'ToolName', "SearchProducts" | "GetProductDetails" | "GetProductReviews" | "CompareProducts" | "CheckCompatibility" | "GetRecommendations" | "GetPersonalRecommendations" | "DismissRecommendation" | "FrequentlyBoughtTogether" | "BrowseCategory" | "AddToCart" | "AddBundleToCart" | "RemoveFromCart" | "ViewCart" | "ApplyCoupon" | "RemoveCoupon" | "AddToWishlist" | "RemoveFromWishlist" | "ViewWishlist" | "AddAddress" | "ViewAddresses" | "SetDefaultAddress" | "RemoveAddress" | "GetDeliveryOptions" | "AddPaymentMethod" | "ViewPaymentMethods" | "SetDefaultPaymentMethod" | "RemovePaymentMethod" | "PurchaseProduct" | "Checkout" | "ViewOrders" | "TrackOrder" | "CancelOrder" | "RequestReturn" | "None">;
     
 
     constructor() {
@@ -62,7 +62,7 @@ export default class TypeBuilder {
         
         
         this.ToolName = this.tb.enumViewer("ToolName", [
-          "SearchProducts","GetProductDetails","GetProductReviews","CompareProducts","GetRecommendations","AddToCart","RemoveFromCart","ViewCart","AddToWishlist","RemoveFromWishlist","ViewWishlist","PurchaseProduct","Checkout","ViewOrders","None",
+          "SearchProducts","GetProductDetails","GetProductReviews","CompareProducts","CheckCompatibility","GetRecommendations","GetPersonalRecommendations","DismissRecommendation","FrequentlyBoughtTogether","BrowseCategory","AddToCart","AddBundleToCart","RemoveFromCart","ViewCart","ApplyCoupon","RemoveCoupon","AddToWishlist","RemoveFromWishlist","ViewWishlist","AddAddress","ViewAddresses","SetDefaultAddress","RemoveAddress","GetDeliveryOptions","AddPaymentMethod","ViewPaymentMethods","SetDefaultPaymentMethod","RemovePaymentMethod","PurchaseProduct","Checkout","ViewOrders","TrackOrder","CancelOrder","RequestReturn","None",
         ]);
         
     }
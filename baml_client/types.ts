@@ -52,16 +52,36 @@ export enum ToolName {
   GetProductDetails = "GetProductDetails",
   GetProductReviews = "GetProductReviews",
   CompareProducts = "CompareProducts",
+  CheckCompatibility = "CheckCompatibility",
   GetRecommendations = "GetRecommendations",
+  GetPersonalRecommendations = "GetPersonalRecommendations",
+  DismissRecommendation = "DismissRecommendation",
+  FrequentlyBoughtTogether = "FrequentlyBoughtTogether",
+  BrowseCategory = "BrowseCategory",
   AddToCart = "AddToCart",
+  AddBundleToCart = "AddBundleToCart",
   RemoveFromCart = "RemoveFromCart",
   ViewCart = "ViewCart",
+  ApplyCoupon = "ApplyCoupon",
+  RemoveCoupon = "RemoveCoupon",
   AddToWishlist = "AddToWishlist",
   RemoveFromWishlist = "RemoveFromWishlist",
   ViewWishlist = "ViewWishlist",
+  AddAddress = "AddAddress",
+  ViewAddresses = "ViewAddresses",
+  SetDefaultAddress = "SetDefaultAddress",
+  RemoveAddress = "RemoveAddress",
+  GetDeliveryOptions = "GetDeliveryOptions",
+  AddPaymentMethod = "AddPaymentMethod",
+  ViewPaymentMethods = "ViewPaymentMethods",
+  SetDefaultPaymentMethod = "SetDefaultPaymentMethod",
+  RemovePaymentMethod = "RemovePaymentMethod",
   PurchaseProduct = "PurchaseProduct",
   Checkout = "Checkout",
   ViewOrders = "ViewOrders",
+  TrackOrder = "TrackOrder",
+  CancelOrder = "CancelOrder",
+  RequestReturn = "RequestReturn",
   None = "None",
 }
 
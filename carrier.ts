@@ -0,0 +1,168 @@
+/**
+ * Simulated Carrier for E-Commerce Concierge
+ * Hands shipped orders to a carrier with a tracking number and generates
+ * the scan events a real carrier would report as the parcel moves, timed
+ * by the order's fulfillment schedule. Pickup orders never leave the
+ * store's hands, so their timeline comes from the order's own history.
+ */
+
+import type { Address, Order } from "./data"
+import { FULFILLMENT_SPEED, OrderStatus, enteredAt, fulfillmentSchedule } from "./orders"
+import { ShippingMethod, findRegion } from "./pricing"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Who carries an order and how to follow it
+ */
+export type Shipment = {
+  carrier: string // e.g. "Parcelwise"
+  service: string // e.g. "Ground"
+  trackingNumber: string
+}
+
+/**
+ * One step on an order's way to the shopper
+ */
+export type TrackingEvent = {
+  at: string // ISO timestamp; when it's expected for upcoming events
+  description: string // e.g. "Arrived at Parcelwise hub"
+  location?: string
+  upcoming: boolean // Hasn't happened yet
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Carriers by how the order ships. Orders leaving the home country always
+ * go with the international carrier.
+ */
+const CARRIERS = {
+  standard: { carrier: 'Parcelwise', service: 'Ground', prefix: 'PW' },
+  express: { carrier: 'SwiftPost', service: 'Express', prefix: 'SP' },
+  international: { carrier: 'GlobeLink', service: 'International', prefix: 'GL' },
+}
+
+/**
+ * Where every parcel starts
+ */
+const WAREHOUSE = 'Reno, NV'
+
+/**
+ * How long before delivery the parcel goes out on the van
+ */
+const OUT_FOR_DELIVERY_HOURS = 5
+
+/**
+ * The sorting hub parcels pass through on the way to each region
+ */
+const HUBS: Record<string, string> = {
+  'US-CA': 'Sacramento, CA',
+  'US-NY': 'Newark, NJ',
+  'US-TX': 'Dallas, TX',
+  'US-WA': 'Seattle, WA',
+  'US-OR': 'Portland, OR',
+  'CA-ON': 'Mississauga, ON',
+  'GB': 'London Heathrow, GB',
+  'DE': 'Frankfurt, DE',
+}
+
+/**
+ * How the order's own statuses read on a timeline, for orders without a carrier
+ */
+const STATUS_DESCRIPTIONS: Record<OrderStatus, string> = {
+  pending: 'Order placed',
+  confirmed: 'Payment confirmed',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Order cancelled',
+  returned: 'Returned',
+}
+
+// ============================================================================
+// SHIPMENTS
+// ============================================================================
+
+/**
+ * Book a carrier for an order shipping to an address. Pickup orders aren't
+ * shipped and get no shipment.
+ */
+export function createShipment(method: ShippingMethod, address?: Address): Shipment | undefined {
+  if (method === 'pickup' || !address) return undefined
+
+  const international = findRegion(address.region)?.international ?? false
+  const { carrier, service, prefix } = international ? CARRIERS.international : CARRIERS[method]
+  const digits = Array.from({ length: 12 }, () => Math.floor(Math.random() * 10)).join('')
+  return { carrier, service, trackingNumber: `${prefix}${digits}` }
+}
+
+/**
+ * The order's timeline, oldest first: what has happened by `now` and what
+ * is still expected. Shipped orders get the carrier's scans; everything
+ * else shows the order's status history.
+ */
+export function trackingEvents(order: Order, now: Date = new Date()): TrackingEvent[] {
+  if (!order.shipment || !order.shippingAddress) return historyEvents(order, now)
+
+  const confirmed = enteredAt(order, 'confirmed')
+  const [shipped, delivered] = fulfillmentSchedule(order)
+  if (!confirmed || !shipped || !delivered) return historyEvents(order, now)
+
+  const { carrier } = order.shipment
+  const address = order.shippingAddress
+  const region = findRegion(address.region)
+  const destination = `${address.city}, ${region?.name ?? address.region}`
+  const start = shipped.at.getTime()
+  const span = delivered.at.getTime() - start
+  const along = (fraction: number) => new Date(start + span * fraction)
+  const outForDelivery = new Date(Math.max(
+    along(0.8).getTime(),
+    delivered.at.getTime() - OUT_FOR_DELIVERY_HOURS * 60 * 60 * 1000 / FULFILLMENT_SPEED
+  ))
+
+  const scans: Array<{ at: Date; description: string; location?: string }> = [
+    { at: confirmed, description: 'Shipping label created', location: WAREHOUSE },
+    { at: shipped.at, description: `Picked up by ${carrier}`, location: WAREHOUSE },
+    { at: along(0.5), description: `Arrived at ${carrier} hub`, location: HUBS[address.region] },
+    ...(region?.international ? [{ at: along(0.7), description: 'Cleared customs', location: region.name }] : []),
+    { at: outForDelivery, description: 'Out for delivery', location: destination },
+    { at: delivered.at, description: 'Delivered', location: destination },
+  ]
+
+  // A cancelled order never leaves the warehouse: its label is voided instead
+  const cancelled = order.status === 'cancelled' ? enteredAt(order, 'cancelled') : undefined
+  const events = scans
+    .filter(scan => !cancelled || scan.at <= cancelled)
+    .map(scan => ({
+      at: scan.at.toISOString(),
+      description: scan.description,
+      ...(scan.location && { location: scan.location }),
+      upcoming: scan.at > now,
+    }))
+  if (cancelled) {
+    events.push({ at: cancelled.toISOString(), description: 'Label voided, order cancelled', location: WAREHOUSE, upcoming: false })
+  }
+  return events
+}
+
+/**
+ * Timeline from the order's status history, followed by the fulfillment
+ * steps still to come
+ */
+function historyEvents(order: Order, now: Date): TrackingEvent[] {
+  const past = order.history.map(change => ({
+    at: change.at,
+    description: change.note ?? STATUS_DESCRIPTIONS[change.status],
+    upcoming: false,
+  }))
+  const reached = new Set(order.history.map(change => change.status))
+  const ended = order.status === 'cancelled' || order.status === 'returned'
+  const upcoming = ended ? [] : fulfillmentSchedule(order)
+    .filter(step => !reached.has(step.status))
+    .map(step => ({ at: step.at.toISOString(), description: step.note, upcoming: step.at > now }))
+  return [...past, ...upcoming]
+}
@@ -0,0 +1,506 @@
+/**
+ * Catalog Import for E-Commerce Concierge
+ * Loads products, reviews and prices from CSV or JSON files into a single
+ * normalized catalog. Bad rows are skipped and reported rather than failing
+ * the whole import.
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+import { mockData, CatalogProduct, indexCatalog } from "./data"
+import { findCategory } from "./categories"
+import { ProductSpecs, isSpecKey, parseSpecValue } from "./specs"
+import { businessDaysBetween, today } from "./delivery"
+import { appliesTo } from "./promotions"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A problem with one row of an import file
+ */
+export type ImportIssue = {
+  file: string
+  row: number // 1-based; for CSV the header is row 1
+  message: string
+}
+
+export type CatalogImport = {
+  products: CatalogProduct[]
+  stock: Record<string, number> // Starting stock per product
+  errors: ImportIssue[]
+}
+
+type RecordKind = 'product' | 'review' | 'price'
+
+/**
+ * One row read from an import file, before validation
+ */
+type SourceRecord = {
+  kind: RecordKind
+  file: string
+  row: number
+  data: Record<string, unknown>
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.json']
+
+/**
+ * Separator for multiple image URLs in a CSV cell
+ */
+const IMAGE_SEPARATOR = '|'
+
+/**
+ * Starting stock for imported products that don't set `stock`
+ */
+const DEFAULT_STOCK = 10
+
+/**
+ * CSV columns holding specs are named like "spec.chargingPower"
+ */
+const SPEC_COLUMN_PREFIX = 'spec.'
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, newlines and doubled quotes)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter(r => r.some(c => c.trim() !== ''))
+}
+
+/**
+ * Work out what a CSV file holds from its header
+ */
+function csvKind(headers: string[]): RecordKind {
+  if (headers.includes('comment')) return 'review'
+  if (headers.includes('price') && !headers.includes('title')) return 'price'
+  return 'product'
+}
+
+/**
+ * Read a CSV file of products, reviews or prices
+ */
+function csvRecords(file: string, text: string): SourceRecord[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+
+  const headers = header.map(h => h.trim())
+  const kind = csvKind(headers)
+
+  return rows.map((cells, index) => ({
+    kind,
+    file,
+    row: index + 2,
+    data: Object.fromEntries(headers.map((h, i) => [h, cells[i]?.trim() ?? ''])),
+  }))
+}
+
+/**
+ * Read a JSON file: either an array of products, or an object with
+ * `products`, `reviews` and/or `prices` arrays. Products may embed their reviews.
+ */
+function jsonRecords(file: string, text: string): SourceRecord[] {
+  const parsed: unknown = JSON.parse(text)
+  const sections: Partial<Record<RecordKind, unknown>> = Array.isArray(parsed)
+    ? { product: parsed }
+    : typeof parsed === 'object' && parsed !== null
+      ? {
+          product: (parsed as Record<string, unknown>).products,
+          review: (parsed as Record<string, unknown>).reviews,
+          price: (parsed as Record<string, unknown>).prices,
+        }
+      : {}
+
+  const records: SourceRecord[] = []
+  for (const [kind, entries] of Object.entries(sections) as Array<[RecordKind, unknown]>) {
+    if (entries === undefined) continue
+    if (!Array.isArray(entries)) {
+      throw new Error(`"${kind}s" must be an array`)
+    }
+
+    entries.forEach((entry, index) => {
+      const data = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : {}
+      records.push({ kind, file, row: index + 1, data })
+
+      // Reviews embedded in a product
+      if (kind === 'product' && Array.isArray(data.reviews)) {
+        for (const review of data.reviews) {
+          records.push({
+            kind: 'review',
+            file,
+            row: index + 1,
+            data: { ...(review as Record<string, unknown>), productId: data.id },
+          })
+        }
+      }
+    })
+  }
+  return records
+}
+
+/**
+ * Expand the given paths (files or directories) into the files to import
+ */
+async function listSourceFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = []
+  for (const p of paths) {
+    const stat = await fs.stat(p)
+    if (stat.isDirectory()) {
+      const entries = (await fs.readdir(p)).sort()
+      files.push(...entries
+        .filter(name => SUPPORTED_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+        .map(name => path.join(p, name)))
+    } else {
+      files.push(p)
+    }
+  }
+  return files
+}
+
+// ============================================================================
+// FIELD VALIDATION
+// ============================================================================
+
+/**
+ * Reads typed fields from a row, collecting a message for every bad field
+ */
+class RowReader {
+  readonly problems: string[] = []
+
+  constructor(private data: Record<string, unknown>) {}
+
+  private raw(field: string): unknown {
+    const value = this.data[field]
+    return typeof value === 'string' ? value.trim() : value
+  }
+
+  private isBlank(value: unknown): boolean {
+    return value === undefined || value === null || value === ''
+  }
+
+  text(field: string): string | undefined
+  text(field: string, required: true): string
+  text(field: string, required = false): string | undefined {
+    const value = this.raw(field)
+    if (this.isBlank(value)) {
+      if (required) this.problems.push(`${field} is required`)
+      return required ? '' : undefined
+    }
+    return String(value)
+  }
+
+  number(field: string, options: { required?: boolean; min?: number; max?: number; integer?: boolean } = {}): number | undefined {
+    const value = this.raw(field)
+    if (this.isBlank(value)) {
+      if (options.required) this.problems.push(`${field} is required`)
+      return undefined
+    }
+
+    const n = typeof value === 'number' ? value : Number(value)
+    if (!Number.isFinite(n)) {
+      this.problems.push(`${field} must be a number (got "${value}")`)
+    } else if (options.integer && !Number.isInteger(n)) {
+      this.problems.push(`${field} must be a whole number (got ${n})`)
+    } else if (options.min !== undefined && n < options.min) {
+      this.problems.push(`${field} must be at least ${options.min} (got ${n})`)
+    } else if (options.max !== undefined && n > options.max) {
+      this.problems.push(`${field} must be at most ${options.max} (got ${n})`)
+    } else {
+      return n
+    }
+    return undefined
+  }
+
+  date(field: string): string {
+    const value = this.text(field, true)
+    if (value && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+      this.problems.push(`${field} must be a date like 2025-01-31 (got "${value}")`)
+    }
+    return value
+  }
+
+  /**
+   * Business days to deliver, from `deliveryDays` or, in older files, a fixed
+   * `deliveryDate` counted from the day of the import
+   */
+  deliveryDays(): number {
+    if (this.isBlank(this.raw('deliveryDays')) && !this.isBlank(this.raw('deliveryDate'))) {
+      const problems = this.problems.length
+      const date = this.date('deliveryDate')
+      return this.problems.length > problems ? 0 : businessDaysBetween(today(), date)
+    }
+    return this.number('deliveryDays', { required: true, min: 0, integer: true }) ?? 0
+  }
+
+  /**
+   * Specs from a JSON `specs` object or CSV `spec.<name>` columns
+   */
+  specs(): ProductSpecs | undefined {
+    const entries: Array<[string, unknown]> = []
+    if (typeof this.data.specs === 'object' && this.data.specs !== null) {
+      entries.push(...Object.entries(this.data.specs))
+    }
+    for (const [column, value] of Object.entries(this.data)) {
+      if (column.startsWith(SPEC_COLUMN_PREFIX) && !this.isBlank(value)) {
+        entries.push([column.slice(SPEC_COLUMN_PREFIX.length), value])
+      }
+    }
+    if (entries.length === 0) return undefined
+
+    const specs: ProductSpecs = {}
+    for (const [key, value] of entries) {
+      if (!isSpecKey(key)) {
+        this.problems.push(`unknown spec "${key}"`)
+        continue
+      }
+      try {
+        specs[key] = parseSpecValue(key, value)
+      } catch (error) {
+        this.problems.push((error as Error).message)
+      }
+    }
+    return specs
+  }
+
+  list(field: string): string[] {
+    const value = this.raw(field)
+    if (this.isBlank(value)) return []
+    if (Array.isArray(value)) return value.map(String)
+    return String(value).split(IMAGE_SEPARATOR).map(s => s.trim()).filter(Boolean)
+  }
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Import a catalog from CSV/JSON files or directories of them.
+ * Products are read first, then reviews and prices, which must refer to an
+ * imported product. Rows with problems are skipped and listed in `errors`.
+ */
+export async function importCatalog(paths: string[]): Promise<CatalogImport> {
+  const records: SourceRecord[] = []
+  const errors: ImportIssue[] = []
+
+  for (const file of await listSourceFiles(paths)) {
+    const text = await fs.readFile(file, 'utf-8')
+    try {
+      records.push(...(path.extname(file).toLowerCase() === '.json'
+        ? jsonRecords(file, text)
+        : csvRecords(file, text)))
+    } catch (error) {
+      errors.push({ file, row: 0, message: `Could not read file: ${(error as Error).message}` })
+    }
+  }
+
+  const products = new Map<string, CatalogProduct>()
+  const definedAt = new Map<string, string>()
+  const stock: Record<string, number> = {}
+
+  const report = (record: SourceRecord, message: string) => {
+    errors.push({ file: record.file, row: record.row, message })
+  }
+
+  for (const record of records.filter(r => r.kind === 'product')) {
+    const reader = new RowReader(record.data)
+    const id = reader.text('id', true)
+    const product: CatalogProduct = {
+      id,
+      title: reader.text('title', true),
+      brand: reader.text('brand'),
+      price: reader.number('price', { required: true, min: 0 }) ?? 0,
+      rating: reader.number('rating', { min: 0, max: 5 }) ?? 0,
+      numRatings: reader.number('numRatings', { min: 0, integer: true }) ?? 0,
+      description: reader.text('description', true),
+      images: reader.list('images'),
+      deliveryDays: reader.deliveryDays(),
+      category: reader.text('category'),
+      specs: reader.specs(),
+      reviews: [],
+    }
+    const units = reader.number('stock', { min: 0, integer: true })
+
+    if (product.category && !findCategory(product.category)) {
+      reader.problems.push(`unknown category "${product.category}"`)
+    }
+    if (id && definedAt.has(id)) {
+      reader.problems.push(`duplicate product ID "${id}" (first defined at ${definedAt.get(id)})`)
+    }
+    if (reader.problems.length > 0) {
+      report(record, reader.problems.join('; '))
+      continue
+    }
+
+    // Store the canonical category ID even if the file used its name
+    product.category = product.category ? findCategory(product.category)!.id : undefined
+    products.set(id, product)
+    definedAt.set(id, `${record.file}:${record.row}`)
+    stock[id] = units ?? DEFAULT_STOCK
+  }
+
+  for (const record of records.filter(r => r.kind === 'review')) {
+    const reader = new RowReader(record.data)
+    const productId = reader.text('productId', true)
+    const review = {
+      rating: reader.number('rating', { required: true, min: 1, max: 5 }) ?? 0,
+      comment: reader.text('comment', true),
+      date: reader.date('date'),
+    }
+
+    const product = products.get(productId)
+    if (productId && !product) {
+      reader.problems.push(`review for unknown product "${productId}"`)
+    }
+    if (reader.problems.length > 0 || !product) {
+      report(record, reader.problems.join('; '))
+      continue
+    }
+    product.reviews.push(review)
+  }
+
+  for (const record of records.filter(r => r.kind === 'price')) {
+    const reader = new RowReader(record.data)
+    const productId = reader.text('productId') ?? reader.text('id', true)
+    const price = reader.number('price', { required: true, min: 0 })
+
+    const product = products.get(productId)
+    if (productId && !product) {
+      reader.problems.push(`price for unknown product "${productId}"`)
+    }
+    if (reader.problems.length > 0 || !product || price === undefined) {
+      report(record, reader.problems.join('; '))
+      continue
+    }
+    product.price = price
+  }
+
+  return { products: Array.from(products.values()), stock, errors }
+}
+
+/**
+ * Make an imported catalog the active one, dropping seed variants, stock,
+ * order history and promotions of products it doesn't have.
+ * Stock from the import only seeds products the inventory hasn't seen yet;
+ * live counts already in storage are kept.
+ */
+export function useCatalog(catalog: CatalogImport): void {
+  if (catalog.products.length === 0) {
+    throw new Error('Catalog import produced no valid products')
+  }
+
+  const productIds = new Set(catalog.products.map(p => p.id))
+  Object.assign(mockData, indexCatalog(catalog.products))
+  mockData.productVariants = Object.fromEntries(
+    Object.entries(mockData.productVariants).filter(([productId]) => productIds.has(productId))
+  )
+  mockData.storeOrderHistory = mockData.storeOrderHistory
+    .map(basket => basket.filter(productId => productIds.has(productId)))
+    .filter(basket => basket.length > 1)
+  mockData.promotions = mockData.promotions
+    .filter(promotion => catalog.products.some(product => appliesTo(promotion, product.id)))
+  mockData.inventory = {}
+  for (const [productId, units] of Object.entries(catalog.stock)) {
+    if (!mockData.productVariants[productId]) {
+      mockData.inventory[productId] = units
+    }
+  }
+}
+
+/**
+ * Import and activate the catalog named by CONCIERGE_CATALOG (comma-separated
+ * files or directories). Returns the row-level problems, or null when the
+ * built-in catalog is used.
+ */
+export async function loadCatalogFromEnv(): Promise<ImportIssue[] | null> {
+  const setting = process.env.CONCIERGE_CATALOG
+  if (!setting) return null
+
+  const paths = setting.split(',').map(p => p.trim()).filter(Boolean)
+  const catalog = await importCatalog(paths)
+  useCatalog(catalog)
+  return catalog.errors
+}
+
+/**
+ * Format an import problem as "file:row: message"
+ */
+export function formatIssue(issue: ImportIssue): string {
+  return issue.row > 0
+    ? `${issue.file}:${issue.row}: ${issue.message}`
+    : `${issue.file}: ${issue.message}`
+}
+
+// ============================================================================
+// COMMAND LINE - npm run catalog:check -- <files or directories>
+// ============================================================================
+
+if (require.main === module) {
+  const paths = process.argv.slice(2)
+  if (paths.length === 0) {
+    console.error('Usage: npm run catalog:check -- <file or directory> [...]')
+    process.exit(1)
+  }
+
+  importCatalog(paths)
+    .then(({ products, errors }) => {
+      const reviews = products.reduce((sum, p) => sum + p.reviews.length, 0)
+      console.log(`${products.length} products and ${reviews} reviews imported`)
+      for (const issue of errors) {
+        console.log(`  ${formatIssue(issue)}`)
+      }
+      process.exit(errors.length > 0 ? 1 : 0)
+    })
+    .catch((error) => {
+      console.error(`Import failed: ${error.message}`)
+      process.exit(1)
+    })
+}
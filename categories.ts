@@ -0,0 +1,161 @@
+/**
+ * Category Taxonomy for E-Commerce Concierge
+ * A hierarchical category tree (e.g. Electronics > Audio > Headphones)
+ * with every product attached to one leaf category.
+ */
+
+import { mockData } from "./data"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A node in the category tree; top-level categories have no parent
+ */
+export type Category = {
+  id: string
+  name: string
+  parentId?: string
+}
+
+/**
+ * A category with its subcategories and how many products sit under it
+ */
+export type CategoryNode = {
+  id: string
+  name: string
+  productCount: number
+  children: CategoryNode[]
+}
+
+/**
+ * How many of a set of products fall into a category, for drill-down
+ */
+export type CategoryFacet = {
+  id: string
+  name: string
+  path: string // e.g. "Electronics > Audio > Headphones"
+  count: number
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Find a category by ID or (case-insensitive) name
+ */
+export function findCategory(idOrName: string): Category | undefined {
+  const key = idOrName.toLowerCase().trim()
+  return mockData.categories.find(
+    c => c.id === key || c.name.toLowerCase() === key
+  )
+}
+
+/**
+ * Direct subcategories of a category, or the top-level categories
+ */
+export function childCategories(parentId?: string): Category[] {
+  return mockData.categories.filter(c => c.parentId === parentId)
+}
+
+/**
+ * Categories from the root down to (and including) the given one
+ */
+export function categoryPath(categoryId: string): Category[] {
+  const path: Category[] = []
+  let category = mockData.categories.find(c => c.id === categoryId)
+  while (category) {
+    path.unshift(category)
+    category = category.parentId
+      ? mockData.categories.find(c => c.id === category!.parentId)
+      : undefined
+  }
+  return path
+}
+
+/**
+ * Display form of a category path, e.g. "Electronics > Audio > Headphones"
+ */
+export function formatCategoryPath(categoryId: string): string {
+  return categoryPath(categoryId).map(c => c.name).join(' > ')
+}
+
+/**
+ * Breadcrumb of the category a product belongs to
+ */
+export function productCategory(productId: string): string | undefined {
+  const categoryId = mockData.productCategories[productId]
+  return categoryId ? formatCategoryPath(categoryId) : undefined
+}
+
+/**
+ * Whether a product sits in a category or any of its subcategories
+ */
+export function isInCategory(productId: string, categoryId: string): boolean {
+  const leaf = mockData.productCategories[productId]
+  return !!leaf && categoryPath(leaf).some(c => c.id === categoryId)
+}
+
+/**
+ * IDs of all products in a category or any of its subcategories
+ */
+export function categoryProductIds(categoryId: string): string[] {
+  return Object.keys(mockData.productCategories)
+    .filter(productId => isInCategory(productId, categoryId))
+}
+
+// ============================================================================
+// TREE & FACETS
+// ============================================================================
+
+/**
+ * The category tree below a category (or the whole tree) with product counts
+ */
+export function categoryTree(parentId?: string): CategoryNode[] {
+  return childCategories(parentId).map(category => ({
+    id: category.id,
+    name: category.name,
+    productCount: categoryProductIds(category.id).length,
+    children: categoryTree(category.id),
+  }))
+}
+
+/**
+ * Count products per category at the level where they start to differ,
+ * so the shopper always gets a meaningful next step to drill into.
+ * Products that all share one leaf get that leaf as their only facet.
+ */
+export function categoryFacets(productIds: string[]): CategoryFacet[] {
+  const paths = productIds
+    .map(id => mockData.productCategories[id])
+    .filter((leaf): leaf is string => !!leaf)
+    .map(leaf => categoryPath(leaf))
+
+  if (paths.length === 0) return []
+
+  // Depth of the deepest category every product shares
+  let depth = 0
+  while (
+    depth < paths[0].length - 1 &&
+    paths.every(path => path.length > depth + 1 && path[depth].id === paths[0][depth].id)
+  ) {
+    depth++
+  }
+
+  const counts = new Map<string, number>()
+  for (const path of paths) {
+    const category = path[Math.min(depth, path.length - 1)]
+    counts.set(category.id, (counts.get(category.id) ?? 0) + 1)
+  }
+
+  return Array.from(counts.entries())
+    .map(([id, count]) => ({
+      id,
+      name: mockData.categories.find(c => c.id === id)!.name,
+      path: formatCategoryPath(id),
+      count,
+    }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+}
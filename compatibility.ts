@@ -0,0 +1,206 @@
+/**
+ * Compatibility for E-Commerce Concierge
+ * Works out which products fit together from their compatibility specs:
+ * whether a cable's plugs fit a device's charging port and carry enough
+ * power, and which operating systems a device supports.
+ */
+
+import { mockData } from "./data"
+import type { ProductSpecs } from "./specs"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type CompatibilityStatus = 'compatible' | 'limited' | 'incompatible'
+
+/**
+ * How two related products (a cable and a device) work together
+ */
+export type CompatibilityCheck = {
+  productIds: [string, string]
+  status: CompatibilityStatus
+  reason: string // e.g. "Fits the Sony WH-1000XM5's USB-C port; 60 W covers its 15 W charging"
+}
+
+/**
+ * How well a product works on an operating system
+ */
+export type PlatformSupport = {
+  productId: string
+  platform: string
+  status: CompatibilityStatus
+  reason: string
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Names shoppers use for each platform, matched as whole words
+ */
+const PLATFORM_ALIASES: Record<string, string[]> = {
+  macOS: ['macos', 'mac', 'macbook', 'imac', 'osx', 'os x'],
+  iOS: ['ios', 'iphone'],
+  iPadOS: ['ipados', 'ipad'],
+  Windows: ['windows', 'pc', 'win'],
+  Android: ['android', 'pixel', 'galaxy'],
+  Linux: ['linux', 'ubuntu'],
+  ChromeOS: ['chromeos', 'chrome os', 'chromebook'],
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function specsOf(productId: string): ProductSpecs {
+  return mockData.productDetails[productId]?.specs ?? {}
+}
+
+function listSpec(value: unknown): string[] {
+  return typeof value === 'string' ? value.split(',').map(v => v.trim()).filter(Boolean) : []
+}
+
+function shortName(productId: string): string {
+  return mockData.productDetails[productId].title.split(/ [-|] /)[0].trim()
+}
+
+function possessive(name: string): string {
+  return name.endsWith('s') ? `${name}'` : `${name}'s`
+}
+
+/**
+ * A cable's plugs, e.g. "USB-C to Lightning" -> ["USB-C", "Lightning"]
+ */
+function cableEnds(productId: string): string[] {
+  const connectors = specsOf(productId).connectors
+  return typeof connectors === 'string' ? connectors.split(/\s+to\s+/i).map(end => end.trim()) : []
+}
+
+function isCable(productId: string): boolean {
+  return cableEnds(productId).length > 0
+}
+
+function isDevice(productId: string): boolean {
+  return typeof specsOf(productId).port === 'string'
+}
+
+/**
+ * The canonical platform name for what a shopper typed ("my MacBook" -> "macOS")
+ */
+export function findPlatform(text: string): string | undefined {
+  const lower = text.toLowerCase()
+  for (const [platform, aliases] of Object.entries(PLATFORM_ALIASES)) {
+    if (aliases.some(alias => new RegExp(`(^|[^a-z])${alias}($|[^a-z])`).test(lower))) {
+      return platform
+    }
+  }
+  return undefined
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Whether a cable can charge a device: its plugs must fit the device's port,
+ * and it should carry at least the power the device charges at
+ */
+function checkCable(cableId: string, deviceId: string): CompatibilityCheck {
+  const cable = specsOf(cableId)
+  const device = specsOf(deviceId)
+  const ends = cableEnds(cableId)
+  const port = String(device.port)
+  const productIds: [string, string] = [cableId, deviceId]
+
+  if (!ends.some(end => end.toLowerCase() === port.toLowerCase())) {
+    const plugs = ends.every(end => end === ends[0]) ? `${ends[0]} plugs` : `${ends.join('/')} plugs`
+    return {
+      productIds,
+      status: 'incompatible',
+      reason: `The ${shortName(cableId)} has ${plugs}, but the ${shortName(deviceId)} charges through ${/^[aeiou]/i.test(port) ? 'an' : 'a'} ${port} port`,
+    }
+  }
+
+  const cablePower = typeof cable.chargingPower === 'number' ? cable.chargingPower : undefined
+  const devicePower = typeof device.chargingPower === 'number' ? device.chargingPower : undefined
+  if (cablePower !== undefined && devicePower !== undefined && cablePower < devicePower) {
+    return {
+      productIds,
+      status: 'limited',
+      reason: `Fits the ${possessive(shortName(deviceId))} ${port} port, but carries ${cablePower} W of the ${devicePower} W it charges at, so charging is slower`,
+    }
+  }
+
+  const power = cablePower !== undefined && devicePower !== undefined
+    ? `; ${cablePower} W covers its ${devicePower} W charging`
+    : ''
+  return {
+    productIds,
+    status: 'compatible',
+    reason: `Fits the ${possessive(shortName(deviceId))} ${port} port${power}`,
+  }
+}
+
+/**
+ * How two products relate, or null when neither plugs into the other
+ */
+export function checkPair(a: string, b: string): CompatibilityCheck | null {
+  if (a === b) return null
+  if (isCable(a) && isDevice(b)) return checkCable(a, b)
+  if (isCable(b) && isDevice(a)) return checkCable(b, a)
+  return null
+}
+
+/**
+ * Whether a product runs on a platform, or null when it doesn't depend on one
+ */
+export function checkPlatform(productId: string, platform: string): PlatformSupport | null {
+  const specs = specsOf(productId)
+  const full = listSpec(specs.platforms)
+  const limited = listSpec(specs.limitedPlatforms)
+  if (full.length === 0 && limited.length === 0) return null
+
+  const name = shortName(productId)
+  if (full.includes(platform)) {
+    return { productId, platform, status: 'compatible', reason: `The ${name} works fully with ${platform}` }
+  }
+  if (limited.includes(platform)) {
+    return { productId, platform, status: 'limited', reason: `The ${name} works with ${platform}, but some features need ${full.join('/')}` }
+  }
+  return { productId, platform, status: 'incompatible', reason: `The ${name} doesn't support ${platform} (works with ${full.join(', ')})` }
+}
+
+// ============================================================================
+// GRAPH
+// ============================================================================
+
+/**
+ * Every catalog product that could plug into `productId` and whether it
+ * fits, best fit first
+ */
+export function compatibleWith(productId: string): CompatibilityCheck[] {
+  const order: CompatibilityStatus[] = ['compatible', 'limited', 'incompatible']
+  return mockData.searchResults
+    .map(other => checkPair(productId, other.id))
+    .filter((check): check is CompatibilityCheck => check !== null)
+    .sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status))
+}
+
+/**
+ * Problems among a set of products (a cart). A cable is only flagged when
+ * it fits none of the devices alongside it; one that charges something in
+ * the cart is there for that, not for the others.
+ */
+export function findConflicts(productIds: string[]): CompatibilityCheck[] {
+  const ids = Array.from(new Set(productIds))
+  const conflicts: CompatibilityCheck[] = []
+
+  for (const cableId of ids.filter(isCable)) {
+    const checks = ids.filter(isDevice).map(deviceId => checkCable(cableId, deviceId))
+    if (checks.length === 0 || checks.some(check => check.status === 'compatible')) continue
+    conflicts.push(...checks)
+  }
+  return conflicts
+}
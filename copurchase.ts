@@ -0,0 +1,101 @@
+/**
+ * Co-Purchase Model for E-Commerce Concierge
+ * Learns which products are bought together from order history: the
+ * store's past orders plus every order in storage, across all shoppers.
+ */
+
+import { mockData } from "./data"
+import { getStorage, StorageAdapter } from "./storage"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A product bought in the same order as another one
+ */
+export type CoPurchase = {
+  productId: string
+  count: number // Orders containing both products
+  confidence: number // Share of the product's orders that also had this one (0-1)
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Orders two products must share before they're suggested together
+ */
+const MIN_CO_PURCHASES = 2
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+/**
+ * Product IDs of every order in storage. Read once per storage and then kept
+ * current by recordOrder, so suggestions never re-read every shopper.
+ */
+let storedOrders: { storage: StorageAdapter; baskets: Promise<string[][]> } | null = null
+
+async function readStoredOrders(storage: StorageAdapter): Promise<string[][]> {
+  const baskets: string[][] = []
+  for (const userId of await storage.listUsers()) {
+    const { orders } = await storage.loadUser(userId)
+    for (const order of orders) {
+      baskets.push(order.items.map(item => item.productId))
+    }
+  }
+  return baskets
+}
+
+/**
+ * Every order as a set of product IDs (variants of one product count once),
+ * keeping orders with at least two catalog products
+ */
+async function loadBaskets(): Promise<Array<Set<string>>> {
+  const storage = getStorage()
+  if (storedOrders?.storage !== storage) {
+    storedOrders = { storage, baskets: readStoredOrders(storage) }
+  }
+  const baskets = [...mockData.storeOrderHistory, ...(await storedOrders.baskets)]
+
+  return baskets
+    .map(basket => new Set(basket.filter(id => mockData.productDetails[id])))
+    .filter(basket => basket.size > 1)
+}
+
+/**
+ * Learn from an order once it has been saved. Until the stored orders have
+ * been read there is nothing to update; the first read will include it.
+ */
+export function recordOrder(productIds: string[]): void {
+  if (storedOrders && storedOrders.storage === getStorage()) {
+    storedOrders.baskets = storedOrders.baskets.then(baskets => [...baskets, productIds])
+  }
+}
+
+/**
+ * Products most often bought in the same order as `productId`, most frequent
+ * first. Only pairs seen in at least MIN_CO_PURCHASES orders count.
+ */
+export async function boughtTogether(productId: string, limit: number): Promise<CoPurchase[]> {
+  const baskets = (await loadBaskets()).filter(basket => basket.has(productId))
+
+  const counts = new Map<string, number>()
+  for (const basket of baskets) {
+    for (const other of basket) {
+      if (other !== productId) counts.set(other, (counts.get(other) ?? 0) + 1)
+    }
+  }
+
+  return Array.from(counts, ([id, count]) => ({
+    productId: id,
+    count,
+    confidence: Math.round((count / baskets.length) * 100) / 100,
+  }))
+    .filter(pair => pair.count >= MIN_CO_PURCHASES)
+    .sort((a, b) => b.count - a.count || a.productId.localeCompare(b.productId))
+    .slice(0, limit)
+}
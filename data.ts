@@ -1,4 +1,10 @@
-import { ProductDetails, ProductReview, SearchResult } from "./tools"
+import { ProductDetails, ProductReview, ProductVariant, SearchResult } from "./tools"
+import type { Category } from "./categories"
+import type { ProductSpecs } from "./specs"
+import type { AppliedDiscount, Promotion } from "./promotions"
+import type { ShippingCharge, TaxCharge } from "./pricing"
+import type { OrderStatus, ReturnReason, StatusChange } from "./orders"
+import type { Shipment } from "./carrier"
 
 // ============================================================================
 // CART & WISHLIST TYPES
@@ -6,14 +12,17 @@ import { ProductDetails, ProductReview, SearchResult } from "./tools"
 
 export type CartItem = {
   productId: string
+  sku: string // Variant SKU, or the product ID for products without variants
   title: string
-  price: number
+  price: number // Unit price including any variant price delta
   quantity: number
+  variant?: Record<string, string> // Selected attributes, e.g. { size: "10" }
 }
 
 export type Cart = {
   items: CartItem[]
-  total: number
+  total: number // After discounts
+  coupons: string[] // Coupon codes applied, in order
 }
 
 export type Wishlist = {
@@ -23,362 +32,160 @@ export type Wishlist = {
 export type Order = {
   orderId: string
   items: CartItem[]
-  total: number
-  status: 'pending' | 'confirmed' | 'shipped' | 'delivered'
+  subtotal?: number // Before discounts (unset on orders placed before promotions)
+  discounts?: AppliedDiscount[]
+  shipping?: ShippingCharge // Unset on orders placed before shipping was charged
+  tax?: TaxCharge
+  shippingAddress?: Address // Unset for store pickup and orders placed before addresses
+  shipment?: Shipment // Carrier and tracking number; unset for store pickup and orders placed before tracking
+  payment?: OrderPayment // Unset on orders placed before payments
+  total: number // Grand total: items after discounts, plus shipping and tax
+  status: OrderStatus
+  history: StatusChange[] // Every status the order entered, oldest first
+  returns?: OrderReturn[]
+  refunds?: OrderRefund[] // From cancelling the order and from returns
   orderDate: string
   estimatedDelivery?: string
 }
 
-// ============================================================================
-// SESSION STATE (In-memory storage for demo)
-// ============================================================================
+/**
+ * A saved shipping address
+ */
+export type Address = {
+  id: string // e.g. "addr-1"
+  name: string // Recipient
+  line1: string
+  line2?: string
+  city: string
+  region: string // Tax region code, e.g. "US-NY"
+  postalCode: string
+}
+
+export type AddressBook = {
+  addresses: Address[]
+  defaultId?: string // Address used when the shopper doesn't pick one
+}
 
 /**
- * Shopping cart - persists during the session
+ * A saved way to pay. Cards are kept as a gateway token and what's needed
+ * to recognise them, never the full number.
  */
-export const cart: Cart = {
-  items: [],
-  total: 0,
+export type PaymentMethod =
+  | { id: string; type: 'card'; brand: string; last4: string; expiry: string; token: string } // expiry: MM/YY
+  | { id: string; type: 'gift_card'; code: string }
+
+export type Wallet = {
+  methods: PaymentMethod[]
+  defaultId?: string // Method used when the shopper doesn't pick one
 }
 
 /**
- * Wishlist - persists during the session
+ * How an order was paid for
  */
-export const wishlist: Wishlist = {
-  items: [],
+export type OrderPayment = {
+  methodId: string
+  description: string // e.g. "Visa ending 4242"
+  authorizationId: string
+  amount: number
+  capturedAt: string // ISO timestamp
 }
 
 /**
- * Order history - persists during the session
+ * Units sent back from a delivered order
  */
-export const orders: Order[] = []
+export type OrderReturn = {
+  returnId: string // e.g. "RET-LX2K9-AB12-1"
+  items: Array<{ sku: string; title: string; quantity: number }>
+  reason: ReturnReason
+  comment?: string
+  requestedAt: string // ISO timestamp
+  restocked: boolean // Put back on sale; damaged and defective units aren't
+  refunded: number
+}
+
+/**
+ * Money sent back to whatever paid for an order
+ */
+export type OrderRefund = {
+  amount: number
+  description: string // Where it went, e.g. "Visa ending 4242"
+  authorizationId?: string // Unset on orders placed before payments
+  reason: string // e.g. "Order cancelled", "Return RET-LX2K9-AB12-1"
+  refundedAt: string // ISO timestamp
+}
+
+/**
+ * What a shopper has shown interest in, beyond their wishlist and orders
+ */
+export type ShopperProfile = {
+  viewed: ProductView[] // Most recent first
+  dismissed: string[] // Product IDs the shopper doesn't want recommended
+}
+
+export type ProductView = {
+  productId: string
+  viewedAt: string
+}
 
 // ============================================================================
-// PRODUCT CATALOG DATA
+// CATALOG TYPES
 // ============================================================================
 
 /**
- * Mock data for the ecommerce concierge.
- * Comprehensive product catalog with multiple categories.
+ * One product in the normalized catalog, with everything known about it.
+ * Search results, product details and reviews are all derived from this.
+ */
+export type CatalogProduct = {
+  id: string
+  title: string
+  brand?: string
+  price: number
+  rating: number
+  numRatings: number
+  description: string
+  images: string[]
+  deliveryDays: number // Business days from ordering to delivery
+  category?: string // Leaf category ID
+  specs?: ProductSpecs
+  reviews: ProductReview[]
+}
+
+/**
+ * Lookup tables the tools read, built from the catalog
  */
-export const mockData: {
+export type CatalogIndexes = {
   searchResults: SearchResult[]
   productDetails: Record<string, ProductDetails>
   productReviews: Record<string, ProductReview[]>
-} = {
-  searchResults: [
-    // Smart Home & Electronics
-    {
-      id: "B08N5WRWNW",
-      title: "Echo Dot (4th Gen) | Smart speaker with Alexa | Charcoal",
-      price: 49.99,
-      rating: 4.5,
-      numRatings: 123456,
-      deliveryDate: "2025-01-15",
-    },
-    
-    // Hiking Boots Category
-    {
-      id: "HB001",
-      title: "Salomon Quest 4 GTX Hiking Boots - Men's Waterproof Trekking Shoes",
-      price: 229.95,
-      rating: 4.8,
-      numRatings: 3421,
-      deliveryDate: "2025-01-12",
-    },
-    {
-      id: "HB002",
-      title: "Merrell Moab 3 Mid Waterproof Hiking Boots - All Terrain Trekking",
-      price: 149.99,
-      rating: 4.6,
-      numRatings: 8934,
-      deliveryDate: "2025-01-13",
-    },
-    {
-      id: "HB003",
-      title: "La Sportiva Nepal Extreme GTX - High Altitude Mountaineering Boots",
-      price: 599.00,
-      rating: 4.9,
-      numRatings: 892,
-      deliveryDate: "2025-01-18",
-    },
-    {
-      id: "HB004",
-      title: "Columbia Newton Ridge Plus Waterproof Hiking Boot - Budget Trek Shoes",
-      price: 89.99,
-      rating: 4.3,
-      numRatings: 15432,
-      deliveryDate: "2025-01-11",
-    },
-    
-    // USB Cables Category
-    {
-      id: "USB001",
-      title: "Anker USB C to USB C Cable 6ft (2m) - 100W Fast Charging",
-      price: 12.99,
-      rating: 4.7,
-      numRatings: 45231,
-      deliveryDate: "2025-01-10",
-    },
-    {
-      id: "USB002",
-      title: "Apple USB-C Charge Cable 2m - Premium Braided Design",
-      price: 29.00,
-      rating: 4.5,
-      numRatings: 8932,
-      deliveryDate: "2025-01-14",
-    },
-    {
-      id: "USB003",
-      title: "Amazon Basics USB-C to USB-C 2.0 Cable 6ft - Value Pack",
-      price: 8.99,
-      rating: 4.4,
-      numRatings: 67543,
-      deliveryDate: "2025-01-10",
-    },
-    {
-      id: "USB004",
-      title: "UGREEN USB C Cable 2M 100W PD Fast Charging - Braided Nylon",
-      price: 14.99,
-      rating: 4.8,
-      numRatings: 23451,
-      deliveryDate: "2025-01-11",
-    },
-    {
-      id: "USB005",
-      title: "Cable Matters USB-C Cable 2m - USB 3.2 Gen 2 10Gbps Data Transfer",
-      price: 19.99,
-      rating: 4.6,
-      numRatings: 5621,
-      deliveryDate: "2025-01-12",
-    },
-    
-    // Headphones Category
-    {
-      id: "HP001",
-      title: "Sony WH-1000XM5 Wireless Noise Cancelling Headphones - Premium ANC",
-      price: 348.00,
-      rating: 4.8,
-      numRatings: 12543,
-      deliveryDate: "2025-01-13",
-    },
-    {
-      id: "HP002",
-      title: "Apple AirPods Pro (2nd Gen) - Active Noise Cancellation",
-      price: 249.00,
-      rating: 4.7,
-      numRatings: 89234,
-      deliveryDate: "2025-01-11",
-    },
-    {
-      id: "HP003",
-      title: "Bose QuietComfort Ultra Headphones - Spatial Audio",
-      price: 429.00,
-      rating: 4.6,
-      numRatings: 5432,
-      deliveryDate: "2025-01-14",
-    },
-    
-    // Laptop Accessories
-    {
-      id: "LA001",
-      title: "Logitech MX Master 3S - Wireless Performance Mouse",
-      price: 99.99,
-      rating: 4.8,
-      numRatings: 34521,
-      deliveryDate: "2025-01-10",
-    },
-    {
-      id: "LA002",
-      title: "Keychron K3 Pro - 75% Low Profile Mechanical Keyboard",
-      price: 109.00,
-      rating: 4.7,
-      numRatings: 8934,
-      deliveryDate: "2025-01-12",
-    },
-  ],
-  
-  productDetails: {
-    // Smart Home
-    B08N5WRWNW: {
-      id: "B08N5WRWNW",
-      title: "Echo Dot (4th Gen) | Smart speaker with Alexa | Charcoal",
-      price: 49.99,
-      rating: 4.5,
-      numRatings: 123456,
-      description:
-        "Meet the Echo Dot - Our most popular smart speaker with Alexa. The sleek, compact design delivers crisp vocals and balanced bass for full sound. Control smart home devices, play music, get weather updates, and more with just your voice.",
-      images: [
-        "https://m.media-amazon.com/images/I/714Rq4k05UL._AC_SL1000_.jpg",
-      ],
-      deliveryDate: "2025-01-15",
-    },
-    
-    // Hiking Boots
-    HB001: {
-      id: "HB001",
-      title: "Salomon Quest 4 GTX Hiking Boots - Men's Waterproof Trekking Shoes",
-      price: 229.95,
-      rating: 4.8,
-      numRatings: 3421,
-      description:
-        "Premium hiking boots with GORE-TEX waterproofing, advanced chassis for ankle support, and Contagrip outsole. Perfect for multi-day treks and challenging terrain including Himalayan expeditions. Features 4D Advanced Chassis for stability on rough terrain.",
-      images: ["https://example.com/salomon-quest4.jpg"],
-      deliveryDate: "2025-01-12",
-    },
-    HB002: {
-      id: "HB002",
-      title: "Merrell Moab 3 Mid Waterproof Hiking Boots - All Terrain Trekking",
-      price: 149.99,
-      rating: 4.6,
-      numRatings: 8934,
-      description:
-        "Versatile hiking boots with waterproof membrane, cushioned midsole, and Vibram TC5+ outsole. Great balance of comfort and durability for day hikes and moderate treks. Bellows tongue keeps debris out.",
-      images: ["https://example.com/merrell-moab3.jpg"],
-      deliveryDate: "2025-01-13",
-    },
-    HB003: {
-      id: "HB003",
-      title: "La Sportiva Nepal Extreme GTX - High Altitude Mountaineering Boots",
-      price: 599.00,
-      rating: 4.9,
-      numRatings: 892,
-      description:
-        "Professional mountaineering boots designed for extreme high-altitude expeditions. Features Vibram sole, GORE-TEX Insulated Comfort lining, and crampon-compatible. Used by mountaineers on Everest and K2. Exceptional warmth down to -40°C.",
-      images: ["https://example.com/lasportiva-nepal.jpg"],
-      deliveryDate: "2025-01-18",
-    },
-    HB004: {
-      id: "HB004",
-      title: "Columbia Newton Ridge Plus Waterproof Hiking Boot - Budget Trek Shoes",
-      price: 89.99,
-      rating: 4.3,
-      numRatings: 15432,
-      description:
-        "Affordable waterproof hiking boots with Omni-Grip rubber outsole and cushioned midsole. Good for casual hiking and light trails. May not provide sufficient support for extreme conditions or heavy backpacking.",
-      images: ["https://example.com/columbia-newton.jpg"],
-      deliveryDate: "2025-01-11",
-    },
-    
-    // USB Cables
-    USB001: {
-      id: "USB001",
-      title: "Anker USB C to USB C Cable 6ft (2m) - 100W Fast Charging",
-      price: 12.99,
-      rating: 4.7,
-      numRatings: 45231,
-      description:
-        "High-quality USB-C cable supporting 100W Power Delivery for fast charging of laptops and phones. Durable design with 10,000+ bend lifespan. USB 2.0 data transfer speeds. Excellent value for money with Anker's reliability.",
-      images: ["https://example.com/anker-usbc.jpg"],
-      deliveryDate: "2025-01-10",
-    },
-    USB002: {
-      id: "USB002",
-      title: "Apple USB-C Charge Cable 2m - Premium Braided Design",
-      price: 29.00,
-      rating: 4.5,
-      numRatings: 8932,
-      description:
-        "Official Apple USB-C cable with woven design for durability. Supports fast charging for iPhone 15 and MacBook. Premium build quality but limited to 60W charging. More expensive than alternatives with similar specs.",
-      images: ["https://example.com/apple-usbc.jpg"],
-      deliveryDate: "2025-01-14",
-    },
-    USB003: {
-      id: "USB003",
-      title: "Amazon Basics USB-C to USB-C 2.0 Cable 6ft - Value Pack",
-      price: 8.99,
-      rating: 4.4,
-      numRatings: 67543,
-      description:
-        "Budget-friendly USB-C cable for basic charging and data transfer. Supports up to 60W charging. Basic build quality, may not last as long as premium options. Great for everyday use but not for heavy-duty applications.",
-      images: ["https://example.com/amazonbasics-usbc.jpg"],
-      deliveryDate: "2025-01-10",
-    },
-    USB004: {
-      id: "USB004",
-      title: "UGREEN USB C Cable 2M 100W PD Fast Charging - Braided Nylon",
-      price: 14.99,
-      rating: 4.8,
-      numRatings: 23451,
-      description:
-        "Premium braided nylon USB-C cable with 100W Power Delivery support. Aluminum alloy connectors resist corrosion. USB 2.0 speeds. Excellent durability with 25,000+ bend tests. Best value for money in the 2m category.",
-      images: ["https://example.com/ugreen-usbc.jpg"],
-      deliveryDate: "2025-01-11",
-    },
-    USB005: {
-      id: "USB005",
-      title: "Cable Matters USB-C Cable 2m - USB 3.2 Gen 2 10Gbps Data Transfer",
-      price: 19.99,
-      rating: 4.6,
-      numRatings: 5621,
-      description:
-        "High-speed USB-C cable with 10Gbps data transfer and 100W charging. Ideal for transferring large files quickly. Supports 4K@60Hz video. More expensive but justified if you need fast data transfer speeds.",
-      images: ["https://example.com/cablematters-usbc.jpg"],
-      deliveryDate: "2025-01-12",
-    },
-    
-    // Headphones
-    HP001: {
-      id: "HP001",
-      title: "Sony WH-1000XM5 Wireless Noise Cancelling Headphones - Premium ANC",
-      price: 348.00,
-      rating: 4.8,
-      numRatings: 12543,
-      description:
-        "Industry-leading noise cancellation with Auto NC Optimizer. 30-hour battery life, multipoint connection, speak-to-chat technology. Ultra-comfortable design with soft-fit leather. Crystal clear hands-free calling with 8 microphones.",
-      images: ["https://example.com/sony-xm5.jpg"],
-      deliveryDate: "2025-01-13",
-    },
-    HP002: {
-      id: "HP002",
-      title: "Apple AirPods Pro (2nd Gen) - Active Noise Cancellation",
-      price: 249.00,
-      rating: 4.7,
-      numRatings: 89234,
-      description:
-        "Apple's premium true wireless earbuds with H2 chip for breakthrough audio. Adaptive Transparency, Personalized Spatial Audio with dynamic head tracking. Up to 6 hours of listening time. MagSafe charging case with precision finding.",
-      images: ["https://example.com/airpods-pro.jpg"],
-      deliveryDate: "2025-01-11",
-    },
-    HP003: {
-      id: "HP003",
-      title: "Bose QuietComfort Ultra Headphones - Spatial Audio",
-      price: 429.00,
-      rating: 4.6,
-      numRatings: 5432,
-      description:
-        "Bose's flagship headphones with world-class noise cancellation and Immersive Audio. CustomTune technology adapts sound to your ears. 24 hours of battery. Premium materials and exceptional comfort for all-day wear.",
-      images: ["https://example.com/bose-qc-ultra.jpg"],
-      deliveryDate: "2025-01-14",
-    },
-    
-    // Laptop Accessories
-    LA001: {
-      id: "LA001",
-      title: "Logitech MX Master 3S - Wireless Performance Mouse",
-      price: 99.99,
-      rating: 4.8,
-      numRatings: 34521,
-      description:
-        "Advanced wireless mouse with MagSpeed electromagnetic scrolling. 8K DPI optical sensor tracks on any surface including glass. Quiet clicks, ergonomic design. Connect up to 3 devices with Easy-Switch. USB-C quick charging.",
-      images: ["https://example.com/mx-master-3s.jpg"],
-      deliveryDate: "2025-01-10",
-    },
-    LA002: {
-      id: "LA002",
-      title: "Keychron K3 Pro - 75% Low Profile Mechanical Keyboard",
-      price: 109.00,
-      rating: 4.7,
-      numRatings: 8934,
-      description:
-        "Ultra-slim wireless mechanical keyboard with hot-swappable low-profile Gateron switches. QMK/VIA support for full customization. RGB backlight, Mac and Windows compatible. Bluetooth 5.1 connects up to 3 devices. Aluminum frame.",
-      images: ["https://example.com/keychron-k3-pro.jpg"],
-      deliveryDate: "2025-01-12",
-    },
-  },
-  
-  productReviews: {
-    B08N5WRWNW: [
+  productCategories: Record<string, string>
+}
+
+// ============================================================================
+// PRODUCT CATALOG DATA
+// ============================================================================
+
+/**
+ * The built-in product catalog.
+ * Replaced at startup when CONCIERGE_CATALOG points at import files (see catalog.ts).
+ */
+export const seedCatalog: CatalogProduct[] = [
+  // Smart Home
+  {
+    id: "B08N5WRWNW",
+    title: "Echo Dot (4th Gen) | Smart speaker with Alexa | Charcoal",
+    brand: "Amazon",
+    price: 49.99,
+    rating: 4.5,
+    numRatings: 123456,
+    description:
+      "Meet the Echo Dot - Our most popular smart speaker with Alexa. The sleek, compact design delivers crisp vocals and balanced bass for full sound. Control smart home devices, play music, get weather updates, and more with just your voice.",
+    images: [
+      "https://m.media-amazon.com/images/I/714Rq4k05UL._AC_SL1000_.jpg",
+    ],
+    deliveryDays: 6,
+    category: "smart-speakers",
+    specs: { voiceAssistant: "Alexa", connectivity: "Wi-Fi, Bluetooth", weight: 341, port: "Power adapter", platforms: "iOS, Android" },
+    reviews: [
       {
         rating: 5,
         comment: "Great smart speaker! Sound quality exceeded my expectations for the price. Alexa works flawlessly.",
@@ -395,8 +202,25 @@ export const mockData: {
         date: "2024-10-30",
       },
     ],
-    
-    HB001: [
+  },
+
+  // Hiking Boots
+  {
+    id: "HB001",
+    title: "Salomon Quest 4 GTX Hiking Boots - Men's Waterproof Trekking Shoes",
+    brand: "Salomon",
+    price: 229.95,
+    rating: 4.8,
+    numRatings: 3421,
+    description:
+      "Premium hiking boots with GORE-TEX waterproofing, advanced chassis for ankle support, and Contagrip outsole. Perfect for multi-day treks and challenging terrain including Himalayan expeditions. Features 4D Advanced Chassis for stability on rough terrain.",
+    images: [
+      "https://example.com/salomon-quest4.jpg",
+    ],
+    deliveryDays: 3,
+    category: "hiking-boots",
+    specs: { weight: 690, waterproof: true, membrane: "GORE-TEX", shaftHeight: "High" },
+    reviews: [
       {
         rating: 5,
         comment: "Used these on a 2-week trek in Nepal. Excellent ankle support and waterproofing held up perfectly even in monsoon conditions.",
@@ -413,7 +237,23 @@ export const mockData: {
         date: "2024-09-08",
       },
     ],
-    HB002: [
+  },
+  {
+    id: "HB002",
+    title: "Merrell Moab 3 Mid Waterproof Hiking Boots - All Terrain Trekking",
+    brand: "Merrell",
+    price: 149.99,
+    rating: 4.6,
+    numRatings: 8934,
+    description:
+      "Versatile hiking boots with waterproof membrane, cushioned midsole, and Vibram TC5+ outsole. Great balance of comfort and durability for day hikes and moderate treks. Bellows tongue keeps debris out.",
+    images: [
+      "https://example.com/merrell-moab3.jpg",
+    ],
+    deliveryDays: 4,
+    category: "hiking-boots",
+    specs: { weight: 540, waterproof: true, membrane: "M Select DRY", shaftHeight: "Mid" },
+    reviews: [
       {
         rating: 5,
         comment: "Comfortable right out of the box. Did a 50-mile trek with no blisters.",
@@ -430,7 +270,23 @@ export const mockData: {
         date: "2024-09-30",
       },
     ],
-    HB003: [
+  },
+  {
+    id: "HB003",
+    title: "La Sportiva Nepal Extreme GTX - High Altitude Mountaineering Boots",
+    brand: "La Sportiva",
+    price: 599,
+    rating: 4.9,
+    numRatings: 892,
+    description:
+      "Professional mountaineering boots designed for extreme high-altitude expeditions. Features Vibram sole, GORE-TEX Insulated Comfort lining, and crampon-compatible. Used by mountaineers on Everest and K2. Exceptional warmth down to -40°C.",
+    images: [
+      "https://example.com/lasportiva-nepal.jpg",
+    ],
+    deliveryDays: 9,
+    category: "mountaineering-boots",
+    specs: { weight: 1050, waterproof: true, membrane: "GORE-TEX Insulated Comfort", shaftHeight: "High", minTemperature: -40 },
+    reviews: [
       {
         rating: 5,
         comment: "Summited Island Peak in these. Kept my feet warm at -30°C. Worth every penny for serious mountaineering.",
@@ -447,7 +303,23 @@ export const mockData: {
         date: "2024-07-20",
       },
     ],
-    HB004: [
+  },
+  {
+    id: "HB004",
+    title: "Columbia Newton Ridge Plus Waterproof Hiking Boot - Budget Trek Shoes",
+    brand: "Columbia",
+    price: 89.99,
+    rating: 4.3,
+    numRatings: 15432,
+    description:
+      "Affordable waterproof hiking boots with Omni-Grip rubber outsole and cushioned midsole. Good for casual hiking and light trails. May not provide sufficient support for extreme conditions or heavy backpacking.",
+    images: [
+      "https://example.com/columbia-newton.jpg",
+    ],
+    deliveryDays: 2,
+    category: "hiking-boots",
+    specs: { weight: 480, waterproof: true, membrane: "Omni-Tech", shaftHeight: "Mid" },
+    reviews: [
       {
         rating: 4,
         comment: "Great starter boots for the price. Used them on several day hikes without issues.",
@@ -464,8 +336,25 @@ export const mockData: {
         date: "2024-09-15",
       },
     ],
-    
-    USB001: [
+  },
+
+  // USB Cables
+  {
+    id: "USB001",
+    title: "Anker USB C to USB C Cable 6ft (2m) - 100W Fast Charging",
+    brand: "Anker",
+    price: 12.99,
+    rating: 4.7,
+    numRatings: 45231,
+    description:
+      "High-quality USB-C cable supporting 100W Power Delivery for fast charging of laptops and phones. Durable design with 10,000+ bend lifespan. USB 2.0 data transfer speeds. Excellent value for money with Anker's reliability.",
+    images: [
+      "https://example.com/anker-usbc.jpg",
+    ],
+    deliveryDays: 1,
+    category: "cables",
+    specs: { chargingPower: 100, dataRate: 0.48, length: 2, braided: false, bendLifespan: 10000, connectors: "USB-C to USB-C" },
+    reviews: [
       {
         rating: 5,
         comment: "Anker quality as expected. Charges my MacBook Pro at full speed. Cable feels very durable.",
@@ -482,7 +371,23 @@ export const mockData: {
         date: "2024-10-28",
       },
     ],
-    USB002: [
+  },
+  {
+    id: "USB002",
+    title: "Apple USB-C Charge Cable 2m - Premium Braided Design",
+    brand: "Apple",
+    price: 29,
+    rating: 4.5,
+    numRatings: 8932,
+    description:
+      "Official Apple USB-C cable with woven design for durability. Supports fast charging for iPhone 15 and MacBook. Premium build quality but limited to 60W charging. More expensive than alternatives with similar specs.",
+    images: [
+      "https://example.com/apple-usbc.jpg",
+    ],
+    deliveryDays: 5,
+    category: "cables",
+    specs: { chargingPower: 60, dataRate: 0.48, length: 2, braided: true, connectors: "USB-C to USB-C" },
+    reviews: [
       {
         rating: 4,
         comment: "Nice quality cable but overpriced compared to alternatives with same specs.",
@@ -499,7 +404,23 @@ export const mockData: {
         date: "2024-10-10",
       },
     ],
-    USB003: [
+  },
+  {
+    id: "USB003",
+    title: "Amazon Basics USB-C to USB-C 2.0 Cable 6ft - Value Pack",
+    brand: "Amazon Basics",
+    price: 8.99,
+    rating: 4.4,
+    numRatings: 67543,
+    description:
+      "Budget-friendly USB-C cable for basic charging and data transfer. Supports up to 60W charging. Basic build quality, may not last as long as premium options. Great for everyday use but not for heavy-duty applications.",
+    images: [
+      "https://example.com/amazonbasics-usbc.jpg",
+    ],
+    deliveryDays: 1,
+    category: "cables",
+    specs: { chargingPower: 60, dataRate: 0.48, length: 1.8, braided: false, connectors: "USB-C to USB-C" },
+    reviews: [
       {
         rating: 4,
         comment: "Can't beat the price. Does basic charging fine. Not the most durable but good enough.",
@@ -516,7 +437,23 @@ export const mockData: {
         date: "2024-09-20",
       },
     ],
-    USB004: [
+  },
+  {
+    id: "USB004",
+    title: "UGREEN USB C Cable 2M 100W PD Fast Charging - Braided Nylon",
+    brand: "UGREEN",
+    price: 14.99,
+    rating: 4.8,
+    numRatings: 23451,
+    description:
+      "Premium braided nylon USB-C cable with 100W Power Delivery support. Aluminum alloy connectors resist corrosion. USB 2.0 speeds. Excellent durability with 25,000+ bend tests. Best value for money in the 2m category.",
+    images: [
+      "https://example.com/ugreen-usbc.jpg",
+    ],
+    deliveryDays: 2,
+    category: "cables",
+    specs: { chargingPower: 100, dataRate: 0.48, length: 2, braided: true, bendLifespan: 25000, connectors: "USB-C to USB-C" },
+    reviews: [
       {
         rating: 5,
         comment: "Outstanding cable! Braided design is super durable and the 100W charging is fast. Best value for money.",
@@ -533,7 +470,23 @@ export const mockData: {
         date: "2024-10-18",
       },
     ],
-    USB005: [
+  },
+  {
+    id: "USB005",
+    title: "Cable Matters USB-C Cable 2m - USB 3.2 Gen 2 10Gbps Data Transfer",
+    brand: "Cable Matters",
+    price: 19.99,
+    rating: 4.6,
+    numRatings: 5621,
+    description:
+      "High-speed USB-C cable with 10Gbps data transfer and 100W charging. Ideal for transferring large files quickly. Supports 4K@60Hz video. More expensive but justified if you need fast data transfer speeds.",
+    images: [
+      "https://example.com/cablematters-usbc.jpg",
+    ],
+    deliveryDays: 3,
+    category: "cables",
+    specs: { chargingPower: 100, dataRate: 10, length: 2, braided: false, videoOutput: "4K@60Hz", connectors: "USB-C to USB-C" },
+    reviews: [
       {
         rating: 5,
         comment: "The data transfer speeds are incredible. Essential if you move large video files.",
@@ -550,8 +503,25 @@ export const mockData: {
         date: "2024-09-28",
       },
     ],
-    
-    HP001: [
+  },
+
+  // Headphones
+  {
+    id: "HP001",
+    title: "Sony WH-1000XM5 Wireless Noise Cancelling Headphones - Premium ANC",
+    brand: "Sony",
+    price: 348,
+    rating: 4.8,
+    numRatings: 12543,
+    description:
+      "Industry-leading noise cancellation with Auto NC Optimizer. 30-hour battery life, multipoint connection, speak-to-chat technology. Ultra-comfortable design with soft-fit leather. Crystal clear hands-free calling with 8 microphones.",
+    images: [
+      "https://example.com/sony-xm5.jpg",
+    ],
+    deliveryDays: 4,
+    category: "headphones",
+    specs: { noiseCancelling: true, batteryLife: 30, microphones: 8, maxDevices: 2, connectivity: "Bluetooth 5.2", weight: 250, port: "USB-C", chargingPower: 15, platforms: "iOS, Android, macOS, Windows, Linux" },
+    reviews: [
       {
         rating: 5,
         comment: "Best noise cancelling I've ever experienced. Perfect for flights and open offices.",
@@ -568,7 +538,23 @@ export const mockData: {
         date: "2024-10-20",
       },
     ],
-    HP002: [
+  },
+  {
+    id: "HP002",
+    title: "Apple AirPods Pro (2nd Gen) - Active Noise Cancellation",
+    brand: "Apple",
+    price: 249,
+    rating: 4.7,
+    numRatings: 89234,
+    description:
+      "Apple's premium true wireless earbuds with H2 chip for breakthrough audio. Adaptive Transparency, Personalized Spatial Audio with dynamic head tracking. Up to 6 hours of listening time. MagSafe charging case with precision finding.",
+    images: [
+      "https://example.com/airpods-pro.jpg",
+    ],
+    deliveryDays: 2,
+    category: "earbuds",
+    specs: { noiseCancelling: true, batteryLife: 6, connectivity: "Bluetooth 5.3", weight: 5.3, port: "Lightning", chargingPower: 12, platforms: "iOS, iPadOS, macOS", limitedPlatforms: "Android, Windows" },
+    reviews: [
       {
         rating: 5,
         comment: "Seamless with my Apple devices. The spatial audio is mind-blowing for movies.",
@@ -585,7 +571,23 @@ export const mockData: {
         date: "2024-10-25",
       },
     ],
-    HP003: [
+  },
+  {
+    id: "HP003",
+    title: "Bose QuietComfort Ultra Headphones - Spatial Audio",
+    brand: "Bose",
+    price: 429,
+    rating: 4.6,
+    numRatings: 5432,
+    description:
+      "Bose's flagship headphones with world-class noise cancellation and Immersive Audio. CustomTune technology adapts sound to your ears. 24 hours of battery. Premium materials and exceptional comfort for all-day wear.",
+    images: [
+      "https://example.com/bose-qc-ultra.jpg",
+    ],
+    deliveryDays: 5,
+    category: "headphones",
+    specs: { noiseCancelling: true, batteryLife: 24, connectivity: "Bluetooth 5.3", weight: 250, port: "USB-C", chargingPower: 10, platforms: "iOS, Android, macOS, Windows, Linux" },
+    reviews: [
       {
         rating: 5,
         comment: "The comfort is unmatched. I can wear these all day without any fatigue.",
@@ -602,8 +604,25 @@ export const mockData: {
         date: "2024-10-15",
       },
     ],
-    
-    LA001: [
+  },
+
+  // Laptop Accessories
+  {
+    id: "LA001",
+    title: "Logitech MX Master 3S - Wireless Performance Mouse",
+    brand: "Logitech",
+    price: 99.99,
+    rating: 4.8,
+    numRatings: 34521,
+    description:
+      "Advanced wireless mouse with MagSpeed electromagnetic scrolling. 8K DPI optical sensor tracks on any surface including glass. Quiet clicks, ergonomic design. Connect up to 3 devices with Easy-Switch. USB-C quick charging.",
+    images: [
+      "https://example.com/mx-master-3s.jpg",
+    ],
+    deliveryDays: 1,
+    category: "mice",
+    specs: { dpi: 8000, maxDevices: 3, connectivity: "Bluetooth, Logi Bolt", weight: 141, port: "USB-C", chargingPower: 5, platforms: "macOS, Windows, Linux, iPadOS, ChromeOS" },
+    reviews: [
       {
         rating: 5,
         comment: "Best mouse I've ever used. The scroll wheel is addictive and the ergonomics are perfect.",
@@ -620,7 +639,23 @@ export const mockData: {
         date: "2024-10-28",
       },
     ],
-    LA002: [
+  },
+  {
+    id: "LA002",
+    title: "Keychron K3 Pro - 75% Low Profile Mechanical Keyboard",
+    brand: "Keychron",
+    price: 109,
+    rating: 4.7,
+    numRatings: 8934,
+    description:
+      "Ultra-slim wireless mechanical keyboard with hot-swappable low-profile Gateron switches. QMK/VIA support for full customization. RGB backlight, Mac and Windows compatible. Bluetooth 5.1 connects up to 3 devices. Aluminum frame.",
+    images: [
+      "https://example.com/keychron-k3-pro.jpg",
+    ],
+    deliveryDays: 3,
+    category: "keyboards",
+    specs: { switches: "Gateron low-profile (hot-swap)", layout: "75%", maxDevices: 3, connectivity: "Bluetooth 5.1, USB-C", port: "USB-C", chargingPower: 5, platforms: "macOS, Windows", limitedPlatforms: "Linux" },
+    reviews: [
       {
         rating: 5,
         comment: "Perfect for travel. Low profile feels great and the build quality is premium.",
@@ -638,4 +673,236 @@ export const mockData: {
       },
     ],
   },
+]
+
+/**
+ * Mock data for the ecommerce concierge.
+ * Comprehensive product catalog with multiple categories; the product lookup
+ * tables are derived from the active catalog.
+ */
+export const mockData: CatalogIndexes & {
+  productVariants: Record<string, ProductVariant[]>
+  inventory: Record<string, number>
+  categories: Category[]
+  storeOrderHistory: string[][]
+  promotions: Promotion[]
+  giftCards: Record<string, number>
+  storeCredit: Record<string, number>
+} = {
+  ...indexCatalog(seedCatalog),
+
+  // Sellable variants per product; stock here seeds the per-SKU inventory
+  productVariants: {
+    // Hiking Boots - US men's sizes
+    HB001: [
+      { sku: "HB001-08", attributes: { size: "8" }, priceDelta: 0, stock: 2 },
+      { sku: "HB001-09", attributes: { size: "9" }, priceDelta: 0, stock: 4 },
+      { sku: "HB001-10", attributes: { size: "10" }, priceDelta: 0, stock: 5 },
+      { sku: "HB001-11", attributes: { size: "11" }, priceDelta: 0, stock: 3 },
+      { sku: "HB001-12", attributes: { size: "12" }, priceDelta: 0, stock: 0 },
+    ],
+    HB002: [
+      { sku: "HB002-08-EAR", attributes: { size: "8", color: "Earth" }, priceDelta: 0, stock: 3 },
+      { sku: "HB002-09-EAR", attributes: { size: "9", color: "Earth" }, priceDelta: 0, stock: 4 },
+      { sku: "HB002-10-EAR", attributes: { size: "10", color: "Earth" }, priceDelta: 0, stock: 4 },
+      { sku: "HB002-11-EAR", attributes: { size: "11", color: "Earth" }, priceDelta: 0, stock: 2 },
+      { sku: "HB002-08-BLK", attributes: { size: "8", color: "Black Night" }, priceDelta: 5, stock: 2 },
+      { sku: "HB002-09-BLK", attributes: { size: "9", color: "Black Night" }, priceDelta: 5, stock: 3 },
+      { sku: "HB002-10-BLK", attributes: { size: "10", color: "Black Night" }, priceDelta: 5, stock: 5 },
+      { sku: "HB002-11-BLK", attributes: { size: "11", color: "Black Night" }, priceDelta: 5, stock: 2 },
+    ],
+    HB003: [
+      { sku: "HB003-09", attributes: { size: "9" }, priceDelta: 0, stock: 1 },
+      { sku: "HB003-10", attributes: { size: "10" }, priceDelta: 0, stock: 1 },
+      { sku: "HB003-11", attributes: { size: "11" }, priceDelta: 0, stock: 1 },
+    ],
+    HB004: [
+      { sku: "HB004-08-CAM", attributes: { size: "8", color: "Camel Brown" }, priceDelta: 0, stock: 6 },
+      { sku: "HB004-09-CAM", attributes: { size: "9", color: "Camel Brown" }, priceDelta: 0, stock: 8 },
+      { sku: "HB004-10-CAM", attributes: { size: "10", color: "Camel Brown" }, priceDelta: 0, stock: 8 },
+      { sku: "HB004-11-CAM", attributes: { size: "11", color: "Camel Brown" }, priceDelta: 0, stock: 4 },
+      { sku: "HB004-08-BLK", attributes: { size: "8", color: "Black" }, priceDelta: 0, stock: 3 },
+      { sku: "HB004-09-BLK", attributes: { size: "9", color: "Black" }, priceDelta: 0, stock: 4 },
+      { sku: "HB004-10-BLK", attributes: { size: "10", color: "Black" }, priceDelta: 0, stock: 5 },
+      { sku: "HB004-11-BLK", attributes: { size: "11", color: "Black" }, priceDelta: 0, stock: 2 },
+    ],
+    
+    // USB Cables - cable length
+    USB001: [
+      { sku: "USB001-1M", attributes: { length: "1m" }, priceDelta: -2.00, stock: 120 },
+      { sku: "USB001-2M", attributes: { length: "2m" }, priceDelta: 0, stock: 150 },
+      { sku: "USB001-3M", attributes: { length: "3m" }, priceDelta: 3.00, stock: 30 },
+    ],
+    USB002: [
+      { sku: "USB002-1M", attributes: { length: "1m" }, priceDelta: -10.00, stock: 25 },
+      { sku: "USB002-2M", attributes: { length: "2m" }, priceDelta: 0, stock: 35 },
+    ],
+    USB003: [
+      { sku: "USB003-1M", attributes: { length: "1m" }, priceDelta: -1.00, stock: 200 },
+      { sku: "USB003-2M", attributes: { length: "2m" }, priceDelta: 0, stock: 300 },
+    ],
+    USB004: [
+      { sku: "USB004-1M", attributes: { length: "1m" }, priceDelta: -2.00, stock: 100 },
+      { sku: "USB004-2M", attributes: { length: "2m" }, priceDelta: 0, stock: 100 },
+      { sku: "USB004-3M", attributes: { length: "3m" }, priceDelta: 2.50, stock: 50 },
+    ],
+    USB005: [
+      { sku: "USB005-1M", attributes: { length: "1m" }, priceDelta: -4.00, stock: 5 },
+      { sku: "USB005-2M", attributes: { length: "2m" }, priceDelta: 0, stock: 3 },
+    ],
+  },
+  
+  // Units on hand for products without variants when the store is first opened
+  // (later counts live in storage)
+  inventory: {
+    B08N5WRWNW: 120,
+    HP001: 12,
+    HP002: 45,
+    HP003: 0,
+    LA001: 30,
+    LA002: 4,
+  },
+
+  // Category tree; catalog products are attached to its leaf categories
+  categories: [
+    { id: "electronics", name: "Electronics" },
+    { id: "audio", name: "Audio", parentId: "electronics" },
+    { id: "headphones", name: "Headphones", parentId: "audio" },
+    { id: "earbuds", name: "Earbuds", parentId: "audio" },
+    { id: "smart-home", name: "Smart Home", parentId: "electronics" },
+    { id: "smart-speakers", name: "Smart Speakers", parentId: "smart-home" },
+    { id: "computer-accessories", name: "Computer Accessories", parentId: "electronics" },
+    { id: "mice", name: "Mice", parentId: "computer-accessories" },
+    { id: "keyboards", name: "Keyboards", parentId: "computer-accessories" },
+    { id: "cables", name: "Cables & Chargers", parentId: "computer-accessories" },
+    { id: "outdoor", name: "Outdoor" },
+    { id: "footwear", name: "Footwear", parentId: "outdoor" },
+    { id: "hiking-boots", name: "Hiking Boots", parentId: "footwear" },
+    { id: "mountaineering-boots", name: "Mountaineering Boots", parentId: "footwear" },
+  ],
+
+  // Product IDs of past orders placed before the store kept per-shopper
+  // history; co-purchase suggestions learn from these plus every stored order
+  storeOrderHistory: [
+    ["LA001", "LA002"],
+    ["LA001", "LA002"],
+    ["LA001", "LA002", "USB001"],
+    ["LA002", "LA001"],
+    ["LA001", "USB004"],
+    ["HP002", "USB002"],
+    ["HP002", "USB002"],
+    ["HP002", "USB002", "B08N5WRWNW"],
+    ["HP001", "USB004"],
+    ["HP001", "USB004"],
+    ["HP003", "USB005"],
+    ["HP003", "USB005"],
+    ["B08N5WRWNW", "HP002"],
+    ["USB001", "USB004"],
+    ["USB001", "USB004", "USB003"],
+    ["HB002", "HB004"],
+    ["HB001", "HB003"],
+  ],
+
+  // Sales (no code) apply to every cart while running; coupons need their code
+  promotions: [
+    {
+      id: "fall-hiking-sale",
+      description: "Fall Hiking Sale: 15% off footwear",
+      discount: { type: "percent", percent: 15 },
+      categoryId: "footwear",
+      startsAt: "2026-09-01",
+      expiresAt: "2027-03-31",
+    },
+    {
+      id: "save10",
+      code: "SAVE10",
+      description: "10% off orders of $50 or more",
+      discount: { type: "percent", percent: 10 },
+      minSpend: 50,
+      expiresAt: "2027-12-31",
+      stackable: true,
+    },
+    {
+      id: "welcome15",
+      code: "WELCOME15",
+      description: "$15 off your order of $100 or more",
+      discount: { type: "fixed", amount: 15 },
+      minSpend: 100,
+      expiresAt: "2027-12-31",
+    },
+    {
+      id: "cables-3-for-2",
+      code: "CABLES3FOR2",
+      description: "Buy 2 cables, get the cheapest third free",
+      discount: { type: "buy_x_get_y", buy: 2, get: 1 },
+      categoryId: "cables",
+      stackable: true,
+    },
+    {
+      id: "audio25",
+      code: "AUDIO25",
+      description: "$25 off audio of $150 or more",
+      discount: { type: "fixed", amount: 25 },
+      categoryId: "audio",
+      minSpend: 150,
+      expiresAt: "2027-06-30",
+      stackable: true,
+    },
+    {
+      id: "summer25",
+      code: "SUMMER25",
+      description: "Summer Sale: 25% off everything",
+      discount: { type: "percent", percent: 25 },
+      startsAt: "2026-06-01",
+      expiresAt: "2026-08-31",
+    },
+  ],
+
+  // Gift cards the store has issued and their starting balances
+  giftCards: {
+    "GIFT-ALPHA-50": 50,
+    "GIFT-BRAVO-100": 100,
+    "GIFT-CHARLIE-10": 10,
+  },
+
+  // Starting store credit per shopper
+  storeCredit: {
+    default: 25,
+  },
+}
+
+// ============================================================================
+// CATALOG INDEXES
+// ============================================================================
+
+/**
+ * Build the search index and lookup tables from a list of catalog products
+ */
+export function indexCatalog(products: CatalogProduct[]): CatalogIndexes {
+  const indexes: CatalogIndexes = {
+    searchResults: [],
+    productDetails: {},
+    productReviews: {},
+    productCategories: {},
+  }
+
+  for (const product of products) {
+    const { reviews, category, ...details } = product
+    indexes.searchResults.push({
+      id: product.id,
+      title: product.title,
+      brand: product.brand,
+      price: product.price,
+      rating: product.rating,
+      numRatings: product.numRatings,
+      deliveryDays: product.deliveryDays,
+    })
+    indexes.productDetails[product.id] = details
+    indexes.productReviews[product.id] = reviews
+    if (category) {
+      indexes.productCategories[product.id] = category
+    }
+  }
+
+  return indexes
 }
@@ -0,0 +1,58 @@
+/**
+ * Delivery Dates for E-Commerce Concierge
+ * Products carry a delivery time in business days; these helpers turn it
+ * into a calendar date (YYYY-MM-DD, UTC) for an order placed now.
+ */
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function isWeekend(date: Date): boolean {
+  const weekday = date.getUTCDay()
+  return weekday === 0 || weekday === 6
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in UTC
+ */
+export function today(now: Date = new Date()): string {
+  return now.toISOString().split('T')[0]
+}
+
+// ============================================================================
+// BUSINESS DAYS
+// ============================================================================
+
+/**
+ * The date (YYYY-MM-DD, UTC) `days` business days after `from`, skipping weekends
+ */
+export function addBusinessDays(from: string, days: number): string {
+  const date = new Date(`${from}T00:00:00Z`)
+  while (days > 0) {
+    date.setUTCDate(date.getUTCDate() + 1)
+    if (!isWeekend(date)) days--
+  }
+  return today(date)
+}
+
+/**
+ * Business days from `from` until `date` (0 if it's on or before `from`)
+ */
+export function businessDaysBetween(from: string, date: string): number {
+  const cursor = new Date(`${from}T00:00:00Z`)
+  const target = new Date(`${date}T00:00:00Z`)
+  let days = 0
+  while (cursor < target) {
+    cursor.setUTCDate(cursor.getUTCDate() + 1)
+    if (!isWeekend(cursor)) days++
+  }
+  return days
+}
+
+/**
+ * When a product ordered now arrives, from its delivery time in business days
+ */
+export function productDeliveryDate(deliveryDays: number, now: Date = new Date()): string {
+  return addBusinessDays(today(now), deliveryDays)
+}
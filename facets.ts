@@ -0,0 +1,198 @@
+/**
+ * Search Facets for E-Commerce Concierge
+ * Counts of search results by brand, category, price band, rating and
+ * delivery window, plus the filters that select each bucket.
+ */
+
+import { CategoryFacet, categoryFacets, findCategory, isInCategory } from "./categories"
+import type { FilterOptions, SearchResult } from "./tools"
+import { productDeliveryDate } from "./delivery"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type FacetName = 'brand' | 'category' | 'price' | 'rating' | 'delivery'
+
+/**
+ * One value of a facet, how many results have it and the filter that
+ * narrows the search down to it
+ */
+export type FacetBucket = {
+  label: string
+  count: number
+  filter: FilterOptions
+}
+
+export type SearchFacets = {
+  brand: FacetBucket[]
+  category: CategoryFacet[]
+  price: FacetBucket[]
+  rating: FacetBucket[]
+  delivery: FacetBucket[]
+}
+
+type Predicate = (result: SearchResult) => boolean
+
+// ============================================================================
+// BUCKET DEFINITIONS
+// ============================================================================
+
+/**
+ * Price bands; each band's upper bound is exclusive
+ */
+const PRICE_BUCKETS: Array<{ label: string; min: number; max?: number }> = [
+  { label: 'Under $25', min: 0, max: 25 },
+  { label: '$25 - $100', min: 25, max: 100 },
+  { label: '$100 - $200', min: 100, max: 200 },
+  { label: '$200 & above', min: 200 },
+]
+
+/**
+ * Minimum ratings offered as "& up" buckets (so they overlap)
+ */
+const RATING_THRESHOLDS = [4.5, 4, 3]
+
+/**
+ * Delivery windows offered as "within N days" buckets (so they overlap)
+ */
+const DELIVERY_WINDOWS: Array<{ label: string; days: number }> = [
+  { label: 'By tomorrow', days: 1 },
+  { label: 'Within 3 days', days: 3 },
+  { label: 'Within a week', days: 7 },
+]
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Whole days from today until a delivery date (YYYY-MM-DD), both in UTC
+ * (0 if it's today or past)
+ */
+export function daysUntil(date: string, now: Date = new Date()): number {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const target = Date.parse(`${date}T00:00:00Z`)
+  return Math.max(0, Math.ceil((target - today) / (24 * 60 * 60 * 1000)))
+}
+
+/**
+ * Calendar days until a product ordered now arrives
+ */
+function daysToDeliver(result: SearchResult, now: Date = new Date()): number {
+  return daysUntil(productDeliveryDate(result.deliveryDays, now), now)
+}
+
+function asList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return []
+  return (Array.isArray(value) ? value : [value]).map(v => v.toLowerCase())
+}
+
+// ============================================================================
+// FILTERING
+// ============================================================================
+
+/**
+ * The active filters as one predicate per facet, so each facet can be
+ * counted with every filter except its own applied
+ */
+export function facetPredicates(filters: FilterOptions = {}): Partial<Record<FacetName, Predicate>> {
+  const predicates: Partial<Record<FacetName, Predicate>> = {}
+
+  const brands = asList(filters.brand)
+  if (brands.length > 0) {
+    predicates.brand = r => !!r.brand && brands.includes(r.brand.toLowerCase())
+  }
+
+  if (filters.category) {
+    const category = findCategory(filters.category)
+    predicates.category = r => !!category && isInCategory(r.id, category.id)
+  }
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    predicates.price = r =>
+      (filters.minPrice === undefined || r.price >= filters.minPrice) &&
+      (filters.maxPrice === undefined || r.price <= filters.maxPrice)
+  }
+
+  if (filters.minRating !== undefined) {
+    predicates.rating = r => r.rating >= filters.minRating!
+  }
+
+  if (filters.deliveryWithinDays !== undefined) {
+    predicates.delivery = r => daysToDeliver(r) <= filters.deliveryWithinDays!
+  }
+
+  return predicates
+}
+
+/**
+ * Keep the results that pass every predicate, optionally ignoring one facet
+ */
+export function applyPredicates(
+  results: SearchResult[],
+  predicates: Partial<Record<FacetName, Predicate>>,
+  except?: FacetName
+): SearchResult[] {
+  const active = (Object.entries(predicates) as Array<[FacetName, Predicate]>)
+    .filter(([name]) => name !== except)
+    .map(([, predicate]) => predicate)
+  return results.filter(r => active.every(predicate => predicate(r)))
+}
+
+// ============================================================================
+// COUNTING
+// ============================================================================
+
+/**
+ * Count the matched results per facet bucket. Each facet ignores its own
+ * filter, so picking "Anker" still shows how many cables the other brands have.
+ */
+export function buildFacets(matched: SearchResult[], filters: FilterOptions = {}): SearchFacets {
+  const predicates = facetPredicates(filters)
+  const scope = (facet: FacetName) => applyPredicates(matched, predicates, facet)
+
+  const brandCounts = new Map<string, number>()
+  for (const r of scope('brand')) {
+    if (r.brand) brandCounts.set(r.brand, (brandCounts.get(r.brand) ?? 0) + 1)
+  }
+  const brand = Array.from(brandCounts, ([label, count]) => ({ label, count, filter: { brand: label } }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+
+  const inPriceScope = scope('price')
+  const price = PRICE_BUCKETS
+    .map(bucket => ({
+      label: bucket.label,
+      count: inPriceScope.filter(r => r.price >= bucket.min && (bucket.max === undefined || r.price < bucket.max)).length,
+      filter: bucket.max === undefined
+        ? { minPrice: bucket.min }
+        : { minPrice: bucket.min, maxPrice: Math.round((bucket.max - 0.01) * 100) / 100 },
+    }))
+    .filter(bucket => bucket.count > 0)
+
+  const inRatingScope = scope('rating')
+  const rating = RATING_THRESHOLDS
+    .map(threshold => ({
+      label: `${threshold}★ & up`,
+      count: inRatingScope.filter(r => r.rating >= threshold).length,
+      filter: { minRating: threshold },
+    }))
+    .filter(bucket => bucket.count > 0)
+
+  const inDeliveryScope = scope('delivery')
+  const delivery = DELIVERY_WINDOWS
+    .map(window => ({
+      label: window.label,
+      count: inDeliveryScope.filter(r => daysToDeliver(r) <= window.days).length,
+      filter: { deliveryWithinDays: window.days },
+    }))
+    .filter(bucket => bucket.count > 0)
+
+  return {
+    brand,
+    category: categoryFacets(scope('category').map(r => r.id)),
+    price,
+    rating,
+    delivery,
+  }
+}
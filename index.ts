@@ -114,6 +114,11 @@ if (!isDebugMode) {
 
 import * as readline from "readline"
 import * as ui from "./ui"
+import { closeStorage, DEFAULT_USER_ID } from "./storage"
+import { SessionManager } from "./session"
+import { loadCatalogFromEnv, formatIssue, ImportIssue } from "./catalog"
+import { loadSynonyms } from "./synonyms"
+import { completions } from "./search"
 
 // Dynamic import for ShoppingAgent to ensure filtering is active first
 async function loadAgent() {
@@ -128,6 +133,7 @@ async function loadAgent() {
 const CONFIG = {
   maxRetries: 3,
   retryDelay: 1000,
+  maxCatalogIssuesShown: 5,
 }
 
 // ============================================================================
@@ -137,22 +143,29 @@ const CONFIG = {
 class ShoppingConcierge {
   private rl: readline.Interface
   private agent: Awaited<ReturnType<typeof loadAgent>> | null = null
+  private sessions = new SessionManager()
+  private currentUserId: string = process.env.CONCIERGE_USER || DEFAULT_USER_ID
   private isProcessing: boolean = false
+  private catalogIssues: ImportIssue[] = []
+  private synonymError: string | undefined
 
   constructor() {
     this.rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
       prompt: `\n${ui.colors.brightCyan}❯${ui.colors.reset} `,
+      completer: (line: string) => this.complete(line),
     })
 
     this.setupEventHandlers()
   }
 
   /**
-   * Initialize the agent
+   * Load the catalog and synonyms, then initialize the agent
    */
   async init(): Promise<void> {
+    this.catalogIssues = (await loadCatalogFromEnv()) ?? []
+    this.synonymError = (await loadSynonyms()).error
     this.agent = await loadAgent()
   }
 
@@ -162,9 +175,30 @@ class ShoppingConcierge {
   async start(): Promise<void> {
     this.clearScreen()
     console.log(ui.welcomeBanner())
+    this.showCatalogIssues()
+    if (this.synonymError) {
+      console.log(ui.messageBox(`Search synonyms not loaded: ${this.synonymError}`, "warning"))
+    }
     this.rl.prompt()
   }
 
+  /**
+   * Warn about rows that were skipped while importing the catalog
+   */
+  private showCatalogIssues(): void {
+    if (this.catalogIssues.length === 0) return
+
+    const shown = this.catalogIssues.slice(0, CONFIG.maxCatalogIssuesShown).map(formatIssue)
+    const hidden = this.catalogIssues.length - shown.length
+    if (hidden > 0) {
+      shown.push(`...and ${hidden} more (run npm run catalog:check for the full list)`)
+    }
+    console.log(ui.messageBox(
+      `Skipped ${this.catalogIssues.length} catalog row(s):\n${shown.join('\n')}`,
+      "warning"
+    ))
+  }
+
   /**
    * Set up readline event handlers
    */
@@ -188,6 +222,21 @@ class ShoppingConcierge {
     })
   }
 
+  /**
+   * Tab completion: complete the longest trailing run of words that starts a
+   * product title, brand or category name ("show me so" -> "Sony ...")
+   */
+  private complete(line: string): [string[], string] {
+    const words = line.split(' ')
+    for (let i = 0; i < words.length; i++) {
+      const fragment = words.slice(i).join(' ')
+      if (!fragment.trim()) continue
+      const matches = completions(fragment)
+      if (matches.length > 0) return [matches, fragment]
+    }
+    return [[], line]
+  }
+
   /**
    * Handle user input
    */
@@ -214,6 +263,15 @@ class ShoppingConcierge {
       return
     }
 
+    // Handle switching shopper ("user alice")
+    const userMatch = trimmed.match(/^(?:user|switch user)\s+(\S+)$/i)
+    if (userMatch) {
+      this.currentUserId = userMatch[1]
+      console.log(ui.messageBox(`${ui.icons.user} Now shopping as **${this.currentUserId}**`, "success"))
+      this.rl.prompt()
+      return
+    }
+
     // Process the request
     await this.processRequest(trimmed)
     this.rl.prompt()
@@ -241,7 +299,8 @@ class ShoppingConcierge {
 
     while (attempts < CONFIG.maxRetries) {
       try {
-        const response = await this.agent.run(request)
+        const session = await this.sessions.get(this.currentUserId)
+        const response = await this.agent.run(session, request)
         console.log(response)
         this.isProcessing = false
         return
@@ -294,7 +353,11 @@ class ShoppingConcierge {
     console.log("")
     
     this.rl.close()
-    process.exit(0)
+
+    // Release the storage backend before exiting so nothing is left half-open
+    closeStorage()
+      .catch((error) => console.error(ui.messageBox(`Failed to close storage: ${error.message}`, "error")))
+      .finally(() => process.exit(0))
   }
 
   /**
@@ -0,0 +1,317 @@
+/**
+ * Inventory & Stock Tracking for E-Commerce Concierge
+ * Shared per-SKU stock counts with soft reservations for items sitting in carts.
+ * Products without variants use their product ID as the SKU.
+ */
+
+import { mockData } from "./data"
+import { getStorage } from "./storage"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type StockStatus = 'in_stock' | 'low_stock' | 'out_of_stock'
+
+/**
+ * Stock information attached to products shown to a shopper
+ */
+export type Availability = {
+  availableStock: number
+  stockStatus: StockStatus
+}
+
+/**
+ * Units held for a shopper while the item sits in their cart
+ */
+export type Reservation = {
+  userId: string
+  sku: string
+  quantity: number
+  expiresAt: string // ISO timestamp
+}
+
+export type InventoryState = {
+  stock: Record<string, number> // Units on hand per SKU
+  reservations: Reservation[]
+}
+
+export type StockLine = {
+  sku: string
+  quantity: number
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * At or below this many available units a product is shown as "only N left"
+ */
+export const LOW_STOCK_THRESHOLD = 5
+
+/**
+ * How long a cart reservation holds stock before it lapses
+ */
+export const RESERVATION_TTL_MINUTES = Number(process.env.CONCIERGE_RESERVATION_MINUTES) || 15
+
+// ============================================================================
+// STATE ACCESS
+// ============================================================================
+
+// Serializes read-modify-write cycles so concurrent sessions can't oversell
+let inventoryLock: Promise<unknown> = Promise.resolve()
+
+/**
+ * Load inventory from storage, seeding it from the catalog on first use
+ * and dropping reservations that have expired
+ */
+async function loadInventory(): Promise<InventoryState> {
+  const state = (await getStorage().loadShared('inventory')) ?? {
+    stock: {},
+    reservations: [],
+  }
+
+  // SKUs added to the catalog later start with their default count
+  for (const [sku, count] of Object.entries(initialStock())) {
+    if (state.stock[sku] === undefined) {
+      state.stock[sku] = count
+    }
+  }
+
+  const now = Date.now()
+  state.reservations = state.reservations.filter(r => Date.parse(r.expiresAt) > now)
+
+  return state
+}
+
+/**
+ * Run a change against the inventory and persist it, one change at a time
+ */
+function updateInventory<T>(change: (state: InventoryState) => T): Promise<T> {
+  const run = inventoryLock.then(async () => {
+    const state = await loadInventory()
+    const result = change(state)
+    await getStorage().saveShared('inventory', state)
+    return result
+  })
+  inventoryLock = run.catch(() => undefined)
+  return run
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Starting stock per SKU: variant stock for products with variants,
+ * the product-level count for everything else
+ */
+function initialStock(): Record<string, number> {
+  const stock: Record<string, number> = { ...mockData.inventory }
+  for (const variants of Object.values(mockData.productVariants)) {
+    for (const variant of variants) {
+      stock[variant.sku] = variant.stock
+    }
+  }
+  return stock
+}
+
+/**
+ * SKUs that make up a product's stock
+ */
+export function productSkus(productId: string): string[] {
+  const variants = mockData.productVariants[productId]
+  return variants ? variants.map(v => v.sku) : [productId]
+}
+
+/**
+ * Human-readable name of a SKU for messages, e.g. "Salomon Quest 4 GTX (size 10)"
+ */
+function describeSku(sku: string): string {
+  for (const [productId, variants] of Object.entries(mockData.productVariants)) {
+    const variant = variants.find(v => v.sku === sku)
+    if (variant) {
+      const title = mockData.productDetails[productId]?.title || productId
+      const attributes = Object.entries(variant.attributes).map(([name, value]) => `${name} ${value}`)
+      return `${title} (${attributes.join(', ')})`
+    }
+  }
+  return mockData.productDetails[sku]?.title || sku
+}
+
+/**
+ * Units of a SKU not held by anyone except (optionally) the given user
+ */
+function availableFor(state: InventoryState, sku: string, userId?: string): number {
+  const onHand = state.stock[sku] ?? 0
+  const heldByOthers = state.reservations
+    .filter(r => r.sku === sku && r.userId !== userId)
+    .reduce((sum, r) => sum + r.quantity, 0)
+  return Math.max(0, onHand - heldByOthers)
+}
+
+/**
+ * Classify an available quantity
+ */
+export function stockStatus(available: number): StockStatus {
+  if (available <= 0) return 'out_of_stock'
+  if (available <= LOW_STOCK_THRESHOLD) return 'low_stock'
+  return 'in_stock'
+}
+
+/**
+ * Check a quantity is a whole number of at least 1, returning it
+ */
+export function requireQuantity(quantity: number): number {
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new Error(`Quantity must be a whole number of at least 1, not ${quantity}`)
+  }
+  return quantity
+}
+
+/**
+ * Build the error shown when a shopper asks for more than is available
+ */
+function shortageError(sku: string, available: number): Error {
+  const title = describeSku(sku)
+  if (available <= 0) {
+    return new Error(`"${title}" is out of stock`)
+  }
+  return new Error(`Only ${available} left of "${title}"`)
+}
+
+// ============================================================================
+// INVENTORY OPERATIONS
+// ============================================================================
+
+/**
+ * Get availability for products as seen by a shopper
+ * (their own reservations count as available to them).
+ * A product with variants is available if any of its variants is.
+ */
+export async function getAvailability(
+  productIds: string[],
+  userId?: string
+): Promise<Record<string, Availability>> {
+  const state = await loadInventory()
+  const availability: Record<string, Availability> = {}
+
+  for (const productId of productIds) {
+    const available = productSkus(productId)
+      .reduce((sum, sku) => sum + availableFor(state, sku, userId), 0)
+    availability[productId] = {
+      availableStock: available,
+      stockStatus: stockStatus(available),
+    }
+  }
+
+  return availability
+}
+
+/**
+ * Get availability for individual SKUs as seen by a shopper
+ */
+export async function getSkuAvailability(
+  skus: string[],
+  userId?: string
+): Promise<Record<string, Availability>> {
+  const state = await loadInventory()
+  const availability: Record<string, Availability> = {}
+
+  for (const sku of skus) {
+    const available = availableFor(state, sku, userId)
+    availability[sku] = {
+      availableStock: available,
+      stockStatus: stockStatus(available),
+    }
+  }
+
+  return availability
+}
+
+/**
+ * Hold `quantity` units of a SKU for a shopper's cart.
+ * Replaces any existing hold and restarts its expiry clock.
+ */
+export async function reserveStock(
+  userId: string,
+  sku: string,
+  quantity: number
+): Promise<Reservation> {
+  requireQuantity(quantity)
+  return updateInventory((state) => {
+    const available = availableFor(state, sku, userId)
+    if (quantity > available) {
+      throw shortageError(sku, available)
+    }
+
+    state.reservations = state.reservations.filter(
+      r => !(r.userId === userId && r.sku === sku)
+    )
+
+    const reservation: Reservation = {
+      userId,
+      sku,
+      quantity,
+      expiresAt: new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000).toISOString(),
+    }
+    state.reservations.push(reservation)
+    return reservation
+  })
+}
+
+/**
+ * Release a shopper's hold on a SKU, or on everything when no SKU is given
+ */
+export async function releaseStock(userId: string, sku?: string): Promise<void> {
+  await updateInventory((state) => {
+    state.reservations = state.reservations.filter(
+      r => !(r.userId === userId && (sku === undefined || r.sku === sku))
+    )
+  })
+}
+
+/**
+ * Permanently take stock for a purchase.
+ * Every line is checked before anything is decremented, so a shortage on
+ * one line leaves the whole inventory untouched.
+ */
+export async function commitStock(userId: string, lines: StockLine[]): Promise<void> {
+  lines.forEach(line => requireQuantity(line.quantity))
+  await updateInventory((state) => {
+    const requested: Record<string, number> = {}
+    for (const line of lines) {
+      requested[line.sku] = (requested[line.sku] ?? 0) + line.quantity
+    }
+
+    for (const [sku, quantity] of Object.entries(requested)) {
+      const available = availableFor(state, sku, userId)
+      if (quantity > available) {
+        throw shortageError(sku, available)
+      }
+    }
+
+    for (const [sku, quantity] of Object.entries(requested)) {
+      state.stock[sku] = (state.stock[sku] ?? 0) - quantity
+
+      // The purchase consumes the shopper's own hold first
+      const reservation = state.reservations.find(r => r.userId === userId && r.sku === sku)
+      if (reservation) {
+        reservation.quantity -= quantity
+      }
+    }
+    state.reservations = state.reservations.filter(r => r.quantity > 0)
+  })
+}
+
+/**
+ * Put units back on sale, e.g. from a cancelled order or a return
+ */
+export async function restock(lines: StockLine[]): Promise<void> {
+  await updateInventory((state) => {
+    for (const line of lines) {
+      state.stock[line.sku] = (state.stock[line.sku] ?? 0) + line.quantity
+    }
+  })
+}
@@ -0,0 +1,430 @@
+/**
+ * Invoices for E-Commerce Concierge
+ * Printable invoices for orders in plain text, self-contained HTML and PDF:
+ * seller, order and invoice numbers, ship-to address, line items, discounts,
+ * shipping, tax, the payment and any refunds. The PDF is written by hand
+ * (Courier text pages) so no PDF library is needed.
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import type { Address, Order } from "./data"
+import { defaultRegion, findRegion, shippingMethodLabel } from "./pricing"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type InvoiceFormat = 'text' | 'html' | 'pdf'
+
+/**
+ * One billed line
+ */
+export type InvoiceLine = {
+  description: string // Title with the variant, e.g. "Trail Boots (size 10)"
+  sku: string
+  quantity: number
+  unitPrice: number
+  amount: number
+}
+
+/**
+ * One row of the totals block; negative amounts are deductions
+ */
+export type InvoiceTotal = {
+  label: string
+  amount: number
+  emphasis?: boolean // Grand total and net paid
+}
+
+/**
+ * Everything printed on an invoice, independent of its format
+ */
+export type InvoiceDocument = {
+  number: string // e.g. "INV-LX2K9-AB12"
+  orderId: string
+  date: string // YYYY-MM-DD the order was placed
+  status: string
+  seller: string[] // Name, then address lines
+  shipTo: string[] // Address lines, or the pickup store
+  delivery: string // e.g. "Standard shipping (2 kg)"
+  lines: InvoiceLine[]
+  totals: InvoiceTotal[]
+  payment?: string // e.g. "Visa ending 4242, captured 2026-10-19"
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const INVOICE_FORMATS: InvoiceFormat[] = ['text', 'html', 'pdf']
+
+const FILE_EXTENSIONS: Record<InvoiceFormat, string> = {
+  text: 'txt',
+  html: 'html',
+  pdf: 'pdf',
+}
+
+/**
+ * Who the invoice is from. The store's region comes from CONCIERGE_REGION.
+ */
+const SELLER_NAME = 'E-Commerce Shopping Concierge'
+
+/**
+ * Width of the plain text invoice, which the PDF reuses, in characters
+ */
+const TEXT_WIDTH = 78
+
+/**
+ * PDF page layout in points: US Letter, Courier at this size fits
+ * TEXT_WIDTH characters between the margins
+ */
+const PDF_PAGE = { width: 612, height: 792, margin: 54, fontSize: 9, lineHeight: 12 }
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function formatMoney(amount: number): string {
+  return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+}
+
+function addressLines(address: Address): string[] {
+  const region = findRegion(address.region)?.name ?? address.region
+  return [address.name, address.line1, address.line2, `${address.city}, ${region} ${address.postalCode}`]
+    .filter((line): line is string => !!line)
+}
+
+/**
+ * Split text into lines of at most `width` characters, breaking at spaces
+ * where possible
+ */
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = []
+  let current = ''
+  for (const word of text.split(/\s+/)) {
+    for (let rest = word; rest.length > 0; rest = rest.slice(width)) {
+      const piece = rest.slice(0, width)
+      if (!current) current = piece
+      else if (current.length + 1 + piece.length <= width) current += ` ${piece}`
+      else {
+        lines.push(current)
+        current = piece
+      }
+    }
+  }
+  return [...lines, current]
+}
+
+/**
+ * Where invoices are written, set with CONCIERGE_INVOICE_DIR
+ */
+export function invoiceDir(): string {
+  return process.env.CONCIERGE_INVOICE_DIR || path.join(process.cwd(), 'invoices')
+}
+
+export function invoiceNumber(order: Order): string {
+  return order.orderId.replace(/^ORD/, 'INV')
+}
+
+// ============================================================================
+// INVOICE
+// ============================================================================
+
+/**
+ * Lay out an order as an invoice. Orders placed before discounts, shipping
+ * or payments were recorded just leave those rows out.
+ */
+export function buildInvoice(order: Order): InvoiceDocument {
+  const lines = order.items.map(item => {
+    const variant = item.variant ? Object.entries(item.variant).map(([name, value]) => `${name} ${value}`).join(', ') : ''
+    return {
+      description: variant ? `${item.title} (${variant})` : item.title,
+      sku: item.sku,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      amount: round(item.price * item.quantity),
+    }
+  })
+
+  const subtotal = order.subtotal ?? round(lines.reduce((sum, line) => sum + line.amount, 0))
+  const totals: InvoiceTotal[] = [{ label: 'Subtotal', amount: subtotal }]
+  for (const discount of order.discounts ?? []) {
+    totals.push({ label: discount.code ? `Coupon ${discount.code}` : discount.description, amount: -discount.amount })
+  }
+  if (order.shipping) {
+    totals.push({ label: order.shipping.free ? 'Shipping (free)' : 'Shipping', amount: order.shipping.cost })
+  }
+  if (order.tax) {
+    totals.push({ label: `${order.tax.name} ${order.tax.rate}% on ${formatMoney(order.tax.taxable)}`, amount: order.tax.amount })
+  }
+  totals.push({ label: 'Total', amount: order.total, emphasis: true })
+
+  const refunds = order.refunds ?? []
+  for (const refund of refunds) {
+    totals.push({ label: `Refund: ${refund.reason} (${refund.refundedAt.split('T')[0]})`, amount: -refund.amount })
+  }
+  if (refunds.length > 0) {
+    const refunded = refunds.reduce((sum, refund) => sum + refund.amount, 0)
+    totals.push({ label: 'Net paid', amount: round((order.payment?.amount ?? order.total) - refunded), emphasis: true })
+  }
+
+  const store = defaultRegion()
+  const method = order.shipping?.method
+  return {
+    number: invoiceNumber(order),
+    orderId: order.orderId,
+    date: order.orderDate,
+    status: order.status.charAt(0).toUpperCase() + order.status.slice(1),
+    seller: [SELLER_NAME, `${store.name} (${store.code})`],
+    shipTo: order.shippingAddress ? addressLines(order.shippingAddress) : [method === 'pickup' ? `Store pickup, ${store.name}` : 'Not recorded'],
+    delivery: method === 'pickup'
+      ? 'Store pickup'
+      : method ? `${shippingMethodLabel(method)} shipping (${order.shipping!.weightKg} kg)` : 'Not recorded',
+    lines,
+    totals,
+    payment: order.payment && `${order.payment.description}, ${formatMoney(order.payment.amount)} captured ${order.payment.capturedAt.split('T')[0]}`,
+  }
+}
+
+// ============================================================================
+// PLAIN TEXT
+// ============================================================================
+
+/**
+ * The invoice as fixed-width plain text, TEXT_WIDTH characters wide
+ */
+export function renderText(invoice: InvoiceDocument): string {
+  const rule = '-'.repeat(TEXT_WIDTH)
+  const field = (label: string, values: string[]) =>
+    values.map((value, i) => `${(i === 0 ? label : '').padEnd(11)}${value}`)
+  const columns = { description: 40, sku: 14, quantity: 5, unitPrice: 9, amount: 10 }
+  const row = (description: string, sku: string, quantity: string, unitPrice: string, amount: string) =>
+    description.padEnd(columns.description) + sku.padEnd(columns.sku) + quantity.padStart(columns.quantity) +
+    unitPrice.padStart(columns.unitPrice) + amount.padStart(columns.amount)
+
+  const lines = [
+    invoice.seller[0].toUpperCase().padEnd(TEXT_WIDTH - 7) + 'INVOICE',
+    ...invoice.seller.slice(1),
+    '',
+    ...field('Invoice:', [invoice.number]),
+    ...field('Order:', [invoice.orderId]),
+    ...field('Date:', [invoice.date]),
+    ...field('Status:', [invoice.status]),
+    '',
+    ...field('Ship to:', invoice.shipTo),
+    ...field('Delivery:', [invoice.delivery]),
+    '',
+    rule,
+    row('Item', 'SKU', 'Qty', 'Price', 'Amount'),
+    rule,
+  ]
+
+  for (const line of invoice.lines) {
+    const [first, ...rest] = wrap(line.description, columns.description - 2)
+    lines.push(row(first, line.sku.slice(0, columns.sku - 1), String(line.quantity), formatMoney(line.unitPrice), formatMoney(line.amount)))
+    for (const more of rest) lines.push(`  ${more}`)
+  }
+  lines.push(rule)
+
+  for (const total of invoice.totals) {
+    const amount = formatMoney(total.amount).padStart(12)
+    const label = total.emphasis ? total.label.toUpperCase() : total.label
+    lines.push(`${label.padStart(TEXT_WIDTH - amount.length)}${amount}`)
+  }
+  if (invoice.payment) {
+    lines.push('', ...field('Paid with:', [invoice.payment]))
+  }
+  lines.push('', 'Thank you for shopping with us.')
+
+  return lines.join('\n') + '\n'
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * The invoice as a self-contained HTML page (inline styles, no external
+ * assets) that prints on one sheet for most orders
+ */
+export function renderHtml(invoice: InvoiceDocument): string {
+  const items = invoice.lines.map(line => `
+        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="sku">${escapeHtml(line.sku)}</td>
+          <td class="num">${line.quantity}</td>
+          <td class="num">${formatMoney(line.unitPrice)}</td>
+          <td class="num">${formatMoney(line.amount)}</td>
+        </tr>`).join('')
+  const totals = invoice.totals.map(total => `
+        <tr${total.emphasis ? ' class="emphasis"' : ''}>
+          <td colspan="4">${escapeHtml(total.label)}</td>
+          <td class="num">${formatMoney(total.amount)}</td>
+        </tr>`).join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #222; max-width: 760px; margin: 40px auto; padding: 0 24px; font-size: 14px; }
+    header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #222; padding-bottom: 12px; }
+    h1 { margin: 0; font-size: 28px; letter-spacing: 2px; }
+    .seller strong { font-size: 16px; }
+    .meta { display: flex; gap: 48px; margin: 24px 0; }
+    .meta dl { margin: 0; display: grid; grid-template-columns: auto auto; gap: 4px 16px; }
+    .meta dt { color: #666; }
+    .meta dd { margin: 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; border-bottom: 1px solid #222; padding: 6px 4px; }
+    td { padding: 6px 4px; border-bottom: 1px solid #ddd; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .sku { color: #666; font-family: Courier, monospace; }
+    tfoot td { border-bottom: none; text-align: right; }
+    tfoot .emphasis td { font-weight: bold; border-top: 1px solid #222; }
+    footer { margin-top: 32px; color: #666; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <header>
+    <div class="seller">
+      <strong>${escapeHtml(invoice.seller[0])}</strong><br>
+      ${invoice.seller.slice(1).map(escapeHtml).join('<br>')}
+    </div>
+    <h1>INVOICE</h1>
+  </header>
+  <section class="meta">
+    <dl>
+      <dt>Invoice</dt><dd>${escapeHtml(invoice.number)}</dd>
+      <dt>Order</dt><dd>${escapeHtml(invoice.orderId)}</dd>
+      <dt>Date</dt><dd>${escapeHtml(invoice.date)}</dd>
+      <dt>Status</dt><dd>${escapeHtml(invoice.status)}</dd>
+    </dl>
+    <dl>
+      <dt>Ship to</dt><dd>${invoice.shipTo.map(escapeHtml).join('<br>')}</dd>
+      <dt>Delivery</dt><dd>${escapeHtml(invoice.delivery)}</dd>
+    </dl>
+  </section>
+  <table>
+    <thead>
+      <tr><th>Item</th><th>SKU</th><th class="num">Qty</th><th class="num">Price</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${items}
+    </tbody>
+    <tfoot>${totals}
+    </tfoot>
+  </table>
+  <footer>
+    ${invoice.payment ? `<p>Paid with ${escapeHtml(invoice.payment)}</p>` : ''}
+    <p>Thank you for shopping with us.</p>
+  </footer>
+</body>
+</html>
+`
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+/**
+ * A PDF string literal. Characters outside Latin-1 (which the standard
+ * fonts can't draw) become "?".
+ */
+function pdfString(text: string): string {
+  const latin1 = text.replace(/[^\x20-\xff]/g, '?')
+  return `(${latin1.replace(/([\\()])/g, '\\$1')})`
+}
+
+/**
+ * The plain text invoice set in Courier on as many pages as it needs,
+ * as a PDF 1.4 file
+ */
+export function renderPdf(invoice: InvoiceDocument): Buffer {
+  const { width, height, margin, fontSize, lineHeight } = PDF_PAGE
+  const text = renderText(invoice).trimEnd().split('\n')
+  const perPage = Math.floor((height - 2 * margin) / lineHeight)
+  const pages: string[][] = []
+  for (let i = 0; i < text.length; i += perPage) pages.push(text.slice(i, i + perPage))
+
+  // Objects 1-3 are the catalog, page tree and font; each page then adds
+  // its page object and content stream
+  const pageIds = pages.map((_, i) => 4 + i * 2)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+  ]
+  pages.forEach((lines, i) => {
+    const content = [
+      'BT',
+      `/F1 ${fontSize} Tf`,
+      `${lineHeight} TL`,
+      `${margin} ${height - margin} Td`,
+      ...lines.map(line => `${pdfString(line)} Tj T*`),
+      'ET',
+    ].join('\n')
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'))
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xref = Buffer.byteLength(pdf, 'latin1')
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info << /Title ${pdfString(`Invoice ${invoice.number}`)} >> >>\n`
+  pdf += `startxref\n${xref}\n%%EOF\n`
+  return Buffer.from(pdf, 'latin1')
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Render an order's invoice in a format
+ */
+export function renderInvoice(order: Order, format: InvoiceFormat): string | Buffer {
+  const invoice = buildInvoice(order)
+  switch (format) {
+    case 'text': return renderText(invoice)
+    case 'html': return renderHtml(invoice)
+    case 'pdf': return renderPdf(invoice)
+  }
+}
+
+/**
+ * Write an order's invoice to the invoice directory, returning the file's
+ * path. Throws for unknown formats.
+ */
+export async function writeInvoice(order: Order, format: InvoiceFormat, dir: string = invoiceDir()): Promise<string> {
+  if (!INVOICE_FORMATS.includes(format)) {
+    throw new Error(`Unknown invoice format "${format}". Choose ${INVOICE_FORMATS.join(', ')}`)
+  }
+  await fs.promises.mkdir(dir, { recursive: true })
+  const file = path.join(dir, `${invoiceNumber(order)}.${FILE_EXTENSIONS[format]}`)
+  await fs.promises.writeFile(file, renderInvoice(order, format))
+  return file
+}
@@ -0,0 +1,308 @@
+/**
+ * Order Lifecycle for E-Commerce Concierge
+ * The states an order moves through, which moves are allowed, a timestamped
+ * history of every move, a simulated fulfillment clock that ships and
+ * delivers confirmed orders as time passes, and the rules for returning
+ * delivered items: reasons, return windows and what each return refunds.
+ */
+
+import type { CartItem, Order, OrderReturn } from "./data"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled' | 'returned'
+
+/**
+ * One move in an order's life
+ */
+export type StatusChange = {
+  status: OrderStatus
+  at: string // ISO timestamp
+  note?: string // e.g. "Left the warehouse"
+}
+
+export type ReturnReason = 'damaged' | 'defective' | 'wrong_item' | 'not_as_described' | 'changed_mind' | 'no_longer_needed'
+
+/**
+ * An order line a shopper wants to send back
+ */
+export type ReturnLineInput = {
+  productId: string
+  sku?: string // Needed when the order has several variants of the product
+  quantity?: number // Defaults to every unit not yet returned
+}
+
+/**
+ * What a return takes back and what it refunds, before anything is done
+ */
+export type ReturnPlan = Pick<OrderReturn, 'items' | 'reason' | 'restocked'> & {
+  amount: number
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Where an order may go from each status. Cancelled and returned are final.
+ */
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: ['returned'],
+  cancelled: [],
+  returned: [],
+}
+
+/**
+ * Time between an order being confirmed and leaving the warehouse
+ */
+const HANDLING_HOURS = 24
+
+/**
+ * Time of day (UTC) parcels arrive on their delivery date
+ */
+const DELIVERY_HOUR_UTC = 14
+
+/**
+ * How many times faster than real time the fulfillment clock runs, set
+ * with CONCIERGE_FULFILLMENT_SPEED (e.g. 1440 turns a day into a minute)
+ */
+export const FULFILLMENT_SPEED = Number(process.env.CONCIERGE_FULFILLMENT_SPEED) || 1
+
+/**
+ * Each return reason, how many days after delivery it can be used, and
+ * whether the units can go back on sale
+ */
+const RETURN_REASONS: Record<ReturnReason, { label: string; windowDays: number; resellable: boolean }> = {
+  damaged: { label: 'Arrived damaged', windowDays: 14, resellable: false },
+  defective: { label: 'Defective', windowDays: 90, resellable: false },
+  wrong_item: { label: 'Wrong item sent', windowDays: 30, resellable: true },
+  not_as_described: { label: 'Not as described', windowDays: 30, resellable: true },
+  changed_mind: { label: 'Changed my mind', windowDays: 30, resellable: true },
+  no_longer_needed: { label: 'No longer needed', windowDays: 30, resellable: true },
+}
+
+export const RETURN_REASON_CODES = Object.keys(RETURN_REASONS) as ReturnReason[]
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+export function canTransition(order: Order, to: OrderStatus): boolean {
+  return TRANSITIONS[order.status].includes(to)
+}
+
+/**
+ * Move an order to a new status and record when. Throws for moves the
+ * lifecycle doesn't allow.
+ */
+export function transition(order: Order, to: OrderStatus, at: Date = new Date(), note?: string): void {
+  if (!canTransition(order, to)) {
+    throw new Error(`Order ${order.orderId} is ${order.status} and can't be ${to}`)
+  }
+  order.status = to
+  order.history.push({ status: to, at: at.toISOString(), ...(note && { note }) })
+}
+
+/**
+ * When the order last entered a status, if it ever did
+ */
+export function enteredAt(order: Order, status: OrderStatus): Date | undefined {
+  const change = [...order.history].reverse().find(c => c.status === status)
+  return change ? new Date(change.at) : undefined
+}
+
+// ============================================================================
+// FULFILLMENT CLOCK
+// ============================================================================
+
+/**
+ * When a confirmed order ships and arrives, in real time. The warehouse
+ * ships after HANDLING_HOURS and the parcel arrives on the estimated
+ * delivery date; a faster clock compresses both.
+ */
+export function fulfillmentSchedule(order: Order): Array<{ status: OrderStatus; at: Date; note: string }> {
+  const confirmed = enteredAt(order, 'confirmed')
+  if (!confirmed) return []
+
+  const pickup = order.shipping?.method === 'pickup'
+  const start = confirmed.getTime()
+  const shipsAt = start + HANDLING_HOURS * HOUR_MS
+  const due = order.estimatedDelivery
+    ? Date.parse(`${order.estimatedDelivery}T${String(DELIVERY_HOUR_UTC).padStart(2, '0')}:00:00Z`)
+    : shipsAt + HANDLING_HOURS * HOUR_MS
+  const arrivesAt = Math.max(due, shipsAt)
+
+  const scaled = (at: number) => new Date(start + (at - start) / FULFILLMENT_SPEED)
+  return [
+    { status: 'shipped', at: scaled(shipsAt), note: pickup ? 'On its way to the store' : 'Left the warehouse' },
+    { status: 'delivered', at: scaled(arrivesAt), note: pickup ? 'Ready for pickup at the store' : 'Delivered' },
+  ]
+}
+
+/**
+ * Apply every fulfillment step that's due by `now`, stamped with the time
+ * it was due. Returns whether the order changed.
+ */
+export function advanceOrder(order: Order, now: Date = new Date()): boolean {
+  let changed = false
+  for (const step of fulfillmentSchedule(order)) {
+    if (step.at > now || !canTransition(order, step.status)) continue
+    transition(order, step.status, step.at, step.note)
+    changed = true
+  }
+  return changed
+}
+
+/**
+ * Bring every order up to date. Returns whether any changed.
+ */
+export function advanceOrders(orders: Order[], now: Date = new Date()): boolean {
+  return orders.map(order => advanceOrder(order, now)).some(Boolean)
+}
+
+/**
+ * When the order's next fulfillment step is due and what it is, or
+ * undefined once it's delivered, cancelled or returned
+ */
+export function nextStep(order: Order): { status: OrderStatus; at: Date } | undefined {
+  const step = fulfillmentSchedule(order).find(s => canTransition(order, s.status))
+  return step && { status: step.status, at: step.at }
+}
+
+// ============================================================================
+// RETURNS
+// ============================================================================
+
+export function returnReasonLabel(reason: ReturnReason): string {
+  return RETURN_REASONS[reason].label
+}
+
+/**
+ * Last moment units of a delivered order can be returned for a reason,
+ * counted from delivery; undefined until the order is delivered
+ */
+export function returnDeadline(order: Order, reason: ReturnReason = 'changed_mind'): Date | undefined {
+  const delivered = enteredAt(order, 'delivered')
+  return delivered && new Date(delivered.getTime() + RETURN_REASONS[reason].windowDays * DAY_MS)
+}
+
+/**
+ * How many units of an order line have already been sent back
+ */
+export function returnedQuantity(order: Order, sku: string): number {
+  return (order.returns ?? [])
+    .flatMap(r => r.items)
+    .filter(item => item.sku === sku)
+    .reduce((sum, item) => sum + item.quantity, 0)
+}
+
+/**
+ * Whether every unit of the order has been sent back
+ */
+export function fullyReturned(order: Order): boolean {
+  return order.items.every(line => returnedQuantity(order, line.sku) >= line.quantity)
+}
+
+/**
+ * What is still refundable on an order: what was paid less what was
+ * already refunded
+ */
+export function refundableAmount(order: Order): number {
+  const paid = order.payment?.amount ?? order.total
+  const refunded = (order.refunds ?? []).reduce((sum, r) => sum + r.amount, 0)
+  return round(Math.max(0, paid - refunded))
+}
+
+/**
+ * What the shopper paid for some units of a line: their share of the
+ * items after discounts plus the tax on it. Shipping isn't refunded.
+ */
+function paidFor(order: Order, line: CartItem, quantity: number): number {
+  const subtotal = order.subtotal ?? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  const discountTotal = (order.discounts ?? []).reduce((sum, d) => sum + d.amount, 0)
+  const share = subtotal > 0 ? line.price * quantity * (subtotal - discountTotal) / subtotal : 0
+  const tax = order.tax ? share * order.tax.rate / 100 : 0
+  return round(share + tax)
+}
+
+/**
+ * Which order line a return means: by SKU when given, otherwise by
+ * product as long as the order has only one variant of it
+ */
+function findReturnLine(order: Order, input: ReturnLineInput): CartItem {
+  if (input.sku) {
+    const line = order.items.find(item => item.sku.toLowerCase() === input.sku!.toLowerCase())
+    if (!line) throw new Error(`Order ${order.orderId} has no item with SKU "${input.sku}"`)
+    return line
+  }
+
+  const lines = order.items.filter(item => item.productId === input.productId)
+  if (lines.length === 0) {
+    throw new Error(`Order ${order.orderId} doesn't include product "${input.productId}"`)
+  }
+  if (lines.length > 1) {
+    throw new Error(`Order ${order.orderId} has several variants of ${lines[0].title}. Say which by SKU: ${lines.map(l => l.sku).join(', ')}`)
+  }
+  return lines[0]
+}
+
+/**
+ * Check a return against the order and work out what it refunds. Only
+ * delivered orders can be returned, within the reason's window, and never
+ * more units than are left. Throws when any of that doesn't hold.
+ */
+export function planReturn(order: Order, lines: ReturnLineInput[], reason: ReturnReason, now: Date = new Date()): ReturnPlan {
+  if (order.status !== 'delivered') {
+    const hint = canTransition(order, 'cancelled') ? ' You can cancel it instead.' : ''
+    throw new Error(`Order ${order.orderId} is ${order.status}. Only delivered orders can be returned.${hint}`)
+  }
+  const rule = RETURN_REASONS[reason]
+  if (!rule) {
+    throw new Error(`Unknown return reason "${reason}". Choose ${RETURN_REASON_CODES.join(', ')}`)
+  }
+  const deadline = returnDeadline(order, reason)!
+  if (now > deadline) {
+    throw new Error(`Returns for "${rule.label}" close ${rule.windowDays} days after delivery; for order ${order.orderId} that was ${deadline.toISOString().split('T')[0]}`)
+  }
+  if (lines.length === 0) {
+    throw new Error('Say which items to return')
+  }
+
+  const requested = new Map<CartItem, number>()
+  for (const input of lines) {
+    const line = findReturnLine(order, input)
+    const left = line.quantity - returnedQuantity(order, line.sku) - (requested.get(line) ?? 0)
+    const quantity = input.quantity ?? left
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > left) {
+      throw new Error(left > 0
+        ? `You can return up to ${left} of ${line.title} from order ${order.orderId}`
+        : `${line.title} from order ${order.orderId} has already been returned`)
+    }
+    requested.set(line, (requested.get(line) ?? 0) + quantity)
+  }
+
+  const items = [...requested].map(([line, quantity]) => ({ sku: line.sku, title: line.title, quantity }))
+  const owed = [...requested].reduce((sum, [line, quantity]) => sum + paidFor(order, line, quantity), 0)
+  return {
+    items,
+    reason,
+    restocked: rule.resellable,
+    amount: Math.min(round(owed), refundableAmount(order)),
+  }
+}
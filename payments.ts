@@ -0,0 +1,432 @@
+/**
+ * Payments for E-Commerce Concierge
+ * Saved payment methods (card tokens, gift cards, store credit) and a local
+ * fake gateway that authorizes, captures, voids and refunds charges against them.
+ * The gateway declines test cards by their last four digits and refuses
+ * charges larger than a gift card's or the store credit's balance.
+ */
+
+import { mockData, PaymentMethod, Wallet } from "./data"
+import { getStorage } from "./storage"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type DeclineReason = 'card_declined' | 'insufficient_funds' | 'expired_card' | 'invalid_amount'
+
+export type AuthorizationStatus = 'authorized' | 'captured' | 'refunded' | 'voided' | 'declined'
+
+/**
+ * What a charge is taken from
+ */
+export type PaymentSource =
+  | { type: 'card'; token: string; last4: string; expiry: string }
+  | { type: 'gift_card'; code: string }
+  | { type: 'store_credit' }
+
+/**
+ * A charge the gateway was asked to approve. Approved amounts are held
+ * until captured (taken) or voided (released); captured amounts can be
+ * refunded in parts until nothing is left.
+ */
+export type Authorization = {
+  id: string
+  userId: string
+  methodId: string
+  source: PaymentSource
+  amount: number
+  status: AuthorizationStatus
+  declineReason?: DeclineReason
+  refunded?: number // Total sent back so far
+  createdAt: string // ISO timestamp
+}
+
+/**
+ * The gateway's ledger, shared by every shopper
+ */
+export type PaymentsState = {
+  giftCards: Record<string, number> // Remaining balance per code
+  storeCredit: Record<string, number> // Balance per user
+  authorizations: Authorization[]
+}
+
+/**
+ * Card details a shopper gives when saving a card
+ */
+export type CardInput = {
+  number: string
+  expiry: string // MM/YY
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Pseudo method ID for paying with store credit, which every shopper with
+ * a balance can use without saving anything
+ */
+export const STORE_CREDIT_METHOD_ID = 'store-credit'
+
+/**
+ * Test cards the fake gateway declines, by their last four digits.
+ * Every other valid card is approved.
+ */
+const DECLINING_CARDS: Record<string, DeclineReason> = {
+  '0002': 'card_declined',
+  '9995': 'insufficient_funds',
+  '0069': 'expired_card',
+}
+
+const DECLINE_MESSAGES: Record<DeclineReason, string> = {
+  card_declined: 'was declined by the bank',
+  insufficient_funds: "doesn't have enough funds",
+  expired_card: 'has expired',
+  invalid_amount: "can't be charged $0 or less",
+}
+
+/**
+ * Card brands by number prefix
+ */
+const CARD_BRANDS: Array<[RegExp, string]> = [
+  [/^4/, 'Visa'],
+  [/^5[1-5]/, 'Mastercard'],
+  [/^3[47]/, 'American Express'],
+  [/^6011/, 'Discover'],
+]
+
+// ============================================================================
+// STATE ACCESS
+// ============================================================================
+
+// Serializes read-modify-write cycles so two orders can't spend one balance
+let paymentsLock: Promise<unknown> = Promise.resolve()
+
+/**
+ * Load the ledger, seeding balances from the store's data on first use
+ */
+async function loadPayments(): Promise<PaymentsState> {
+  const state = (await getStorage().loadShared('payments')) ?? {
+    giftCards: {},
+    storeCredit: {},
+    authorizations: [],
+  }
+
+  // Gift cards and credit issued later start with their full balance
+  for (const [code, balance] of Object.entries(mockData.giftCards)) {
+    if (state.giftCards[code] === undefined) state.giftCards[code] = balance
+  }
+  for (const [userId, balance] of Object.entries(mockData.storeCredit)) {
+    if (state.storeCredit[userId] === undefined) state.storeCredit[userId] = balance
+  }
+  return state
+}
+
+/**
+ * Run a change against the ledger and persist it, one change at a time
+ */
+function updatePayments<T>(change: (state: PaymentsState) => T): Promise<T> {
+  const run = paymentsLock.then(async () => {
+    const state = await loadPayments()
+    const result = change(state)
+    await getStorage().saveShared('payments', state)
+    return result
+  })
+  paymentsLock = run.catch(() => undefined)
+  return run
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`
+}
+
+/**
+ * Luhn checksum, which every real card number passes
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * Whether an MM/YY expiry has passed (cards work to the end of the month)
+ */
+function isExpired(expiry: string, now: Date): boolean {
+  const [month, year] = expiry.split('/').map(Number)
+  return new Date(Date.UTC(2000 + year, month, 1)) <= now
+}
+
+/**
+ * Amount held by open authorizations against a gift card or store credit
+ */
+function held(state: PaymentsState, matches: (authorization: Authorization) => boolean): number {
+  return state.authorizations
+    .filter(a => a.status === 'authorized' && matches(a))
+    .reduce((sum, a) => sum + a.amount, 0)
+}
+
+function availableBalance(state: PaymentsState, userId: string, source: PaymentSource): number | undefined {
+  switch (source.type) {
+    case 'gift_card': {
+      const { code } = source
+      return round((state.giftCards[code] ?? 0) - held(state, a => a.source.type === 'gift_card' && a.source.code === code))
+    }
+    case 'store_credit':
+      return round((state.storeCredit[userId] ?? 0) - held(state, a => a.source.type === 'store_credit' && a.userId === userId))
+    default:
+      return undefined
+  }
+}
+
+function sourceOf(method: PaymentMethod | typeof STORE_CREDIT_METHOD_ID): PaymentSource {
+  if (method === STORE_CREDIT_METHOD_ID) return { type: 'store_credit' }
+  if (method.type === 'card') return { type: 'card', token: method.token, last4: method.last4, expiry: method.expiry }
+  return { type: 'gift_card', code: method.code }
+}
+
+// ============================================================================
+// WALLET
+// ============================================================================
+
+/**
+ * Validate a card and save it as a token, returning it. The first method
+ * saved becomes the default. Throws for invalid numbers and expired cards.
+ */
+export function saveCard(wallet: Wallet, input: CardInput, now: Date = new Date()): PaymentMethod {
+  const digits = input.number.replace(/[\s-]/g, '')
+  if (!/^\d{13,19}$/.test(digits) || !passesLuhn(digits)) {
+    throw new Error("That doesn't look like a valid card number")
+  }
+
+  const expiry = input.expiry.trim().match(/^(\d{1,2})\s*\/\s*(\d{2}|\d{4})$/)
+  const month = expiry ? Number(expiry[1]) : 0
+  if (!expiry || month < 1 || month > 12) {
+    throw new Error('The expiry date should look like MM/YY')
+  }
+  const normalized = `${String(month).padStart(2, '0')}/${expiry[2].slice(-2)}`
+  if (isExpired(normalized, now)) {
+    throw new Error(`That card expired in ${normalized}`)
+  }
+
+  const last4 = digits.slice(-4)
+  const brand = CARD_BRANDS.find(([prefix]) => prefix.test(digits))?.[1] ?? 'Card'
+  if (wallet.methods.some(m => m.type === 'card' && m.brand === brand && m.last4 === last4 && m.expiry === normalized)) {
+    throw new Error(`Your ${brand} ending ${last4} is already saved`)
+  }
+
+  return addMethod(wallet, { id: '', type: 'card', brand, last4, expiry: normalized, token: generateId('tok') })
+}
+
+/**
+ * Save a gift card the store issued, returning it. Throws for unknown codes.
+ */
+export async function saveGiftCard(wallet: Wallet, code: string): Promise<PaymentMethod> {
+  const wanted = code.trim().toUpperCase()
+  const state = await loadPayments()
+  if (state.giftCards[wanted] === undefined) {
+    throw new Error(`"${code}" isn't a valid gift card code`)
+  }
+  if (wallet.methods.some(m => m.type === 'gift_card' && m.code === wanted)) {
+    throw new Error(`Gift card ${wanted} is already saved`)
+  }
+  return addMethod(wallet, { id: '', type: 'gift_card', code: wanted })
+}
+
+function addMethod(wallet: Wallet, method: PaymentMethod): PaymentMethod {
+  const highest = wallet.methods.reduce((max, m) => Math.max(max, Number(m.id.split('-')[1]) || 0), 0)
+  const saved = { ...method, id: `pm-${highest + 1}` }
+  wallet.methods.push(saved)
+  if (!wallet.defaultId) wallet.defaultId = saved.id
+  return saved
+}
+
+/**
+ * The payment method with this ID (or store credit), or the default when no
+ * ID is given. Throws when it doesn't exist or nothing is saved yet.
+ */
+export function requirePaymentMethod(wallet: Wallet, methodId?: string): PaymentMethod | typeof STORE_CREDIT_METHOD_ID {
+  const id = methodId ?? wallet.defaultId
+  if (!id) {
+    throw new Error('You have no saved payment method. Add a card or gift card first, or pay with store credit.')
+  }
+  if (id.toLowerCase() === STORE_CREDIT_METHOD_ID) return STORE_CREDIT_METHOD_ID
+  const method = wallet.methods.find(m => m.id.toLowerCase() === id.toLowerCase())
+  if (!method) {
+    throw new Error(`Payment method "${id}" not found`)
+  }
+  return method
+}
+
+/**
+ * Delete a saved method, making the oldest remaining one the default if it was
+ */
+export function deletePaymentMethod(wallet: Wallet, methodId: string): PaymentMethod {
+  const method = requirePaymentMethod(wallet, methodId)
+  if (method === STORE_CREDIT_METHOD_ID) {
+    throw new Error("Store credit can't be removed")
+  }
+  wallet.methods = wallet.methods.filter(m => m.id !== method.id)
+  if (wallet.defaultId === method.id) {
+    wallet.defaultId = wallet.methods[0]?.id
+  }
+  return method
+}
+
+/**
+ * e.g. "Visa ending 4242", "Gift card GIFT-ALPHA-50", "Store credit"
+ */
+export function describePaymentMethod(method: PaymentMethod | typeof STORE_CREDIT_METHOD_ID): string {
+  if (method === STORE_CREDIT_METHOD_ID) return 'Store credit'
+  return method.type === 'card' ? `${method.brand} ending ${method.last4}` : `Gift card ${method.code}`
+}
+
+/**
+ * What's left to spend on a gift card or the shopper's store credit, after
+ * open holds; undefined for cards
+ */
+export async function balanceOf(userId: string, method: PaymentMethod | typeof STORE_CREDIT_METHOD_ID): Promise<number | undefined> {
+  return availableBalance(await loadPayments(), userId, sourceOf(method))
+}
+
+// ============================================================================
+// GATEWAY
+// ============================================================================
+
+/**
+ * Ask the gateway to approve a charge. Approved charges hold the amount
+ * until captured or voided; declined ones say why. Both are recorded.
+ * Amounts of zero or less are always declined.
+ */
+export function authorize(
+  userId: string,
+  method: PaymentMethod | typeof STORE_CREDIT_METHOD_ID,
+  amount: number,
+  now: Date = new Date()
+): Promise<Authorization> {
+  return updatePayments((state) => {
+    const source = sourceOf(method)
+    const authorization: Authorization = {
+      id: generateId('auth'),
+      userId,
+      methodId: method === STORE_CREDIT_METHOD_ID ? method : method.id,
+      source,
+      amount: round(amount),
+      status: 'authorized',
+      createdAt: now.toISOString(),
+    }
+
+    let declineReason: DeclineReason | undefined
+    if (!(authorization.amount > 0)) {
+      declineReason = 'invalid_amount'
+    } else if (source.type === 'card') {
+      declineReason = DECLINING_CARDS[source.last4] ?? (isExpired(source.expiry, now) ? 'expired_card' : undefined)
+    } else if (authorization.amount > availableBalance(state, userId, source)!) {
+      declineReason = 'insufficient_funds'
+    }
+    if (declineReason) {
+      authorization.status = 'declined'
+      authorization.declineReason = declineReason
+    }
+
+    state.authorizations.push(authorization)
+    return { ...authorization }
+  })
+}
+
+/**
+ * Take the held amount, spending the gift card or store credit balance
+ */
+export function capture(authorizationId: string): Promise<Authorization> {
+  return updatePayments((state) => {
+    const authorization = findAuthorization(state, authorizationId)
+    if (authorization.status !== 'authorized') {
+      throw new Error(`Payment ${authorizationId} can't be captured: it is ${authorization.status}`)
+    }
+
+    const { source } = authorization
+    if (source.type === 'gift_card') {
+      state.giftCards[source.code] = round(state.giftCards[source.code] - authorization.amount)
+    } else if (source.type === 'store_credit') {
+      state.storeCredit[authorization.userId] = round(state.storeCredit[authorization.userId] - authorization.amount)
+    }
+    authorization.status = 'captured'
+    return { ...authorization }
+  })
+}
+
+/**
+ * Release a held amount without taking it
+ */
+export function voidAuthorization(authorizationId: string): Promise<Authorization> {
+  return updatePayments((state) => {
+    const authorization = findAuthorization(state, authorizationId)
+    if (authorization.status !== 'authorized') {
+      throw new Error(`Payment ${authorizationId} can't be voided: it is ${authorization.status}`)
+    }
+    authorization.status = 'voided'
+    return { ...authorization }
+  })
+}
+
+/**
+ * Send some or all of a captured charge back, restoring the gift card or
+ * store credit balance it was taken from. Fully refunded charges become
+ * `refunded`. Throws for more than is left to refund.
+ */
+export function refund(authorizationId: string, amount: number): Promise<Authorization> {
+  return updatePayments((state) => {
+    const authorization = findAuthorization(state, authorizationId)
+    if (authorization.status !== 'captured') {
+      throw new Error(`Payment ${authorizationId} can't be refunded: it is ${authorization.status}`)
+    }
+
+    const value = round(amount)
+    const left = round(authorization.amount - (authorization.refunded ?? 0))
+    if (value <= 0 || value > left) {
+      throw new Error(`Payment ${authorizationId} can't be refunded $${value.toFixed(2)}: $${left.toFixed(2)} is left to refund`)
+    }
+
+    const { source } = authorization
+    if (source.type === 'gift_card') {
+      state.giftCards[source.code] = round(state.giftCards[source.code] + value)
+    } else if (source.type === 'store_credit') {
+      state.storeCredit[authorization.userId] = round(state.storeCredit[authorization.userId] + value)
+    }
+    authorization.refunded = round((authorization.refunded ?? 0) + value)
+    if (authorization.refunded >= authorization.amount) authorization.status = 'refunded'
+    return { ...authorization }
+  })
+}
+
+/**
+ * Why a charge was declined, for the shopper
+ */
+export function declineMessage(authorization: Authorization, method: PaymentMethod | typeof STORE_CREDIT_METHOD_ID): string {
+  const reason = DECLINE_MESSAGES[authorization.declineReason ?? 'card_declined']
+  return `Payment declined: ${describePaymentMethod(method)} ${reason}. Choose another payment method.`
+}
+
+function findAuthorization(state: PaymentsState, authorizationId: string): Authorization {
+  const authorization = state.authorizations.find(a => a.id === authorizationId)
+  if (!authorization) {
+    throw new Error(`Payment ${authorizationId} not found`)
+  }
+  return authorization
+}
@@ -0,0 +1,171 @@
+/**
+ * Personalized Recommendations for E-Commerce Concierge
+ * Builds a "recommended for you" feed from what a shopper has bought,
+ * wishlisted and viewed, steering away from what they dismissed.
+ */
+
+import { mockData, ShopperProfile } from "./data"
+import { similarProducts } from "./recommend"
+import type { ShoppingState } from "./storage"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Where a shopper's interest in a product comes from
+ */
+export type Signal = 'purchased' | 'wishlisted' | 'viewed'
+
+/**
+ * A product picked for a shopper, and the product that led to it
+ */
+export type PersonalPick = {
+  id: string
+  score: number
+  because?: { productId: string; signal: Signal } // Unset for popular picks
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * How strongly each kind of interest pulls in similar products.
+ * Dismissed products push their look-alikes down.
+ */
+const SIGNAL_WEIGHTS: Record<Signal | 'dismissed', number> = {
+  purchased: 3,
+  wishlisted: 2,
+  viewed: 1,
+  dismissed: -1.5,
+}
+
+/**
+ * Each older view counts this much of the one after it
+ */
+const VIEW_DECAY = 0.8
+
+/**
+ * Recent views remembered in the profile
+ */
+export const MAX_VIEWED_PRODUCTS = 20
+
+/**
+ * Similar products considered per product the shopper showed interest in
+ */
+const NEIGHBOURS_PER_PRODUCT = 10
+
+// ============================================================================
+// PROFILE
+// ============================================================================
+
+/**
+ * Record that the shopper looked at a product (most recent first)
+ */
+export function recordView(profile: ShopperProfile, productId: string): void {
+  profile.viewed = profile.viewed.filter(view => view.productId !== productId)
+  profile.viewed.unshift({ productId, viewedAt: new Date().toISOString() })
+  profile.viewed.length = Math.min(profile.viewed.length, MAX_VIEWED_PRODUCTS)
+}
+
+/**
+ * Whether the shopper has done anything to personalize on
+ */
+export function hasHistory(state: ShoppingState): boolean {
+  return state.orders.length > 0 || state.wishlist.items.length > 0 || state.profile.viewed.length > 0
+}
+
+/**
+ * Products the shopper has shown interest in and how much, strongest
+ * signal first when a product has several
+ */
+function interests(state: ShoppingState): Array<{ productId: string; signal: Signal; weight: number }> {
+  const seen = new Set<string>()
+  const result: Array<{ productId: string; signal: Signal; weight: number }> = []
+  const add = (productId: string, signal: Signal, weight: number) => {
+    if (seen.has(productId) || !mockData.productDetails[productId]) return
+    seen.add(productId)
+    result.push({ productId, signal, weight })
+  }
+
+  for (const order of state.orders) {
+    for (const item of order.items) add(item.productId, 'purchased', SIGNAL_WEIGHTS.purchased)
+  }
+  for (const productId of state.wishlist.items) add(productId, 'wishlisted', SIGNAL_WEIGHTS.wishlisted)
+  state.profile.viewed.forEach((view, i) => {
+    add(view.productId, 'viewed', SIGNAL_WEIGHTS.viewed * VIEW_DECAY ** i)
+  })
+  return result
+}
+
+// ============================================================================
+// RECOMMENDING
+// ============================================================================
+
+/**
+ * Products to suggest to a shopper, best first. Each candidate scores the
+ * sum of its similarity to every product the shopper showed interest in,
+ * weighted by the kind of interest. Products they already own, have in
+ * their cart or wishlist, viewed or dismissed are never suggested. Popular
+ * products fill whatever the shopper's history can't.
+ */
+export function recommendFor(state: ShoppingState, limit: number): PersonalPick[] {
+  const excluded = new Set<string>([
+    ...state.orders.flatMap(order => order.items.map(item => item.productId)),
+    ...state.cart.items.map(item => item.productId),
+    ...state.wishlist.items,
+    ...state.profile.viewed.map(view => view.productId),
+    ...state.profile.dismissed,
+  ])
+
+  if (!hasHistory(state)) {
+    return popular(excluded, limit)
+  }
+
+  const scores = new Map<string, PersonalPick & { strongest: number }>()
+  const neighbours = (productId: string) => similarProducts(productId, NEIGHBOURS_PER_PRODUCT)
+
+  for (const interest of interests(state)) {
+    for (const similar of neighbours(interest.productId)) {
+      if (excluded.has(similar.id)) continue
+      const contribution = interest.weight * similar.score
+      const pick = scores.get(similar.id) ?? { id: similar.id, score: 0, strongest: 0 }
+      pick.score += contribution
+      if (contribution > pick.strongest) {
+        pick.strongest = contribution
+        pick.because = { productId: interest.productId, signal: interest.signal }
+      }
+      scores.set(similar.id, pick)
+    }
+  }
+
+  for (const productId of state.profile.dismissed) {
+    for (const similar of neighbours(productId)) {
+      const pick = scores.get(similar.id)
+      if (pick) pick.score += SIGNAL_WEIGHTS.dismissed * similar.score
+    }
+  }
+
+  const picks = Array.from(scores.values())
+    .filter(pick => pick.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ id, score, because }) => ({ id, score: Math.round(score * 1000) / 1000, because }))
+
+  // Too little history to fill the feed: top it up with popular products
+  const chosen = new Set([...excluded, ...picks.map(pick => pick.id)])
+  return [...picks, ...popular(chosen, limit - picks.length)]
+}
+
+/**
+ * Best-rated products with the most ratings, for shoppers with little or no history
+ */
+function popular(excluded: Set<string>, limit: number): PersonalPick[] {
+  return mockData.searchResults
+    .filter(product => !excluded.has(product.id))
+    .map(product => ({ id: product.id, score: product.rating * Math.log10(product.numRatings + 1) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(pick => ({ ...pick, score: Math.round(pick.score * 1000) / 1000 }))
+}
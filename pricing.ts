@@ -0,0 +1,249 @@
+/**
+ * Order Pricing for E-Commerce Concierge
+ * The checkout pricing pipeline: item subtotal, then discounts, then
+ * shipping by method and parcel weight, then the sales tax or VAT of the
+ * region the order ships to, and finally the grand total. Also works out
+ * when each delivery method arrives.
+ */
+
+import { mockData, CartItem } from "./data"
+import { CartPricing, priceItems } from "./promotions"
+import { addBusinessDays } from "./delivery"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ShippingMethod = 'standard' | 'express' | 'pickup'
+
+/**
+ * A place orders ship to and the tax charged there
+ */
+export type TaxRegion = {
+  code: string // e.g. "US-CA", "GB"
+  name: string
+  taxName: string // "Sales tax", "VAT", ...
+  rate: number // Percent
+  taxesShipping: boolean // Whether shipping is taxed along with the items
+  international: boolean // Outside the store's home country
+}
+
+/**
+ * What shipping an order costs
+ */
+export type ShippingCharge = {
+  method: ShippingMethod
+  weightKg: number // Billed parcel weight
+  cost: number
+  free: boolean // Waived because the order qualified for free shipping
+}
+
+/**
+ * The tax charged on an order
+ */
+export type TaxCharge = {
+  region: string // Region code
+  name: string // e.g. "California sales tax"
+  rate: number // Percent
+  taxable: number // Amount the rate was applied to
+  amount: number
+}
+
+/**
+ * Everything an order costs: the items with their discounts, shipping,
+ * tax, and the grand total
+ */
+export type OrderPricing = Omit<CartPricing, 'total'> & {
+  itemsTotal: number // Subtotal less discounts
+  shipping: ShippingCharge
+  tax: TaxCharge
+  total: number // Grand total
+}
+
+/**
+ * How an order is delivered and where to
+ */
+export type PricingOptions = {
+  shippingMethod?: ShippingMethod
+  region?: string // Region code or name; defaults to defaultRegion(), where pickup orders are always taxed
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * What each shipping method costs (a base price covering the first kilogram
+ * plus a price per extra started kilogram) and how many business days after
+ * the order it arrives
+ */
+const SHIPPING_RATES: Record<ShippingMethod, { label: string; base: number; perKg: number; businessDays: number }> = {
+  standard: { label: 'Standard', base: 5.99, perKg: 1.5, businessDays: 5 },
+  express: { label: 'Express', base: 14.99, perKg: 3, businessDays: 2 },
+  pickup: { label: 'Store pickup', base: 0, perKg: 0, businessDays: 1 },
+}
+
+export const SHIPPING_METHODS = Object.keys(SHIPPING_RATES) as ShippingMethod[]
+
+/**
+ * Standard shipping is free within the home country once the items come
+ * to this much after discounts
+ */
+export const FREE_SHIPPING_THRESHOLD = 75
+
+/**
+ * Added to the shipping of orders leaving the home country
+ */
+const INTERNATIONAL_SURCHARGE = 15
+
+/**
+ * Extra business days orders leaving the home country take
+ */
+const INTERNATIONAL_EXTRA_DAYS = 3
+
+/**
+ * Weight assumed for products without a weight spec, in grams
+ */
+const DEFAULT_ITEM_WEIGHT_GRAMS = 300
+
+/**
+ * Box and padding added to every parcel, in grams
+ */
+const PACKAGING_WEIGHT_GRAMS = 200
+
+/**
+ * Regions the store ships to
+ */
+export const TAX_REGIONS: TaxRegion[] = [
+  { code: 'US-CA', name: 'California', taxName: 'Sales tax', rate: 7.25, taxesShipping: false, international: false },
+  { code: 'US-NY', name: 'New York', taxName: 'Sales tax', rate: 8, taxesShipping: true, international: false },
+  { code: 'US-TX', name: 'Texas', taxName: 'Sales tax', rate: 6.25, taxesShipping: true, international: false },
+  { code: 'US-WA', name: 'Washington', taxName: 'Sales tax', rate: 6.5, taxesShipping: true, international: false },
+  { code: 'US-OR', name: 'Oregon', taxName: 'Sales tax', rate: 0, taxesShipping: false, international: false },
+  { code: 'CA-ON', name: 'Ontario', taxName: 'HST', rate: 13, taxesShipping: true, international: true },
+  { code: 'GB', name: 'United Kingdom', taxName: 'VAT', rate: 20, taxesShipping: true, international: true },
+  { code: 'DE', name: 'Germany', taxName: 'VAT', rate: 19, taxesShipping: true, international: true },
+]
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Look up a region by its code ("US-TX" or just "TX") or name, ignoring case
+ */
+export function findRegion(codeOrName: string): TaxRegion | undefined {
+  const wanted = codeOrName.trim().toLowerCase()
+  return TAX_REGIONS.find(r => r.code.toLowerCase() === wanted || r.name.toLowerCase() === wanted) ??
+    TAX_REGIONS.find(r => r.code.split('-').pop()!.toLowerCase() === wanted)
+}
+
+/**
+ * Where the store is, set with CONCIERGE_REGION (California when unset).
+ * Pickup orders are taxed here.
+ */
+export function defaultRegion(): TaxRegion {
+  const setting = process.env.CONCIERGE_REGION
+  return (setting && findRegion(setting)) || TAX_REGIONS[0]
+}
+
+function requireRegion(codeOrName?: string): TaxRegion {
+  if (!codeOrName) return defaultRegion()
+  const region = findRegion(codeOrName)
+  if (!region) {
+    throw new Error(`We don't ship to "${codeOrName}". We ship to ${TAX_REGIONS.map(r => r.name).join(', ')}`)
+  }
+  return region
+}
+
+export function shippingMethodLabel(method: ShippingMethod): string {
+  return SHIPPING_RATES[method].label
+}
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+/**
+ * Weight of the parcel the items ship in, in grams
+ */
+function parcelWeight(items: CartItem[]): number {
+  return items.reduce((sum, item) => {
+    const weight = mockData.productDetails[item.productId]?.specs?.weight
+    return sum + (typeof weight === 'number' ? weight : DEFAULT_ITEM_WEIGHT_GRAMS) * item.quantity
+  }, PACKAGING_WEIGHT_GRAMS)
+}
+
+/**
+ * Shipping for a parcel, by method and weight; billed per started kilogram
+ */
+function priceShipping(items: CartItem[], itemsTotal: number, method: ShippingMethod, region: TaxRegion): ShippingCharge {
+  const rate = SHIPPING_RATES[method]
+  const weightKg = Math.max(1, Math.ceil(parcelWeight(items) / 1000))
+
+  if (method === 'pickup') {
+    return { method, weightKg, cost: 0, free: false }
+  }
+  if (method === 'standard' && !region.international && itemsTotal >= FREE_SHIPPING_THRESHOLD) {
+    return { method, weightKg, cost: 0, free: true }
+  }
+
+  const surcharge = region.international ? INTERNATIONAL_SURCHARGE : 0
+  const cost = round(rate.base + rate.perKg * (weightKg - 1) + surcharge)
+  return { method, weightKg, cost, free: false }
+}
+
+function priceTax(itemsTotal: number, shipping: ShippingCharge, region: TaxRegion): TaxCharge {
+  const taxable = round(itemsTotal + (region.taxesShipping ? shipping.cost : 0))
+  return {
+    region: region.code,
+    name: region.taxName === 'Sales tax' ? `${region.name} sales tax` : `${region.name} ${region.taxName}`,
+    rate: region.rate,
+    taxable,
+    amount: round(taxable * region.rate / 100),
+  }
+}
+
+/**
+ * Price an order from its items and coupons: discounts come off the
+ * subtotal first, shipping is worked out on what's left, then tax on the
+ * items (and shipping, where the region taxes it). Pickup orders are
+ * taxed where the store is. Throws for regions the store doesn't ship to.
+ */
+export function priceOrder(
+  items: CartItem[],
+  coupons: string[] = [],
+  options: PricingOptions = {},
+  now: Date = new Date()
+): OrderPricing {
+  const method = options.shippingMethod ?? 'standard'
+  const region = method === 'pickup' ? defaultRegion() : requireRegion(options.region)
+  const { total: itemsTotal, ...discounted } = priceItems(items, coupons, now)
+  const shipping = priceShipping(items, itemsTotal, method, region)
+  const tax = priceTax(itemsTotal, shipping, region)
+
+  return {
+    ...discounted,
+    itemsTotal,
+    shipping,
+    tax,
+    total: round(itemsTotal + shipping.cost + tax.amount),
+  }
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * When an order placed on `orderDate` (YYYY-MM-DD) arrives, or is ready for
+ * pickup, counting business days only
+ */
+export function estimateDelivery(method: ShippingMethod, regionCode: string | undefined, orderDate: string): string {
+  const region = method === 'pickup' ? defaultRegion() : requireRegion(regionCode)
+  return addBusinessDays(orderDate, SHIPPING_RATES[method].businessDays + (region.international ? INTERNATIONAL_EXTRA_DAYS : 0))
+}
@@ -0,0 +1,234 @@
+/**
+ * Promotions for E-Commerce Concierge
+ * Prices a cart with its discounts: automatic sales plus the coupons the
+ * shopper applied (percentage or fixed off, buy X get Y free), honouring
+ * category and product scopes, minimum spends, validity dates and which
+ * coupons may be combined.
+ */
+
+import { mockData, CartItem } from "./data"
+import { isInCategory } from "./categories"
+import { today } from "./delivery"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A sale or coupon. Promotions without a `code` apply automatically to
+ * every cart while they're running.
+ */
+export type Promotion = {
+  id: string
+  code?: string
+  description: string
+  discount:
+    | { type: 'percent'; percent: number }
+    | { type: 'fixed'; amount: number }
+    | { type: 'buy_x_get_y'; buy: number; get: number } // The cheapest `get` of every buy + get units are free
+  categoryId?: string // Only products in this category or its subcategories
+  productIds?: string[] // Only these products
+  minSpend?: number // Cart total (after earlier discounts) needed for it to apply
+  startsAt?: string // First valid day, YYYY-MM-DD
+  expiresAt?: string // Last valid day, YYYY-MM-DD
+  stackable?: boolean // Coupon may be combined with other coupons; sales always combine
+}
+
+/**
+ * A discount taken off a cart
+ */
+export type AppliedDiscount = {
+  promotionId: string
+  code?: string
+  description: string
+  amount: number
+}
+
+/**
+ * What a cart costs before and after its discounts
+ */
+export type CartPricing = {
+  subtotal: number
+  discounts: AppliedDiscount[]
+  discountTotal: number
+  total: number
+  notices: string[] // Applied coupons that don't take effect, and why
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+function label(promotion: Promotion): string {
+  return promotion.code ?? promotion.description
+}
+
+/**
+ * Why a promotion isn't valid on a day, or null if it is
+ */
+function validityProblem(promotion: Promotion, now: Date): string | null {
+  const day = today(now)
+  if (promotion.startsAt && day < promotion.startsAt) {
+    return `${label(promotion)} starts on ${promotion.startsAt}`
+  }
+  if (promotion.expiresAt && day > promotion.expiresAt) {
+    return `${label(promotion)} expired on ${promotion.expiresAt}`
+  }
+  return null
+}
+
+/**
+ * Whether a promotion covers a product
+ */
+export function appliesTo(promotion: Promotion, productId: string): boolean {
+  if (promotion.productIds && !promotion.productIds.includes(productId)) return false
+  if (promotion.categoryId && !isInCategory(productId, promotion.categoryId)) return false
+  return true
+}
+
+// ============================================================================
+// COUPONS
+// ============================================================================
+
+/**
+ * Look up a coupon by its code, ignoring case
+ */
+export function findCoupon(code: string): Promotion | undefined {
+  const wanted = code.trim().toUpperCase()
+  return mockData.promotions.find(p => p.code?.toUpperCase() === wanted)
+}
+
+/**
+ * Check a coupon can be added to the ones already applied, returning it.
+ * Throws for unknown, expired or not-yet-valid codes, repeats, and
+ * combinations the stacking rules forbid.
+ */
+export function validateCoupon(code: string, applied: string[], now: Date = new Date()): Promotion {
+  const coupon = findCoupon(code)
+  if (!coupon) {
+    throw new Error(`"${code}" isn't a valid coupon code`)
+  }
+
+  const problem = validityProblem(coupon, now)
+  if (problem) {
+    throw new Error(`Sorry, ${problem}`)
+  }
+
+  const others = applied.map(findCoupon).filter((p): p is Promotion => !!p)
+  if (others.some(p => p.id === coupon.id)) {
+    throw new Error(`${coupon.code} is already applied`)
+  }
+  if (others.length > 0 && !coupon.stackable) {
+    throw new Error(`${coupon.code} can't be combined with other coupons. Remove ${others.map(p => p.code).join(', ')} first`)
+  }
+  const exclusive = others.find(p => !p.stackable)
+  if (exclusive) {
+    throw new Error(`${exclusive.code} can't be combined with other coupons. Remove it first to use ${coupon.code}`)
+  }
+
+  return coupon
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * Discount for one promotion given what is still payable on each line
+ * (after earlier promotions), split across the lines it covers
+ */
+function lineDiscounts(promotion: Promotion, items: CartItem[], remaining: number[]): number[] {
+  const discounts = items.map(() => 0)
+  const scoped = items.flatMap((item, i) => (appliesTo(promotion, item.productId) ? [i] : []))
+  const { discount } = promotion
+
+  switch (discount.type) {
+    case 'percent':
+      for (const i of scoped) discounts[i] = remaining[i] * discount.percent / 100
+      break
+
+    case 'fixed': {
+      const base = scoped.reduce((sum, i) => sum + remaining[i], 0)
+      const amount = Math.min(discount.amount, base)
+      for (const i of scoped) discounts[i] = base > 0 ? amount * remaining[i] / base : 0
+      break
+    }
+
+    case 'buy_x_get_y': {
+      // Every unit at its current price, dearest first; each group of
+      // buy + get units gets its cheapest `get` units free
+      const units = scoped
+        .flatMap(i => Array.from({ length: items[i].quantity }, () => ({ line: i, price: remaining[i] / items[i].quantity })))
+        .sort((a, b) => b.price - a.price)
+      const groupSize = discount.buy + discount.get
+      for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+        for (const unit of units.slice(start + discount.buy, start + groupSize)) {
+          discounts[unit.line] += unit.price
+        }
+      }
+      break
+    }
+  }
+
+  return discounts
+}
+
+/**
+ * Price cart lines with every running sale and the given coupon codes.
+ * Sales go first, then coupons in the order applied; each promotion works
+ * on what's left after the ones before it, so discounts never exceed the
+ * price. Coupons that don't take effect are listed in `notices`.
+ */
+export function priceItems(items: CartItem[], coupons: string[] = [], now: Date = new Date()): CartPricing {
+  const remaining = items.map(item => item.price * item.quantity)
+  const subtotal = round(remaining.reduce((sum, amount) => sum + amount, 0))
+  const discounts: AppliedDiscount[] = []
+  const notices: string[] = []
+
+  const sales = mockData.promotions.filter(p => !p.code && !validityProblem(p, now))
+  const applied: Promotion[] = []
+  for (const code of coupons) {
+    const coupon = findCoupon(code)
+    if (!coupon) {
+      notices.push(`${code} is no longer a valid coupon`)
+      continue
+    }
+    const problem = validityProblem(coupon, now)
+    if (problem) {
+      notices.push(problem)
+      continue
+    }
+    applied.push(coupon)
+  }
+
+  for (const promotion of [...sales, ...applied]) {
+    const payable = remaining.reduce((sum, amount) => sum + amount, 0)
+    if (promotion.minSpend && payable < promotion.minSpend) {
+      if (promotion.code) {
+        notices.push(`Spend ${formatAmount(promotion.minSpend - payable)} more to use ${promotion.code} (minimum ${formatAmount(promotion.minSpend)})`)
+      }
+      continue
+    }
+
+    const perLine = lineDiscounts(promotion, items, remaining)
+    const amount = round(perLine.reduce((sum, d) => sum + d, 0))
+    if (amount <= 0) {
+      if (promotion.code) notices.push(`${promotion.code} doesn't apply to anything in your cart`)
+      continue
+    }
+
+    perLine.forEach((d, i) => { remaining[i] -= d })
+    discounts.push({ promotionId: promotion.id, code: promotion.code, description: promotion.description, amount })
+  }
+
+  const discountTotal = round(discounts.reduce((sum, d) => sum + d.amount, 0))
+  return { subtotal, discounts, discountTotal, total: round(subtotal - discountTotal), notices }
+}
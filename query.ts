@@ -0,0 +1,320 @@
+/**
+ * Query Parsing for E-Commerce Concierge
+ * Pulls price, rating, sort, brand and delivery constraints out of a raw
+ * search phrase ("cables under $15 with 4+ stars") so search can filter on
+ * them even when the model passes the whole sentence as the search term.
+ */
+
+import { mockData } from "./data"
+import type { FilterOptions } from "./tools"
+import { tokenize } from "./search"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What's left to search for, and the filters found in the phrase
+ */
+export type ParsedQuery = {
+  searchTerm: string
+  filters: FilterOptions
+}
+
+/**
+ * A pattern and how to turn its match into filters
+ */
+type Rule = {
+  pattern: RegExp
+  apply: (match: RegExpMatchArray) => FilterOptions | null
+}
+
+// ============================================================================
+// PATTERNS
+// ============================================================================
+
+// A price: "$15", "15", "15.99", "1,200", "1.5k", "20 dollars"
+const AMOUNT = String.raw`\$?\s*(\d+(?:,\d{3})*(?:\.\d+)?)\s*(k)?(?:\s*(?:dollars|bucks|usd))?`
+
+// A rating: "4", "4.5" (followed by stars or "rating")
+const STARS = String.raw`(\d(?:\.\d)?)\s*(?:stars?|★)`
+
+/**
+ * How far "around $50" reaches either side
+ */
+const AROUND_PRICE_MARGIN = 0.2
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+}
+
+const SORT_RULES: Rule[] = [
+  {
+    pattern: /\b(?:cheapest(?: first)?|least expensive|lowest[ -]priced?|price:? low to high|(?:sort(?:ed)?|order(?:ed)?) by price)\b/i,
+    apply: () => ({ sortBy: 'price_asc' }),
+  },
+  {
+    pattern: /\b(?:most expensive|priciest|highest[ -]priced?|price:? high to low)\b/i,
+    apply: () => ({ sortBy: 'price_desc' }),
+  },
+  {
+    pattern: /\b(?:(?:best|top|highest)[ -]rated|(?:sort(?:ed)?|order(?:ed)?) by (?:rating|stars))\b/i,
+    apply: () => ({ sortBy: 'rating' }),
+  },
+  {
+    pattern: /\b(?:most popular|best[ -]?sell(?:ing|ers?)|most reviewed|(?:sort(?:ed)?|order(?:ed)?) by popularity)\b/i,
+    apply: () => ({ sortBy: 'popularity' }),
+  },
+]
+
+// Delivery verbs are swallowed with the window so they don't end up in the search term
+const DELIVERY_VERB = String.raw`(?:(?:delivered|delivery|deliver|arrives?|arriving|ships?|shipped|shipping|get it)\s+)?`
+
+const DELIVERY_RULES: Rule[] = [
+  {
+    pattern: new RegExp(String.raw`\b${DELIVERY_VERB}(?:by\s+)?(?:today|same[ -]day(?: delivery| shipping)?)\b`, 'i'),
+    apply: () => ({ deliveryWithinDays: 0 }),
+  },
+  {
+    pattern: new RegExp(String.raw`\b${DELIVERY_VERB}(?:by\s+)?(?:tomorrow|next[ -]day(?: delivery| shipping)?|overnight)\b`, 'i'),
+    apply: () => ({ deliveryWithinDays: 1 }),
+  },
+  {
+    pattern: new RegExp(String.raw`\b${DELIVERY_VERB}(?:within|in)\s+(\d+|a|one|two|three|four|five|six|seven)\s+days?\b`, 'i'),
+    apply: m => ({ deliveryWithinDays: toDays(m[1]) }),
+  },
+  {
+    pattern: /\b(\d+)[ -]day (?:delivery|shipping)\b/i,
+    apply: m => ({ deliveryWithinDays: toDays(m[1]) }),
+  },
+  {
+    pattern: new RegExp(String.raw`\b${DELIVERY_VERB}(?:this week|within a week|in a week)\b`, 'i'),
+    apply: () => ({ deliveryWithinDays: 7 }),
+  },
+]
+
+// Ratings are matched before prices so "over 4 stars" isn't read as "over $4"
+const RATING_RULES: Rule[] = [
+  {
+    pattern: new RegExp(String.raw`\b(?:at least|min(?:imum)?(?: of)?|over|above|more than|rated)?\s*(\d(?:\.\d)?)\s*\+\s*(?:stars?|★|rating)`, 'i'),
+    apply: m => rating(m[1]),
+  },
+  {
+    pattern: new RegExp(String.raw`\b${STARS}\s*(?:and|&|or)\s*(?:up|above|higher|better|more)\b`, 'i'),
+    apply: m => rating(m[1]),
+  },
+  {
+    pattern: new RegExp(String.raw`\b(?:at least|min(?:imum)?(?: of)?|over|above|more than|rated)\s+${STARS}`, 'i'),
+    apply: m => rating(m[1]),
+  },
+  {
+    pattern: /\b(?:rated|rating(?: of)?)\s+(?:at least\s+|over\s+|above\s+|>=?\s*)?(\d(?:\.\d)?)(?:\s*\+|\s*(?:or|and)\s*(?:up|above|higher|better|more))?(?!\d)/i,
+    apply: m => rating(m[1]),
+  },
+  {
+    pattern: new RegExp(String.raw`\b${STARS}`, 'i'),
+    apply: m => rating(m[1]),
+  },
+  {
+    pattern: /\b(?:highly|well)[ -]rated\b/i,
+    apply: () => ({ minRating: 4 }),
+  },
+]
+
+const PRICE_RULES: Rule[] = [
+  {
+    pattern: new RegExp(String.raw`\bbetween\s+${AMOUNT}\s+and\s+${AMOUNT}`, 'i'),
+    apply: m => priceRange(amount(m[1], m[2]), amount(m[3], m[4])),
+  },
+  {
+    pattern: new RegExp(String.raw`\bfrom\s+${AMOUNT}\s+to\s+${AMOUNT}`, 'i'),
+    apply: m => priceRange(amount(m[1], m[2]), amount(m[3], m[4])),
+  },
+  {
+    // "$20-$50", "$20 to 50": a bare "20-50" could be anything, so require a "$"
+    pattern: new RegExp(String.raw`\$\s*(\d+(?:,\d{3})*(?:\.\d+)?)\s*(k)?\s*(?:-|–|to)\s*${AMOUNT}`, 'i'),
+    apply: m => priceRange(amount(m[1], m[2]), amount(m[3], m[4])),
+  },
+  {
+    pattern: new RegExp(String.raw`(?:\b(?:under|below|less than|cheaper than|no more than|at most|max(?:imum)?|up to)\s+|<=?\s*)${AMOUNT}`, 'i'),
+    apply: m => ({ maxPrice: amount(m[1], m[2]) }),
+  },
+  {
+    pattern: new RegExp(String.raw`(?:\b(?:over|above|more than|at least|min(?:imum)?|starting at|from)\s+|>=?\s*)${AMOUNT}`, 'i'),
+    apply: m => ({ minPrice: amount(m[1], m[2]) }),
+  },
+  {
+    pattern: new RegExp(String.raw`\$\s*(\d+(?:,\d{3})*(?:\.\d+)?)\s*(k)?\s*\+`, 'i'),
+    apply: m => ({ minPrice: amount(m[1], m[2]) }),
+  },
+  {
+    pattern: new RegExp(String.raw`\b(?:around|about|roughly|approximately|~)\s*${AMOUNT}`, 'i'),
+    apply: m => {
+      const target = amount(m[1], m[2])
+      return priceRange(target * (1 - AROUND_PRICE_MARGIN), target * (1 + AROUND_PRICE_MARGIN))
+    },
+  },
+]
+
+/**
+ * Words left dangling at either end once the constraints are cut out
+ * ("find cables with", "but boots")
+ */
+const CONNECTORS = new Set([
+  'with', 'and', 'or', 'but', 'that', 'which', 'are', 'is', 'for', 'by', 'at', 'in',
+  'priced', 'costing', 'cost', 'rated', 'rating', 'sorted', 'delivered', 'than',
+  'find', 'show', 'search', 'me', 'some', 'any', 'i', 'want', 'need', 'looking',
+])
+
+/**
+ * Words that can precede a brand at the start of a query ("show me Sony ...")
+ */
+const LEAD_IN_WORDS = new Set([
+  'find', 'show', 'search', 'me', 'some', 'any', 'i', "i'm", 'im', 'want', 'need',
+  'looking', 'shopping', 'searching', 'for', 'get', 'buy', 'a', 'an', 'the',
+])
+
+/**
+ * Text right before a brand that makes it the device the product is for
+ * ("a cable for my Apple MacBook"), not the product's own brand.
+ * "looking for" and the like are lead-ins, not compatibility.
+ */
+const COMPATIBILITY_PHRASE = /(?:(?<!\b(?:looking|shopping|searching)\s+)\bfor(?:\s+(?:my|an?|the))?|\bcompatible with|\bworks with|\bfits(?:\s+(?:my|an?|the))?)\s*$/i
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function amount(digits: string, thousands?: string): number {
+  const value = Number(digits.replace(/,/g, ''))
+  return thousands ? value * 1000 : value
+}
+
+function priceRange(a: number, b: number): FilterOptions {
+  const round = (n: number) => Math.round(n * 100) / 100
+  return { minPrice: round(Math.min(a, b)), maxPrice: round(Math.max(a, b)) }
+}
+
+/**
+ * A rating filter, or null if the number can't be a star rating
+ */
+function rating(text: string): FilterOptions | null {
+  const value = Number(text)
+  return value > 0 && value <= 5 ? { minRating: value } : null
+}
+
+function toDays(text: string): number {
+  return NUMBER_WORDS[text.toLowerCase()] ?? Number(text)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Brands in the active catalog, longest first so "Amazon Basics" wins over "Amazon"
+ */
+function catalogBrands(): string[] {
+  const brands = new Set<string>()
+  for (const result of mockData.searchResults) {
+    if (result.brand) brands.add(result.brand)
+  }
+  return Array.from(brands).sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Nouns naming a kind of product ("headphones", "cables"), from the category names
+ */
+function productNouns(): Set<string> {
+  return new Set(mockData.categories.flatMap(category => tokenize(category.name)))
+}
+
+/**
+ * Whether a brand found in a query is the brand the shopper wants: it must
+ * lead the query ("Anker cables") or come right before a product noun
+ * ("wireless Sony headphones"), and never follow "for", "compatible with"
+ * or "works with", which name what the product has to fit
+ */
+function isBrandFilter(before: string, after: string): boolean {
+  if (COMPATIBILITY_PHRASE.test(before)) return false
+
+  const leading = before.toLowerCase().split(/[^\w']+/).filter(Boolean)
+  if (leading.every(word => LEAD_IN_WORDS.has(word))) return true
+
+  const [next] = tokenize(after)
+  return next !== undefined && productNouns().has(next)
+}
+
+/**
+ * Apply the first rule in a group that matches, cutting its text out of the query
+ */
+function applyFirst(text: string, rules: Rule[], filters: FilterOptions): string {
+  for (const rule of rules) {
+    const match = text.match(rule.pattern)
+    if (!match || match.index === undefined) continue
+    const found = rule.apply(match)
+    if (!found) continue
+    Object.assign(filters, found)
+    return `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`
+  }
+  return text
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Split a search phrase into keywords and filters.
+ * "Anker cables under $15 with 4+ stars" becomes
+ * { searchTerm: "cables", filters: { brand: "Anker", maxPrice: 15, minRating: 4 } }
+ */
+export function parseQuery(text: string): ParsedQuery {
+  const filters: FilterOptions = {}
+  let rest = text
+
+  rest = applyFirst(rest, SORT_RULES, filters)
+  rest = applyFirst(rest, DELIVERY_RULES, filters)
+  rest = applyFirst(rest, RATING_RULES, filters)
+  rest = applyFirst(rest, PRICE_RULES, filters)
+  // A second price rule catches split bounds ("over $20 but under $50")
+  rest = applyFirst(rest, PRICE_RULES, filters)
+
+  const brands: string[] = []
+  for (const brand of catalogBrands()) {
+    const pattern = new RegExp(String.raw`(^|[^\w])${escapeRegExp(brand)}(?=$|[^\w])`, 'i')
+    const match = rest.match(pattern)
+    if (!match || match.index === undefined) continue
+
+    const start = match.index + match[1].length
+    const before = rest.slice(0, start)
+    const after = rest.slice(start + brand.length)
+    if (isBrandFilter(before, after)) {
+      brands.push(brand)
+      rest = `${before} ${after}`
+    }
+  }
+  if (brands.length > 0) {
+    filters.brand = brands.length === 1 ? brands[0] : brands
+  }
+
+  // Drop dangling connectors and punctuation left at the edges
+  const words = rest.replace(/[,;]+/g, ' ').split(/\s+/).filter(Boolean)
+  while (words.length > 0 && CONNECTORS.has(words[0].toLowerCase())) words.shift()
+  while (words.length > 0 && CONNECTORS.has(words[words.length - 1].toLowerCase())) words.pop()
+
+  return { searchTerm: words.join(' '), filters }
+}
+
+/**
+ * Filters parsed from the text, overridden by any the caller set explicitly
+ */
+export function mergeFilters(parsed: FilterOptions, explicit: FilterOptions = {}): FilterOptions {
+  const merged: FilterOptions = { ...parsed }
+  for (const [key, value] of Object.entries(explicit) as Array<[keyof FilterOptions, unknown]>) {
+    if (value !== undefined && value !== null) {
+      Object.assign(merged, { [key]: value })
+    }
+  }
+  return merged
+}
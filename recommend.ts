@@ -0,0 +1,244 @@
+/**
+ * Content-Based Recommendations for E-Commerce Concierge
+ * Finds products similar to a given one by TF-IDF cosine similarity over
+ * title, brand, category, description and specs, blended with how close
+ * the prices are, and explains each match in a short sentence.
+ */
+
+import { mockData } from "./data"
+import { categoryPath } from "./categories"
+import { tokenize } from "./search"
+import { SPEC_DEFINITIONS, SpecDefinition, SpecKey } from "./specs"
+import type { SearchResult } from "./tools"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A product similar to the one recommendations were asked for
+ */
+export type SimilarProduct = {
+  id: string
+  score: number // 0-1, blending text and price similarity
+  reason: string // e.g. "Also in Headphones; both mention noise, cancelling; $50 cheaper"
+}
+
+type TermVector = Map<string, number>
+
+type ContentIndex = {
+  source: SearchResult[] // Catalog the vectors were built from
+  vectors: Map<string, TermVector> // Product ID -> normalized TF-IDF weights
+  labelTerms: Map<string, Set<string>> // Product ID -> terms from its category and brand
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * How much each part of a product counts towards its text profile
+ */
+const FIELD_WEIGHTS = {
+  title: 2,
+  category: 3,
+  brand: 1,
+  description: 1,
+  specs: 1,
+}
+
+// Share of the final score from text similarity vs. price proximity
+const TEXT_WEIGHT = 0.75
+const PRICE_WEIGHT = 0.25
+
+/**
+ * Products less textually similar than this aren't recommended at all,
+ * however close the price (so a speaker never suggests a USB cable)
+ */
+const MIN_TEXT_SIMILARITY = 0.05
+
+/**
+ * Prices within this fraction of each other are called "similar"
+ */
+const SIMILAR_PRICE_RATIO = 0.2
+
+/**
+ * Specs about what a product plugs into or runs on rather than what it is;
+ * sharing "USB-C" or "macOS" doesn't make a keyboard like a pair of earbuds
+ */
+const COMPATIBILITY_SPECS = new Set<SpecKey>(['port', 'connectors', 'platforms', 'limitedPlatforms'])
+
+/**
+ * Shared terms named in an explanation
+ */
+const MAX_REASON_TERMS = 3
+
+// ============================================================================
+// VECTORS
+// ============================================================================
+
+let cachedIndex: ContentIndex | null = null
+
+/**
+ * Terms describing a product's specs: the label of yes/no specs it has
+ * ("noise cancelling") and the words of text values ("Bluetooth"). Numeric
+ * specs are left out; nearly everything has a weight, so sharing one says
+ * nothing.
+ */
+function specTerms(productId: string): string[] {
+  const specs = mockData.productDetails[productId]?.specs ?? {}
+  return (Object.entries(specs) as Array<[SpecKey, unknown]>).flatMap(([key, value]) => {
+    const definition: SpecDefinition = SPEC_DEFINITIONS[key]
+    if (!definition || COMPATIBILITY_SPECS.has(key)) return []
+    if (definition.type === 'boolean') return value === true ? tokenize(definition.label) : []
+    if (definition.type === 'text') return tokenize(String(value))
+    return []
+  })
+}
+
+/**
+ * TF-IDF vectors for the active catalog, rebuilt when the catalog is replaced
+ */
+function getIndex(): ContentIndex {
+  if (cachedIndex && cachedIndex.source === mockData.searchResults) {
+    return cachedIndex
+  }
+
+  const counts = new Map<string, TermVector>()
+  const labelTerms = new Map<string, Set<string>>()
+  const documentFrequency = new Map<string, number>()
+
+  for (const product of mockData.searchResults) {
+    const categoryId = mockData.productCategories[product.id]
+    const categoryWords = categoryId ? categoryPath(categoryId).flatMap(c => tokenize(c.name)) : []
+    const brandWords = tokenize(product.brand ?? '')
+    const fields: Array<[string[], number]> = [
+      [tokenize(product.title), FIELD_WEIGHTS.title],
+      [categoryWords, FIELD_WEIGHTS.category],
+      [brandWords, FIELD_WEIGHTS.brand],
+      [tokenize(mockData.productDetails[product.id]?.description ?? ''), FIELD_WEIGHTS.description],
+      [specTerms(product.id), FIELD_WEIGHTS.specs],
+    ]
+
+    const frequencies: TermVector = new Map()
+    for (const [terms, weight] of fields) {
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + weight)
+      }
+    }
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+    }
+    counts.set(product.id, frequencies)
+    labelTerms.set(product.id, new Set([...categoryWords, ...brandWords]))
+  }
+
+  // Weight by rarity and scale each vector to unit length
+  const documentCount = mockData.searchResults.length
+  const vectors = new Map<string, TermVector>()
+  for (const [id, frequencies] of counts) {
+    const vector: TermVector = new Map()
+    for (const [term, tf] of frequencies) {
+      const idf = Math.log(documentCount / documentFrequency.get(term)!)
+      if (idf > 0) vector.set(term, (1 + Math.log(tf)) * idf)
+    }
+    const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0))
+    for (const [term, weight] of vector) {
+      vector.set(term, norm > 0 ? weight / norm : 0)
+    }
+    vectors.set(id, vector)
+  }
+
+  cachedIndex = { source: mockData.searchResults, vectors, labelTerms }
+  return cachedIndex
+}
+
+function cosine(a: TermVector, b: TermVector): number {
+  let dot = 0
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) ?? 0)
+  }
+  return dot
+}
+
+/**
+ * 1 for equal prices, falling towards 0 as one gets many times the other
+ */
+function priceSimilarity(a: number, b: number): number {
+  if (a <= 0 || b <= 0) return a === b ? 1 : 0
+  return Math.min(a, b) / Math.max(a, b)
+}
+
+// ============================================================================
+// EXPLANATIONS
+// ============================================================================
+
+/**
+ * Why `candidate` resembles `productId`, in one line
+ */
+function explain(index: ContentIndex, productId: string, candidateId: string): string {
+  const product = mockData.productDetails[productId]
+  const candidate = mockData.productDetails[candidateId]
+  const parts: string[] = []
+
+  // Deepest category they share
+  const ownPath = categoryPath(mockData.productCategories[productId] ?? '')
+  const otherIds = new Set(categoryPath(mockData.productCategories[candidateId] ?? '').map(c => c.id))
+  const shared = ownPath.filter(c => otherIds.has(c.id)).pop()
+  if (shared) parts.push(`Also in ${shared.name}`)
+
+  if (product.brand && product.brand === candidate.brand) {
+    parts.push(`also by ${product.brand}`)
+  }
+
+  // The terms that contribute most to the similarity, besides category and brand
+  const own = index.vectors.get(productId)!
+  const other = index.vectors.get(candidateId)!
+  const labels = new Set([...index.labelTerms.get(productId)!, ...index.labelTerms.get(candidateId)!])
+  const terms = Array.from(own)
+    .filter(([term]) => other.has(term) && !labels.has(term))
+    .sort((a, b) => b[1] * other.get(b[0])! - a[1] * other.get(a[0])!)
+    .slice(0, MAX_REASON_TERMS)
+    .map(([term]) => term)
+  if (terms.length > 0) parts.push(`both mention ${terms.join(', ')}`)
+
+  const difference = candidate.price - product.price
+  if (Math.abs(difference) <= product.price * SIMILAR_PRICE_RATIO) {
+    parts.push('similar price')
+  } else {
+    parts.push(`$${Math.abs(difference).toFixed(2)} ${difference < 0 ? 'cheaper' : 'more'}`)
+  }
+
+  const sentence = parts.join('; ')
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1)
+}
+
+// ============================================================================
+// RECOMMENDING
+// ============================================================================
+
+/**
+ * The products most like `productId`, best first
+ */
+export function similarProducts(productId: string, limit: number): SimilarProduct[] {
+  const index = getIndex()
+  const own = index.vectors.get(productId)
+  const product = mockData.productDetails[productId]
+  if (!own || !product) return []
+
+  return mockData.searchResults
+    .filter(candidate => candidate.id !== productId)
+    .map(candidate => {
+      const text = cosine(own, index.vectors.get(candidate.id)!)
+      const price = priceSimilarity(product.price, candidate.price)
+      return { id: candidate.id, text, score: TEXT_WEIGHT * text + PRICE_WEIGHT * price }
+    })
+    .filter(candidate => candidate.text >= MIN_TEXT_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ id, score }) => ({
+      id,
+      score: Math.round(score * 1000) / 1000,
+      reason: explain(index, productId, id),
+    }))
+}
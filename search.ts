@@ -0,0 +1,403 @@
+/**
+ * Full-Text Search for E-Commerce Concierge
+ * A tokenized inverted index over the catalog with BM25 relevance scoring,
+ * per-field boosts (title over category over description) and typo-tolerant
+ * matching by edit distance, plus prefix autocomplete and "did you mean"
+ * spelling suggestions drawn from the same catalog.
+ */
+
+import { mockData } from "./data"
+import { categoryPath, formatCategoryPath, isInCategory } from "./categories"
+import type { SearchResult } from "./tools"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type SearchField = 'title' | 'category' | 'description'
+
+/**
+ * A product's relevance to a query
+ */
+export type SearchHit = {
+  id: string
+  score: number
+}
+
+/**
+ * A query term and how much a match on it counts (fuzzy matches count less).
+ * With `categoryId` set it only counts for products in that category.
+ */
+type WeightedTerm = {
+  term: string
+  weight: number
+  categoryId?: string
+}
+
+/**
+ * A term related to the query (e.g. a synonym) that adds to the score at
+ * `weight`, optionally only for products in one category
+ */
+export type RelatedTerm = {
+  term: string
+  weight: number
+  categoryId?: string
+}
+
+/**
+ * One product containing a term, with how often it appears in each field
+ */
+type Posting = {
+  id: string
+  frequencies: Partial<Record<SearchField, number>>
+}
+
+type SearchIndex = {
+  source: SearchResult[] // Catalog the index was built from
+  postings: Map<string, Posting[]> // Term -> products containing it
+  fieldLengths: Map<string, Record<SearchField, number>> // Product ID -> terms per field
+  averageLengths: Record<SearchField, number>
+  documentCount: number
+  vocabulary: Map<string, number> // Catalog words as written (unstemmed) -> occurrences
+  completions: string[] // Titles, brands and category names
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * How much a term match in each field counts relative to the description
+ */
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  category: 2,
+  description: 1,
+}
+
+// BM25 term-frequency saturation and length normalization
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+/**
+ * Weight of a term reached by prefix ("head" -> "headphone") rather than exactly
+ */
+const PREFIX_MATCH_WEIGHT = 0.8
+
+/**
+ * Weight lost per edit for a fuzzy match
+ */
+const FUZZY_PENALTY_PER_EDIT = 0.25
+
+/**
+ * Most autocomplete candidates offered at once
+ */
+const MAX_COMPLETIONS = 10
+
+/**
+ * Most "did you mean" alternatives offered for an empty search
+ */
+const MAX_SUGGESTIONS = 3
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'for', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'the', 'to', 'with',
+])
+
+// ============================================================================
+// TEXT PROCESSING
+// ============================================================================
+
+/**
+ * Split text into normalized search terms: lowercase, alphanumeric runs,
+ * no stopwords or single letters (the "c" of "USB-C"), plural "s" removed
+ * so "boots" matches "boot"
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem)
+}
+
+/**
+ * Minimal plural stemming; short words and "-ss" endings are left alone
+ */
+function stem(token: string): string {
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1)
+  }
+  return token
+}
+
+/**
+ * Edit distance between two terms, counting a swap of adjacent letters
+ * ("haedphone") as one edit
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  return d[a.length][b.length]
+}
+
+function sharedPrefixLength(a: string, b: string): number {
+  let i = 0
+  while (i < a.length && i < b.length && a[i] === b[i]) i++
+  return i
+}
+
+/**
+ * How many typos a query term may contain; short terms must match exactly
+ */
+function maxEdits(term: string): number {
+  if (term.length <= 3) return 0
+  if (term.length <= 7) return 1
+  return 2
+}
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+let cachedIndex: SearchIndex | null = null
+
+/**
+ * The index for the active catalog, rebuilt whenever the catalog is replaced
+ */
+function getIndex(): SearchIndex {
+  if (cachedIndex && cachedIndex.source === mockData.searchResults) {
+    return cachedIndex
+  }
+
+  const postings = new Map<string, Posting[]>()
+  const fieldLengths = new Map<string, Record<SearchField, number>>()
+  const vocabulary = new Map<string, number>()
+  const completions = new Map<string, string>() // Lowercase -> as written
+
+  for (const product of mockData.searchResults) {
+    const categoryId = mockData.productCategories[product.id]
+    const text: Record<SearchField, string> = {
+      title: product.title,
+      category: categoryId ? formatCategoryPath(categoryId) : '',
+      description: mockData.productDetails[product.id]?.description ?? '',
+    }
+    const fields: Record<SearchField, string[]> = {
+      title: tokenize(text.title),
+      category: tokenize(text.category),
+      description: tokenize(text.description),
+    }
+
+    for (const word of Object.values(text).join(' ').toLowerCase().match(/[a-z][a-z0-9]+/g) ?? []) {
+      vocabulary.set(word, (vocabulary.get(word) ?? 0) + 1)
+    }
+    for (const phrase of [product.title, product.brand, ...(categoryId ? categoryPath(categoryId).map(c => c.name) : [])]) {
+      if (phrase) completions.set(phrase.toLowerCase(), phrase)
+    }
+
+    const productPostings = new Map<string, Posting>()
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const term of fields[field]) {
+        let posting = productPostings.get(term)
+        if (!posting) {
+          posting = { id: product.id, frequencies: {} }
+          productPostings.set(term, posting)
+        }
+        posting.frequencies[field] = (posting.frequencies[field] ?? 0) + 1
+      }
+    }
+
+    for (const [term, posting] of productPostings) {
+      postings.set(term, [...(postings.get(term) ?? []), posting])
+    }
+    fieldLengths.set(product.id, {
+      title: fields.title.length,
+      category: fields.category.length,
+      description: fields.description.length,
+    })
+  }
+
+  const documentCount = mockData.searchResults.length
+  const averageLengths = {} as Record<SearchField, number>
+  for (const field of Object.keys(FIELD_BOOSTS) as SearchField[]) {
+    const total = Array.from(fieldLengths.values()).reduce((sum, lengths) => sum + lengths[field], 0)
+    averageLengths[field] = documentCount > 0 ? total / documentCount : 0
+  }
+
+  cachedIndex = {
+    source: mockData.searchResults,
+    postings,
+    fieldLengths,
+    averageLengths,
+    documentCount,
+    vocabulary,
+    completions: Array.from(completions.values()).sort((a, b) => a.length - b.length || a.localeCompare(b)),
+  }
+  return cachedIndex
+}
+
+/**
+ * Index terms a query term can stand for: itself if indexed, otherwise
+ * terms it is a prefix of or within a few typos of
+ */
+function expandTerm(index: SearchIndex, term: string): WeightedTerm[] {
+  if (index.postings.has(term)) {
+    return [{ term, weight: 1 }]
+  }
+
+  const expansions: WeightedTerm[] = []
+  const limit = maxEdits(term)
+  for (const candidate of index.postings.keys()) {
+    if (term.length >= 4 && candidate.startsWith(term)) {
+      expansions.push({ term: candidate, weight: PREFIX_MATCH_WEIGHT })
+      continue
+    }
+    if (limit > 0 && Math.abs(candidate.length - term.length) <= limit) {
+      const distance = editDistance(term, candidate)
+      if (distance <= limit) {
+        expansions.push({ term: candidate, weight: 1 - FUZZY_PENALTY_PER_EDIT * distance })
+      }
+    }
+  }
+  return expansions
+}
+
+/**
+ * BM25 scores of every product containing a term, summed over boosted fields
+ */
+function scoreTerm(index: SearchIndex, term: string): Map<string, number> {
+  const scores = new Map<string, number>()
+  const postings = index.postings.get(term) ?? []
+  if (postings.length === 0) return scores
+
+  const idf = Math.log(1 + (index.documentCount - postings.length + 0.5) / (postings.length + 0.5))
+
+  for (const posting of postings) {
+    const lengths = index.fieldLengths.get(posting.id)!
+    let score = 0
+    for (const field of Object.keys(posting.frequencies) as SearchField[]) {
+      const tf = posting.frequencies[field]!
+      const lengthRatio = index.averageLengths[field] > 0 ? lengths[field] / index.averageLengths[field] : 1
+      const saturation = (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio))
+      score += FIELD_BOOSTS[field] * idf * saturation
+    }
+    scores.set(posting.id, score)
+  }
+  return scores
+}
+
+// ============================================================================
+// QUERYING
+// ============================================================================
+
+/**
+ * Rank catalog products against a query, best first.
+ * Each query term adds the score of its best-matching expansion, so a typo
+ * can't outscore the word it stands for. `relatedTerms` (e.g. synonyms)
+ * add to the score at their own weight.
+ */
+export function rankProducts(query: string, relatedTerms: RelatedTerm[] = []): SearchHit[] {
+  const index = getIndex()
+
+  const queryGroups = tokenize(query).map(term => expandTerm(index, term))
+
+  // One group per related term and scope, at the highest weight asked for
+  const related = new Map<string, WeightedTerm>()
+  for (const { term: phrase, weight, categoryId } of relatedTerms) {
+    for (const term of tokenize(phrase).filter(t => index.postings.has(t))) {
+      const key = `${term}|${categoryId ?? ''}`
+      if ((related.get(key)?.weight ?? 0) < weight) {
+        related.set(key, { term, weight, categoryId })
+      }
+    }
+  }
+  const relatedGroups = Array.from(related.values(), term => [term])
+  const groups = [...queryGroups, ...relatedGroups].filter(group => group.length > 0)
+
+  const totals = new Map<string, number>()
+  for (const group of groups) {
+    // Best expansion per product for this query term
+    const best = new Map<string, number>()
+    for (const { term, weight, categoryId } of group) {
+      for (const [id, score] of scoreTerm(index, term)) {
+        if (categoryId && !isInCategory(id, categoryId)) continue
+        best.set(id, Math.max(best.get(id) ?? 0, weight * score))
+      }
+    }
+    for (const [id, score] of best) {
+      totals.set(id, (totals.get(id) ?? 0) + score)
+    }
+  }
+
+  return Array.from(totals, ([id, score]) => ({ id, score: Math.round(score * 1000) / 1000 }))
+    .filter(hit => hit.score > 0)
+    .sort((a, b) => b.score - a.score)
+}
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+/**
+ * Titles, brands and category names starting with `prefix` (case-insensitive),
+ * shortest first
+ */
+export function completions(prefix: string, limit: number = MAX_COMPLETIONS): string[] {
+  const lower = prefix.trimStart().toLowerCase()
+  if (!lower) return []
+  return getIndex().completions
+    .filter(candidate => candidate.toLowerCase().startsWith(lower))
+    .slice(0, limit)
+}
+
+/**
+ * Respellings of a query using catalog words, for searches that found
+ * nothing ("hedphones" -> "headphones"). Allows one edit more than search
+ * itself does. Empty when every word is already known or nothing is close.
+ */
+export function suggestSpelling(query: string): string[] {
+  const index = getIndex()
+  const words = query.toLowerCase().match(/[a-z0-9]+/g) ?? []
+
+  // Closest catalog words for each unknown word. Ties go to the longest shared
+  // start (typos tend to come later in a word), then the most common word.
+  const options = words.map(word => {
+    const known = tokenize(word).every(term => index.postings.has(term))
+    if (known || /^\d+$/.test(word)) return [word]
+
+    const limit = maxEdits(word) + 1
+    return Array.from(index.vocabulary)
+      .map(([candidate, count]) => ({
+        candidate,
+        count,
+        distance: editDistance(word, candidate),
+        shared: sharedPrefixLength(word, candidate),
+      }))
+      .filter(c => c.distance <= limit)
+      .sort((a, b) => a.distance - b.distance || b.shared - a.shared || b.count - a.count)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(c => c.candidate)
+  })
+
+  // Words with nothing close are kept as typed
+  const best = options.map((list, i) => list[0] ?? words[i])
+  if (best.every((word, i) => word === words[i])) return []
+
+  // Best respelling first, then ones that swap in a runner-up for a single word
+  const suggestions = [best.join(' ')]
+  options.forEach((list, i) => {
+    for (const alternative of list.slice(1)) {
+      suggestions.push(best.map((word, j) => (j === i ? alternative : word)).join(' '))
+    }
+  })
+  return Array.from(new Set(suggestions)).slice(0, MAX_SUGGESTIONS)
+}
@@ -0,0 +1,106 @@
+/**
+ * Shopper Sessions for E-Commerce Concierge
+ * Keeps each user's cart, wishlist, orders, profile, addresses, wallet and conversation separate
+ */
+
+import { getStorage, ShoppingState, DEFAULT_USER_ID } from "./storage"
+import type { FilterOptions, PageInfo } from "./tools"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * The product the shopper is currently talking about ("add it to my cart")
+ */
+export type ProductContext = {
+  productId: string
+  title: string
+}
+
+/**
+ * The last search shown, so "more" / "next page" can continue it
+ */
+export type SearchContext = {
+  searchTerm: string
+  filters?: FilterOptions
+  page: PageInfo
+}
+
+/**
+ * Everything the agent and tools need to serve one shopper.
+ * Shopping state is persisted; conversation state lives only in memory.
+ */
+export type Session = ShoppingState & {
+  userId: string
+  conversationHistory: string[]
+  productContext: ProductContext | null
+  searchContext: SearchContext | null
+}
+
+// ============================================================================
+// SESSION LIFECYCLE
+// ============================================================================
+
+/**
+ * Load a user's persisted shopping state into a new session
+ */
+export async function openSession(userId: string = DEFAULT_USER_ID): Promise<Session> {
+  const state = await getStorage().loadUser(userId)
+  return {
+    ...state,
+    userId,
+    conversationHistory: [],
+    productContext: null,
+    searchContext: null,
+  }
+}
+
+/**
+ * Persist the shopping state of a session
+ */
+export async function saveSession(session: Session): Promise<void> {
+  const state: ShoppingState = {
+    cart: session.cart,
+    wishlist: session.wishlist,
+    orders: session.orders,
+    profile: session.profile,
+    addressBook: session.addressBook,
+    wallet: session.wallet,
+  }
+  await getStorage().saveUser(session.userId, state)
+}
+
+/**
+ * Keeps one live session per user so concurrent shoppers never share state
+ */
+export class SessionManager {
+  private sessions = new Map<string, Promise<Session>>()
+
+  /**
+   * Get the session for a user, opening it on first use
+   */
+  get(userId: string): Promise<Session> {
+    let session = this.sessions.get(userId)
+    if (!session) {
+      session = openSession(userId)
+      this.sessions.set(userId, session)
+      session.catch(() => this.sessions.delete(userId))
+    }
+    return session
+  }
+
+  /**
+   * Drop a user's live session (persisted state is kept)
+   */
+  end(userId: string): void {
+    this.sessions.delete(userId)
+  }
+
+  /**
+   * IDs of users with a live session
+   */
+  activeUsers(): string[] {
+    return Array.from(this.sessions.keys())
+  }
+}
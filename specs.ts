@@ -0,0 +1,187 @@
+/**
+ * Product Specifications for E-Commerce Concierge
+ * Typed spec attributes (wattage, data rate, weight, ...) and a comparison
+ * that lines them up across products and marks the best value per row.
+ */
+
+import type { ProductDetails } from "./tools"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * How a spec is typed and compared.
+ * `better` says which way wins; specs without it (e.g. cable length) are
+ * shown but never highlighted. For yes/no specs "higher" means yes wins.
+ */
+export type SpecDefinition = {
+  label: string
+  type: 'number' | 'boolean' | 'text'
+  unit?: string
+  better?: 'higher' | 'lower'
+}
+
+export type SpecValue = number | boolean | string
+
+/**
+ * One row of a comparison: a value per product (null when it doesn't apply)
+ */
+export type ComparisonRow = {
+  key: string
+  label: string
+  values: Array<string | null> // Formatted for display, in product order
+  best: number[] // Indexes of the products with the best value
+}
+
+export type ProductComparison = {
+  products: ProductDetails[]
+  rows: ComparisonRow[]
+}
+
+// ============================================================================
+// SPEC DEFINITIONS
+// ============================================================================
+
+export const SPEC_DEFINITIONS = {
+  // Cables & charging
+  chargingPower: { label: 'Charging power', type: 'number', unit: 'W', better: 'higher' },
+  dataRate: { label: 'Data rate', type: 'number', unit: 'Gbps', better: 'higher' },
+  videoOutput: { label: 'Video output', type: 'text' },
+  length: { label: 'Length', type: 'number', unit: 'm' },
+  braided: { label: 'Braided', type: 'boolean', better: 'higher' },
+  bendLifespan: { label: 'Bend lifespan', type: 'number', unit: 'bends', better: 'higher' },
+
+  // Audio & devices
+  noiseCancelling: { label: 'Noise cancelling', type: 'boolean', better: 'higher' },
+  batteryLife: { label: 'Battery life', type: 'number', unit: 'h', better: 'higher' },
+  microphones: { label: 'Microphones', type: 'number', better: 'higher' },
+  maxDevices: { label: 'Paired devices', type: 'number', better: 'higher' },
+  connectivity: { label: 'Connectivity', type: 'text' },
+  voiceAssistant: { label: 'Voice assistant', type: 'text' },
+  dpi: { label: 'Sensor', type: 'number', unit: 'DPI', better: 'higher' },
+  switches: { label: 'Switches', type: 'text' },
+  layout: { label: 'Layout', type: 'text' },
+
+  // Footwear & outdoor
+  waterproof: { label: 'Waterproof', type: 'boolean', better: 'higher' },
+  membrane: { label: 'Membrane', type: 'text' },
+  shaftHeight: { label: 'Shaft height', type: 'text' },
+  minTemperature: { label: 'Rated to', type: 'number', unit: '°C', better: 'lower' },
+
+  // Compatibility (see compatibility.ts)
+  port: { label: 'Charging port', type: 'text' },
+  connectors: { label: 'Connectors', type: 'text' },
+  platforms: { label: 'Works with', type: 'text' },
+  limitedPlatforms: { label: 'Limited support', type: 'text' },
+
+  // General
+  weight: { label: 'Weight', type: 'number', unit: 'g', better: 'lower' },
+} satisfies Record<string, SpecDefinition>
+
+export type SpecKey = keyof typeof SPEC_DEFINITIONS
+
+export type ProductSpecs = Partial<Record<SpecKey, SpecValue>>
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+export function isSpecKey(key: string): key is SpecKey {
+  return key in SPEC_DEFINITIONS
+}
+
+/**
+ * Convert a raw value (e.g. a CSV cell) to the spec's type
+ */
+export function parseSpecValue(key: SpecKey, raw: unknown): SpecValue {
+  const definition: SpecDefinition = SPEC_DEFINITIONS[key]
+  const text = String(raw).trim()
+
+  switch (definition.type) {
+    case 'number': {
+      const n = typeof raw === 'number' ? raw : Number(text)
+      if (text === '' || !Number.isFinite(n)) {
+        throw new Error(`spec ${key} must be a number (got "${text}")`)
+      }
+      return n
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw
+      if (/^(true|yes|y|1)$/i.test(text)) return true
+      if (/^(false|no|n|0)$/i.test(text)) return false
+      throw new Error(`spec ${key} must be yes or no (got "${text}")`)
+    }
+    default:
+      return text
+  }
+}
+
+/**
+ * Format a spec value for display, e.g. "100 W", "Yes", "25,000 bends"
+ */
+export function formatSpecValue(key: SpecKey, value: SpecValue): string {
+  const definition: SpecDefinition = SPEC_DEFINITIONS[key]
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'number') {
+    const number = value.toLocaleString('en-US')
+    return definition.unit ? `${number} ${definition.unit}` : number
+  }
+  return value
+}
+
+/**
+ * Indexes of the winning values, or none when there's nothing to choose
+ * between (fewer than two values, or all equal)
+ */
+function bestIndexes(values: Array<number | null>, better: 'higher' | 'lower'): number[] {
+  const present = values.filter((v): v is number => v !== null)
+  if (present.length < 2 || present.every(v => v === present[0])) return []
+
+  const target = better === 'higher' ? Math.max(...present) : Math.min(...present)
+  return values.flatMap((v, i) => (v === target ? [i] : []))
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Line up price, rating and every spec any of the products has.
+ * Rows follow SPEC_DEFINITIONS order so related specs stay together.
+ */
+export function compareSpecs(products: ProductDetails[]): ComparisonRow[] {
+  const rows: ComparisonRow[] = [
+    {
+      key: 'price',
+      label: 'Price',
+      values: products.map(p => `$${p.price.toFixed(2)}`),
+      best: bestIndexes(products.map(p => p.price), 'lower'),
+    },
+    {
+      key: 'rating',
+      label: 'Rating',
+      values: products.map(p => `${p.rating} (${p.numRatings.toLocaleString('en-US')})`),
+      best: bestIndexes(products.map(p => p.rating), 'higher'),
+    },
+  ]
+
+  for (const key of Object.keys(SPEC_DEFINITIONS) as SpecKey[]) {
+    const raw = products.map(p => p.specs?.[key] ?? null)
+    if (raw.every(v => v === null)) continue
+
+    const definition: SpecDefinition = SPEC_DEFINITIONS[key]
+    const comparable = definition.better && definition.type !== 'text'
+      ? raw.map(v => (v === null ? null : Number(v)))
+      : null
+
+    rows.push({
+      key,
+      label: definition.label,
+      values: raw.map(v => (v === null ? null : formatSpecValue(key, v))),
+      best: comparable ? bestIndexes(comparable, definition.better!) : [],
+    })
+  }
+
+  return rows
+}
@@ -0,0 +1,614 @@
+/**
+ * Persistent Storage for E-Commerce Concierge
+ * Pluggable backends that keep each shopper's cart, wishlist and orders across restarts
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import initSqlJs, { Database, QueryExecResult } from "sql.js"
+import type { AddressBook, Cart, Order, ShopperProfile, Wallet, Wishlist } from "./data"
+import type { InventoryState } from "./inventory"
+import type { PaymentsState } from "./payments"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Current version of the persisted state layout.
+ * Bump this and register a migration in MIGRATIONS whenever the shape changes.
+ */
+export const SCHEMA_VERSION = 9
+
+/**
+ * Shopping state persisted for a single user
+ */
+export type ShoppingState = {
+  cart: Cart
+  wishlist: Wishlist
+  orders: Order[]
+  profile: ShopperProfile
+  addressBook: AddressBook
+  wallet: Wallet
+}
+
+/**
+ * State shared by every shopper, keyed by the feature that owns it
+ */
+export type SharedState = {
+  inventory: InventoryState
+  payments: PaymentsState
+}
+
+/**
+ * Everything a storage backend holds: per-user state plus shared state
+ */
+export type StoredData = {
+  users: Record<string, ShoppingState>
+  shared: Partial<SharedState>
+}
+
+/**
+ * Contract every storage backend implements.
+ * `loadUser` always resolves to a usable state (an empty one for new users);
+ * `loadShared` resolves to undefined until the owning feature first saves.
+ */
+export interface StorageAdapter {
+  readonly name: string
+  loadUser(userId: string): Promise<ShoppingState>
+  saveUser(userId: string, state: ShoppingState): Promise<void>
+  listUsers(): Promise<string[]>
+  loadShared<K extends keyof SharedState>(key: K): Promise<SharedState[K] | undefined>
+  saveShared<K extends keyof SharedState>(key: K, value: SharedState[K]): Promise<void>
+  close(): Promise<void>
+}
+
+export type StorageBackend = 'json' | 'sqlite'
+
+export type StorageConfig = {
+  backend: StorageBackend
+  dataDir: string
+}
+
+// ============================================================================
+// SCHEMA VERSIONING
+// ============================================================================
+
+/**
+ * User ID the single-shopper state from schema v1 is assigned to
+ */
+export const DEFAULT_USER_ID = 'default'
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Each one receives the raw state of that version and returns the next version.
+ */
+const MIGRATIONS: Record<number, (state: unknown) => unknown> = {
+  // v1 stored a single global shopper; it becomes the default user
+  1: (state) => ({ users: { [DEFAULT_USER_ID]: state } }),
+  // v2 had no shared state
+  2: (data) => ({ ...(data as object), shared: {} }),
+  // v3 keyed cart lines, order lines and reservations by product ID only
+  3: (data) => migrateToSkus(data as V3Data),
+  // v4 had no shopper profile
+  4: (data) => addProfiles(data as StoredData),
+  // v5 carts had no coupons
+  5: (data) => addCoupons(data as StoredData),
+  // v6 had no address book
+  6: (data) => addAddressBooks(data as StoredData),
+  // v7 had no wallet
+  7: (data) => addWallets(data as StoredData),
+  // v8 orders had no status history
+  8: (data) => addOrderHistory(data as StoredData),
+}
+
+type V3Data = {
+  users: Record<string, { cart?: { items: Array<{ productId: string }> }; orders?: Array<{ items: Array<{ productId: string }> }> }>
+  shared: { inventory?: { stock: Record<string, number>; reservations: Array<{ productId: string }> } }
+}
+
+/**
+ * Give every line a SKU (the product ID, since v3 had no variants)
+ */
+function migrateToSkus(data: V3Data): unknown {
+  const withSku = <T extends { productId: string }>(line: T) => ({ ...line, sku: line.productId })
+
+  const users: Record<string, unknown> = {}
+  for (const [userId, state] of Object.entries(data.users)) {
+    users[userId] = {
+      ...state,
+      ...(state.cart && { cart: { ...state.cart, items: state.cart.items.map(withSku) } }),
+      ...(state.orders && { orders: state.orders.map(order => ({ ...order, items: order.items.map(withSku) })) }),
+    }
+  }
+
+  const inventory = data.shared.inventory
+  const shared = inventory
+    ? {
+      ...data.shared,
+      inventory: {
+        ...inventory,
+        reservations: inventory.reservations.map(({ productId, ...rest }) => ({ ...rest, sku: productId })),
+      },
+    }
+    : data.shared
+
+  return { users, shared }
+}
+
+/**
+ * Start every existing shopper with an empty profile
+ */
+function addProfiles(data: StoredData): unknown {
+  const users: Record<string, unknown> = {}
+  for (const [userId, state] of Object.entries(data.users)) {
+    users[userId] = { ...state, profile: { viewed: [], dismissed: [] } }
+  }
+  return { ...data, users }
+}
+
+/**
+ * Start every existing cart with no coupons applied
+ */
+function addCoupons(data: StoredData): unknown {
+  const users: Record<string, unknown> = {}
+  for (const [userId, state] of Object.entries(data.users)) {
+    users[userId] = state.cart ? { ...state, cart: { ...state.cart, coupons: [] } } : state
+  }
+  return { ...data, users }
+}
+
+/**
+ * Start every existing shopper with no saved addresses
+ */
+function addAddressBooks(data: StoredData): unknown {
+  const users: Record<string, unknown> = {}
+  for (const [userId, state] of Object.entries(data.users)) {
+    users[userId] = { ...state, addressBook: { addresses: [] } }
+  }
+  return { ...data, users }
+}
+
+/**
+ * Start every existing shopper with no saved payment methods
+ */
+function addWallets(data: StoredData): unknown {
+  const users: Record<string, unknown> = {}
+  for (const [userId, state] of Object.entries(data.users)) {
+    users[userId] = { ...state, wallet: { methods: [] } }
+  }
+  return { ...data, users }
+}
+
+/**
+ * Give every existing order a history holding its current status, dated
+ * the day it was placed
+ */
+function addOrderHistory(data: StoredData): unknown {
+  const users: Record<string, unknown> = {}
+  for (const [userId, state] of Object.entries(data.users)) {
+    users[userId] = state.orders ? {
+      ...state,
+      orders: state.orders.map(order => ({
+        ...order,
+        history: [{ status: order.status, at: new Date(order.orderDate).toISOString() }],
+      })),
+    } : state
+  }
+  return { ...data, users }
+}
+
+/**
+ * Create a fresh, empty shopping state
+ */
+export function emptyState(): ShoppingState {
+  return {
+    cart: { items: [], total: 0, coupons: [] },
+    wishlist: { items: [] },
+    orders: [],
+    profile: { viewed: [], dismissed: [] },
+    addressBook: { addresses: [] },
+    wallet: { methods: [] },
+  }
+}
+
+/**
+ * Bring persisted state up to the current schema version
+ */
+function migrate(state: unknown, fromVersion: number): StoredData {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Stored data uses schema version ${fromVersion}, but this build only understands up to ${SCHEMA_VERSION}`
+    )
+  }
+
+  let current = state
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version]
+    if (!step) {
+      throw new Error(`No migration registered from schema version ${version}`)
+    }
+    current = step(current)
+  }
+
+  const data = current as Partial<StoredData>
+  const users: Record<string, ShoppingState> = {}
+  for (const [userId, userState] of Object.entries(data.users ?? {})) {
+    users[userId] = { ...emptyState(), ...userState }
+  }
+  return { users, shared: data.shared ?? {} }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Write a file atomically: write to a temp file next to it, then rename over.
+ * A crash mid-write leaves the previous file intact.
+ */
+async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  try {
+    await fs.promises.writeFile(tempPath, data)
+    await fs.promises.rename(tempPath, filePath)
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true })
+    throw error
+  }
+}
+
+/**
+ * Deep-copy stored state so callers never share objects with the cache
+ */
+function cloneState<T>(state: T): T {
+  return JSON.parse(JSON.stringify(state))
+}
+
+/**
+ * Turn a two-column (key, JSON value) query result into an object
+ */
+function rowsToObject(result: QueryExecResult[]): Record<string, unknown> {
+  const object: Record<string, unknown> = {}
+  for (const [key, value] of result[0]?.values ?? []) {
+    object[String(key)] = JSON.parse(String(value))
+  }
+  return object
+}
+
+// ============================================================================
+// JSON FILE ADAPTER
+// ============================================================================
+
+type JsonStateFile = {
+  schemaVersion: number
+  updatedAt: string
+  state: unknown
+}
+
+/**
+ * Stores every user's shopping state in a single JSON document.
+ * The document is cached in memory and writes are queued so concurrent
+ * saves from different sessions never overwrite each other.
+ */
+export class JsonFileStorage implements StorageAdapter {
+  readonly name = 'json'
+  private data: Promise<StoredData> | null = null
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Read the document from disk on first use
+   */
+  private read(): Promise<StoredData> {
+    if (!this.data) {
+      this.data = this.readFile()
+      this.data.catch(() => { this.data = null })
+    }
+    return this.data
+  }
+
+  private async readFile(): Promise<StoredData> {
+    let raw: string
+    try {
+      raw = await fs.promises.readFile(this.filePath, 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      return { users: {}, shared: {} }
+    }
+
+    let file: JsonStateFile
+    try {
+      file = JSON.parse(raw)
+    } catch {
+      throw new Error(`Storage file "${this.filePath}" is not valid JSON`)
+    }
+
+    return migrate(file.state, file.schemaVersion ?? 1)
+  }
+
+  async loadUser(userId: string): Promise<ShoppingState> {
+    const data = await this.read()
+    const state = data.users[userId]
+    return state ? cloneState(state) : emptyState()
+  }
+
+  async saveUser(userId: string, state: ShoppingState): Promise<void> {
+    const data = await this.read()
+    data.users[userId] = cloneState(state)
+    await this.flush(data)
+  }
+
+  async listUsers(): Promise<string[]> {
+    const data = await this.read()
+    return Object.keys(data.users)
+  }
+
+  async loadShared<K extends keyof SharedState>(key: K): Promise<SharedState[K] | undefined> {
+    const data = await this.read()
+    const value = data.shared[key]
+    return value === undefined ? undefined : cloneState(value)
+  }
+
+  async saveShared<K extends keyof SharedState>(key: K, value: SharedState[K]): Promise<void> {
+    const data = await this.read()
+    data.shared[key] = cloneState(value)
+    await this.flush(data)
+  }
+
+  /**
+   * Queue a write of the whole document to disk
+   */
+  private async flush(data: StoredData): Promise<void> {
+    const write = this.writeQueue.then(() => {
+      const file: JsonStateFile = {
+        schemaVersion: SCHEMA_VERSION,
+        updatedAt: new Date().toISOString(),
+        state: data,
+      }
+      return writeFileAtomic(this.filePath, JSON.stringify(file, null, 2))
+    })
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.catch(() => undefined)
+    await write
+  }
+
+  async close(): Promise<void> {
+    await this.writeQueue
+    this.data = null
+  }
+}
+
+// ============================================================================
+// SQLITE ADAPTER
+// ============================================================================
+
+/**
+ * Stores shopping state in an embedded SQLite database file.
+ * Each user is a row in the `users` table; the schema version lives in
+ * `meta`. Saves run in a transaction and the database image is then
+ * written to disk atomically.
+ */
+export class SqliteStorage implements StorageAdapter {
+  readonly name = 'sqlite'
+  private db: Promise<Database> | null = null
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Open the database file (or create an empty one) on first use
+   */
+  private open(): Promise<Database> {
+    if (!this.db) {
+      this.db = this.openFile()
+      this.db.catch(() => { this.db = null })
+    }
+    return this.db
+  }
+
+  private async openFile(): Promise<Database> {
+    const SQL = await initSqlJs()
+    let db: Database
+    try {
+      db = new SQL.Database(await fs.promises.readFile(this.filePath))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      db = new SQL.Database()
+    }
+
+    db.run(`CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)`)
+    this.upgrade(db)
+    return db
+  }
+
+  /**
+   * Create the tables of the current schema
+   */
+  private createTables(db: Database): void {
+    db.run(`CREATE TABLE IF NOT EXISTS users (user_id TEXT PRIMARY KEY, state TEXT NOT NULL)`)
+    db.run(`CREATE TABLE IF NOT EXISTS shared (key TEXT PRIMARY KEY, value TEXT NOT NULL)`)
+  }
+
+  /**
+   * Read an older database file into the document shape of its version
+   */
+  private readDocument(db: Database, version: number): unknown {
+    // v1 kept one row per collection in `state`
+    if (version === 1) {
+      return rowsToObject(db.exec(`SELECT key, value FROM state`))
+    }
+    const users = rowsToObject(db.exec(`SELECT user_id, state FROM users`))
+    // v2 had no `shared` table
+    if (version === 2) {
+      return { users }
+    }
+    return { users, shared: rowsToObject(db.exec(`SELECT key, value FROM shared`)) }
+  }
+
+  /**
+   * Upgrade an older database file to the current schema in place
+   */
+  private upgrade(db: Database): void {
+    const versionRows = db.exec(`SELECT value FROM meta WHERE key = 'schema_version'`)
+    const version = versionRows.length > 0 ? Number(versionRows[0].values[0][0]) : SCHEMA_VERSION
+
+    if (version === SCHEMA_VERSION) {
+      this.createTables(db)
+      return
+    }
+
+    const data = migrate(this.readDocument(db, version), version)
+
+    db.run('BEGIN TRANSACTION')
+    try {
+      db.run(`DROP TABLE IF EXISTS state`)
+      this.createTables(db)
+      db.run(`DELETE FROM users`)
+      for (const [userId, state] of Object.entries(data.users)) {
+        db.run(`INSERT INTO users (user_id, state) VALUES (?, ?)`, [userId, JSON.stringify(state)])
+      }
+      for (const [key, value] of Object.entries(data.shared)) {
+        db.run(`INSERT OR REPLACE INTO shared (key, value) VALUES (?, ?)`, [key, JSON.stringify(value)])
+      }
+      db.run(`INSERT OR REPLACE INTO meta (key, value) VALUES ('schema_version', ?)`, [String(SCHEMA_VERSION)])
+      db.run('COMMIT')
+    } catch (error) {
+      db.run('ROLLBACK')
+      throw error
+    }
+  }
+
+  async loadUser(userId: string): Promise<ShoppingState> {
+    const db = await this.open()
+
+    const rows = db.exec(`SELECT state FROM users WHERE user_id = ?`, [userId])
+    if (rows.length === 0) {
+      return emptyState()
+    }
+    return { ...emptyState(), ...JSON.parse(String(rows[0].values[0][0])) }
+  }
+
+  async saveUser(userId: string, state: ShoppingState): Promise<void> {
+    const db = await this.open()
+    this.upsert(db, `INSERT OR REPLACE INTO users (user_id, state) VALUES (?, ?)`, userId, state)
+    await this.flush(db)
+  }
+
+  async listUsers(): Promise<string[]> {
+    const db = await this.open()
+    const rows = db.exec(`SELECT user_id FROM users ORDER BY user_id`)
+    return (rows[0]?.values ?? []).map(([userId]) => String(userId))
+  }
+
+  async loadShared<K extends keyof SharedState>(key: K): Promise<SharedState[K] | undefined> {
+    const db = await this.open()
+
+    const rows = db.exec(`SELECT value FROM shared WHERE key = ?`, [key])
+    if (rows.length === 0) {
+      return undefined
+    }
+    return JSON.parse(String(rows[0].values[0][0]))
+  }
+
+  async saveShared<K extends keyof SharedState>(key: K, value: SharedState[K]): Promise<void> {
+    const db = await this.open()
+    this.upsert(db, `INSERT OR REPLACE INTO shared (key, value) VALUES (?, ?)`, key, value)
+    await this.flush(db)
+  }
+
+  /**
+   * Write one JSON row and stamp the schema version in a single transaction
+   */
+  private upsert(db: Database, sql: string, key: string, value: unknown): void {
+    db.run('BEGIN TRANSACTION')
+    try {
+      db.run(`INSERT OR REPLACE INTO meta (key, value) VALUES ('schema_version', ?)`, [String(SCHEMA_VERSION)])
+      db.run(sql, [key, JSON.stringify(value)])
+      db.run('COMMIT')
+    } catch (error) {
+      db.run('ROLLBACK')
+      throw error
+    }
+  }
+
+  /**
+   * Queue a write of the database image to disk
+   */
+  private async flush(db: Database): Promise<void> {
+    const write = this.writeQueue.then(() => writeFileAtomic(this.filePath, db.export()))
+    this.writeQueue = write.catch(() => undefined)
+    await write
+  }
+
+  async close(): Promise<void> {
+    await this.writeQueue
+    if (this.db) {
+      const db = await this.db
+      db.close()
+      this.db = null
+    }
+  }
+}
+
+// ============================================================================
+// ACTIVE STORAGE
+// ============================================================================
+
+let activeStorage: StorageAdapter | null = null
+
+/**
+ * Read storage configuration from the environment
+ * CONCIERGE_STORAGE selects the backend, CONCIERGE_DATA_DIR the directory
+ */
+export function storageConfigFromEnv(): StorageConfig {
+  const backend = (process.env.CONCIERGE_STORAGE || 'json').toLowerCase()
+  if (backend !== 'json' && backend !== 'sqlite') {
+    throw new Error(`Unknown storage backend "${backend}". Use "json" or "sqlite".`)
+  }
+  return {
+    backend,
+    dataDir: process.env.CONCIERGE_DATA_DIR || path.join(process.cwd(), '.concierge'),
+  }
+}
+
+/**
+ * Create a storage adapter for the given configuration
+ */
+export function createStorage(config: StorageConfig): StorageAdapter {
+  switch (config.backend) {
+    case 'json':
+      return new JsonFileStorage(path.join(config.dataDir, 'state.json'))
+    case 'sqlite':
+      return new SqliteStorage(path.join(config.dataDir, 'state.sqlite'))
+  }
+}
+
+/**
+ * Get the active storage adapter, creating it from the environment on first use
+ */
+export function getStorage(): StorageAdapter {
+  if (!activeStorage) {
+    activeStorage = createStorage(storageConfigFromEnv())
+  }
+  return activeStorage
+}
+
+/**
+ * Replace the active storage adapter (e.g. to use a different backend)
+ */
+export function setStorage(adapter: StorageAdapter): void {
+  activeStorage = adapter
+}
+
+/**
+ * Release the active storage adapter
+ */
+export async function closeStorage(): Promise<void> {
+  if (activeStorage) {
+    await activeStorage.close()
+    activeStorage = null
+  }
+}
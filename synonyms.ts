@@ -0,0 +1,268 @@
+/**
+ * Search Synonyms for E-Commerce Concierge
+ * Loads the synonym dictionary (synonyms.json by default) that expands search
+ * queries with related terms. The file is checked for changes on every
+ * lookup, so edits apply without a restart.
+ */
+
+import * as fs from "fs/promises"
+import * as path from "path"
+import { findCategory } from "./categories"
+import { tokenize } from "./search"
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One entry of the synonym file. Either a two-way group whose terms all
+ * stand for each other, or a one-way rule where `from` expands to `to` but
+ * not the reverse. Terms may be phrases ("noise cancelling"). `category`
+ * limits the expansion to products in that category; `weight` (0-1] is how
+ * much an expanded term counts compared to the shopper's own words.
+ */
+export type SynonymRule =
+  | { terms: string[]; category?: string; weight?: number }
+  | { from: string | string[]; to: string[]; category?: string; weight?: number }
+
+export type SynonymFile = {
+  version: number
+  synonyms: SynonymRule[]
+}
+
+/**
+ * A term added to a query, and the query phrase that triggered it
+ */
+export type Expansion = {
+  trigger: string
+  term: string
+  weight: number
+  categoryId?: string
+}
+
+/**
+ * The active dictionary and where it came from. `error` is set when the file
+ * couldn't be (re)loaded; the last good rules stay in use.
+ */
+export type SynonymDictionary = {
+  source: string
+  version: number
+  ruleCount: number // Entries in the file
+  error?: string
+}
+
+/**
+ * A rule flattened to "these tokens expand to those terms"
+ */
+type CompiledRule = {
+  trigger: string
+  tokens: string[]
+  expansions: string[]
+  weight: number
+  categoryId?: string
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Synonym file layout this code understands
+ */
+export const SYNONYMS_VERSION = 1
+
+/**
+ * Weight of an expanded term when its rule doesn't set one
+ */
+const DEFAULT_WEIGHT = 0.5
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+let state: {
+  source: string
+  modified: number // mtime of the file the rules came from
+  version: number
+  ruleCount: number
+  rules: CompiledRule[]
+  error?: string
+} | null = null
+
+/**
+ * The synonym file: CONCIERGE_SYNONYMS, or the synonyms.json shipped next to
+ * this module (so it is found whatever directory the app starts in)
+ */
+function synonymsPath(): string {
+  return process.env.CONCIERGE_SYNONYMS || path.join(__dirname, 'synonyms.json')
+}
+
+/**
+ * Validate a parsed synonym file and flatten its rules
+ */
+function compileSynonyms(file: unknown): CompiledRule[] {
+  if (typeof file !== 'object' || file === null || Array.isArray(file)) {
+    throw new Error('expected an object with "version" and "synonyms"')
+  }
+  const { version, synonyms } = file as Partial<SynonymFile>
+  if (version !== SYNONYMS_VERSION) {
+    throw new Error(`unsupported version ${JSON.stringify(version)} (expected ${SYNONYMS_VERSION})`)
+  }
+  if (!Array.isArray(synonyms)) {
+    throw new Error('"synonyms" must be a list')
+  }
+
+  return synonyms.flatMap((rule, i) => {
+    try {
+      return compileRule(rule)
+    } catch (error) {
+      throw new Error(`synonym ${i + 1}: ${error instanceof Error ? error.message : error}`)
+    }
+  })
+}
+
+function compileRule(rule: SynonymRule): CompiledRule[] {
+  const phrases = (value: unknown, field: string): string[] => {
+    const list = Array.isArray(value) ? value : [value]
+    if (list.length === 0 || list.some(p => typeof p !== 'string' || tokenize(p).length === 0)) {
+      throw new Error(`"${field}" must be a word or phrase, or a list of them`)
+    }
+    return list.map(p => p.trim())
+  }
+
+  const weight = rule.weight ?? DEFAULT_WEIGHT
+  if (typeof weight !== 'number' || weight <= 0 || weight > 1) {
+    throw new Error(`"weight" must be above 0 and at most 1`)
+  }
+
+  let categoryId: string | undefined
+  if (rule.category !== undefined) {
+    const category = findCategory(rule.category)
+    if (!category) throw new Error(`unknown category "${rule.category}"`)
+    categoryId = category.id
+  }
+
+  const compile = (trigger: string, expansions: string[]): CompiledRule => ({
+    trigger, tokens: tokenize(trigger), expansions, weight, categoryId,
+  })
+
+  if ('terms' in rule) {
+    const terms = phrases(rule.terms, 'terms')
+    if (terms.length < 2) throw new Error('"terms" needs at least two entries')
+    return terms.map(term => compile(term, terms.filter(other => other !== term)))
+  }
+  if ('from' in rule && 'to' in rule) {
+    const to = phrases(rule.to, 'to')
+    return phrases(rule.from, 'from').map(from => compile(from, to))
+  }
+  throw new Error('needs either "terms" (two-way) or "from" and "to" (one-way)')
+}
+
+/**
+ * The rules currently in use, to fall back on when a reload fails
+ */
+function lastGood(source: string) {
+  return {
+    source,
+    version: state?.version ?? SYNONYMS_VERSION,
+    ruleCount: state?.ruleCount ?? 0,
+    rules: state?.rules ?? [],
+  }
+}
+
+/**
+ * Read the synonym file if it changed since the last look. A broken file
+ * keeps the previous rules and records the error.
+ */
+async function refresh(): Promise<NonNullable<typeof state>> {
+  const source = synonymsPath()
+  if (state && state.source !== source) state = null
+
+  let modified: number
+  try {
+    modified = (await fs.stat(source)).mtimeMs
+  } catch {
+    state = { ...lastGood(source), modified: 0, error: `${source} not found` }
+    return state
+  }
+  if (state && state.modified === modified) return state
+
+  try {
+    const file = JSON.parse(await fs.readFile(source, 'utf-8'))
+    const rules = compileSynonyms(file)
+    state = { source, modified, version: file.version, ruleCount: file.synonyms.length, rules }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    // Remember the mtime so a broken file isn't re-read on every search
+    state = { ...lastGood(source), modified, error: `${path.basename(source)}: ${message}` }
+  }
+  return state
+}
+
+/**
+ * The active synonym dictionary, reloading it first if the file changed
+ */
+export async function loadSynonyms(): Promise<SynonymDictionary> {
+  const { source, version, ruleCount, error } = await refresh()
+  return { source, version, ruleCount, error }
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+/**
+ * Whether `tokens` appear in `query` as a contiguous run
+ */
+function containsPhrase(query: string[], tokens: string[]): boolean {
+  for (let i = 0; i + tokens.length <= query.length; i++) {
+    if (tokens.every((token, j) => query[i + j] === token)) return true
+  }
+  return false
+}
+
+/**
+ * Terms to add to a query, one per rule and expanded term
+ */
+export async function expandQuery(query: string): Promise<Expansion[]> {
+  const { rules } = await refresh()
+  const queryTokens = tokenize(query)
+
+  return rules
+    .filter(rule => containsPhrase(queryTokens, rule.tokens))
+    .flatMap(rule => rule.expansions.map(term => ({
+      trigger: rule.trigger,
+      term,
+      weight: rule.weight,
+      categoryId: rule.categoryId,
+    })))
+}
+
+// ============================================================================
+// COMMAND LINE - npm run synonyms -- "<query>"
+// ============================================================================
+
+if (require.main === module) {
+  const query = process.argv.slice(2).join(' ')
+
+  Promise.all([loadSynonyms(), expandQuery(query)])
+    .then(([dictionary, expansions]) => {
+      console.log(`${dictionary.source} (version ${dictionary.version}, ${dictionary.ruleCount} synonym entries)`)
+      if (dictionary.error) {
+        console.log(`  Error: ${dictionary.error}`)
+        process.exitCode = 1
+      }
+      if (!query) return
+      if (expansions.length === 0) {
+        console.log(`  No synonyms apply to "${query}"`)
+      }
+      for (const e of expansions) {
+        const scope = e.categoryId ? ` in ${e.categoryId}` : ''
+        console.log(`  ${e.trigger} -> ${e.term} (x${e.weight}${scope})`)
+      }
+    })
+    .catch((error) => {
+      console.error(`Synonym lookup failed: ${error.message}`)
+      process.exit(1)
+    })
+}
@@ -0,0 +1,119 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { deleteAddress, formatAddress, requireAddress, saveAddress } from "../addresses"
+import type { AddressBook } from "../data"
+import { addBusinessDays, today } from "../delivery"
+import { saveCard } from "../payments"
+import { estimateDelivery } from "../pricing"
+import { openSession } from "../session"
+import {
+  addAddress, addToCart, checkout, getDeliveryOptions, removeAddress, setDefaultAddress, viewAddresses,
+} from "../tools"
+
+const HOME = { name: 'Ana Diaz', line1: '12 Main St', line2: 'Apt 4', city: 'Austin', region: 'texas', postalCode: '78701' }
+const WORK = { name: 'Ana Diaz', line1: '1 Office Park', city: 'London', region: 'GB', postalCode: 'ec1a 1bb' }
+
+describe('address book', () => {
+  it('validates and normalizes addresses, making the first the default', () => {
+    const book: AddressBook = { addresses: [] }
+    const home = saveAddress(book, HOME)
+    const work = saveAddress(book, WORK)
+
+    assert.deepEqual([home.id, home.region, work.id, work.postalCode], ['addr-1', 'US-TX', 'addr-2', 'EC1A 1BB'])
+    assert.equal(book.defaultId, 'addr-1')
+    assert.equal(formatAddress(home), 'Ana Diaz, 12 Main St, Apt 4, Austin, Texas 78701')
+  })
+
+  it('refuses incomplete addresses and regions the store doesn\'t ship to', () => {
+    const book: AddressBook = { addresses: [] }
+    assert.throws(() => saveAddress(book, { ...HOME, line1: ' ', postalCode: '' }), /An address needs a street address, postal code/)
+    assert.throws(() => saveAddress(book, { ...HOME, region: 'Mars' }), /We don't ship to "Mars"/)
+    assert.equal(book.addresses.length, 0)
+  })
+
+  it('finds addresses by ID or the default, and moves the default on delete', () => {
+    const book: AddressBook = { addresses: [] }
+    assert.throws(() => requireAddress(book), /You have no saved shipping address/)
+    saveAddress(book, HOME)
+    saveAddress(book, WORK)
+
+    assert.equal(requireAddress(book).id, 'addr-1')
+    assert.equal(requireAddress(book, 'ADDR-2').id, 'addr-2')
+    assert.throws(() => requireAddress(book, 'addr-9'), /Address "addr-9" not found/)
+
+    deleteAddress(book, 'addr-1')
+    assert.equal(book.defaultId, 'addr-2')
+    assert.equal(saveAddress(book, HOME).id, 'addr-3', 'IDs are never reused')
+  })
+})
+
+describe('estimateDelivery', () => {
+  it('counts business days per method, skipping the weekend', () => {
+    // Ordered on Friday 2026-10-16
+    assert.equal(estimateDelivery('pickup', undefined, '2026-10-16'), '2026-10-19')
+    assert.equal(estimateDelivery('express', 'US-NY', '2026-10-16'), '2026-10-20')
+    assert.equal(estimateDelivery('standard', 'US-NY', '2026-10-16'), '2026-10-23')
+    assert.equal(estimateDelivery('standard', 'US-NY', '2026-10-17'), '2026-10-23', 'Saturday orders count from Monday')
+  })
+
+  it('adds three business days for international orders', () => {
+    assert.equal(estimateDelivery('standard', 'GB', '2026-10-16'), '2026-10-28')
+    assert.equal(estimateDelivery('express', 'Germany', '2026-10-16'), '2026-10-23')
+  })
+
+  it('refuses regions the store doesn\'t ship to', () => {
+    assert.throws(() => estimateDelivery('standard', 'Mars', '2026-10-16'), /We don't ship to "Mars"/)
+  })
+})
+
+describe('shipping to saved addresses', () => {
+  it('add, list default first, switch default and remove', async () => {
+    const session = await openSession('addresser')
+    const added = await addAddress(session, HOME)
+    assert.equal(added.message, 'Saved Ana Diaz, 12 Main St, Apt 4, Austin, Texas 78701 as your default address')
+    await addAddress(session, WORK, true)
+
+    assert.deepEqual((await viewAddresses(session)).map(a => [a.id, a.isDefault]), [['addr-2', true], ['addr-1', false]])
+    await setDefaultAddress(session, 'addr-1')
+    assert.equal(session.addressBook.defaultId, 'addr-1')
+    await removeAddress(session, 'addr-1')
+    assert.equal(session.addressBook.defaultId, 'addr-2')
+  })
+
+  it('price and date every delivery method for the cart', async () => {
+    const session = await openSession('options')
+    await assert.rejects(getDeliveryOptions(session), /Your cart is empty/)
+    await addToCart(session, 'LA001', 1)
+
+    const pickupOnly = await getDeliveryOptions(session)
+    assert.equal(pickupOnly.address, undefined)
+
+    await addAddress(session, WORK)
+    const { address, options } = await getDeliveryOptions(session)
+    assert.equal(address?.id, 'addr-1')
+    assert.deepEqual(options.map(o => [o.method, o.shippingCost]), [['standard', 20.99], ['express', 29.99], ['pickup', 0]])
+    assert.equal(options[0].estimatedDelivery, addBusinessDays(today(), 8))
+  })
+
+  it('record the address on the order, but not for pickup', async () => {
+    const session = await openSession('shipper')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+    await addAddress(session, HOME)
+    await addToCart(session, 'LA001', 1)
+    const shipped = await checkout(session)
+    assert.equal(shipped.shippingAddress?.city, 'Austin')
+    assert.equal(shipped.estimatedDelivery, addBusinessDays(today(), 5))
+
+    await addToCart(session, 'LA001', 1)
+    const picked = await checkout(session, { shippingMethod: 'pickup' })
+    assert.equal(picked.shippingAddress, undefined)
+    assert.equal(picked.estimatedDelivery, addBusinessDays(today(), 1))
+  })
+
+  it('refuse unknown delivery methods', async () => {
+    const session = await openSession('shipper')
+    await addToCart(session, 'LA001', 1)
+    await assert.rejects(checkout(session, { shippingMethod: 'drone' as never }), /Unknown delivery method "drone"\. Choose standard, express, pickup/)
+  })
+})
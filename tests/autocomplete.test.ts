@@ -0,0 +1,62 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { completions, suggestSpelling } from "../search"
+import { openSession } from "../session"
+import { searchProducts } from "../tools"
+
+describe('completions', () => {
+  it('completes brands, titles and category names, shortest first', () => {
+    const matches = completions('so')
+    assert.equal(matches[0], 'Sony')
+    assert.ok(matches.slice(1).every(m => m.startsWith('Sony WH-1000XM5')))
+    assert.deepEqual(completions('Hik'), ['Hiking Boots'])
+  })
+
+  it('ignores case and leading spaces', () => {
+    assert.deepEqual(completions('  HEAD'), ['Headphones'])
+  })
+
+  it('offers nothing for an empty or unknown prefix', () => {
+    assert.equal(completions('').length, 0)
+    assert.equal(completions('zzz').length, 0)
+  })
+
+  it('caps the number of candidates', () => {
+    assert.equal(completions('e', 2).length, 2)
+  })
+})
+
+describe('suggestSpelling', () => {
+  it('respells unknown words with catalog words', () => {
+    assert.equal(suggestSpelling('hedphones')[0], 'headphones')
+    assert.equal(suggestSpelling('waterprof bots')[0], 'waterproof boots')
+  })
+
+  it('keeps known words and numbers as they are', () => {
+    assert.equal(suggestSpelling('usb cabel 2m')[0], 'usb cable 2m')
+  })
+
+  it('offers at most three alternatives', () => {
+    assert.ok(suggestSpelling('waterprof bots').length <= 3)
+  })
+
+  it('suggests nothing when every word is known or nothing is close', () => {
+    assert.equal(suggestSpelling('headphones').length, 0)
+    assert.equal(suggestSpelling('xqzv').length, 0)
+  })
+})
+
+describe('searchProducts suggestions', () => {
+  it('come with searches that found nothing', async () => {
+    const session = await openSession('speller')
+    const { results, suggestions } = await searchProducts(session, 'hedfones')
+    assert.equal(results.length, 0)
+    assert.ok(suggestions && suggestions.length > 0)
+  })
+
+  it('are left out when something matched', async () => {
+    const { suggestions } = await searchProducts(await openSession('speller'), 'headphones')
+    assert.equal(suggestions, undefined)
+  })
+})
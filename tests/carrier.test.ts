@@ -0,0 +1,134 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { createShipment, trackingEvents } from "../carrier"
+import type { Address, Order } from "../data"
+import { saveCard } from "../payments"
+import { openSession } from "../session"
+import { addAddress, addToCart, checkout, getOrderDetails } from "../tools"
+
+const CONFIRMED_AT = '2026-03-02T10:00:00.000Z' // A Monday
+const ALBANY: Address = { id: 'addr-1', name: 'Ana Lee', line1: '1 Main St', city: 'Albany', region: 'US-NY', postalCode: '12207' }
+const LONDON: Address = { id: 'addr-2', name: 'Ana Lee', line1: '1 High St', city: 'London', region: 'GB', postalCode: 'EC1A 1BB' }
+
+/**
+ * Ships 2026-03-03 10:00 UTC, a day after confirmation, and is due
+ * 2026-03-05 14:00 UTC
+ */
+function shippedOrder(address: Address = ALBANY, overrides: Partial<Order> = {}): Order {
+  return {
+    orderId: 'ORD-TRACK',
+    items: [{ productId: 'LA001', sku: 'LA001', title: 'Lamp', price: 40, quantity: 1 }],
+    total: 40,
+    shipping: { method: 'standard', weightKg: 1, cost: 0, free: true },
+    shippingAddress: address,
+    shipment: { carrier: 'Parcelwise', service: 'Ground', trackingNumber: 'PW123456789012' },
+    status: 'shipped',
+    history: [
+      { status: 'pending', at: CONFIRMED_AT },
+      { status: 'confirmed', at: CONFIRMED_AT },
+      { status: 'shipped', at: '2026-03-03T10:00:00.000Z' },
+    ],
+    orderDate: '2026-03-02',
+    estimatedDelivery: '2026-03-05',
+    ...overrides,
+  }
+}
+
+describe('createShipment', () => {
+  it('books the carrier for the delivery method, with a tracking number', () => {
+    const standard = createShipment('standard', ALBANY)
+    assert.equal(standard?.carrier, 'Parcelwise')
+    assert.match(standard?.trackingNumber ?? '', /^PW\d{12}$/)
+    assert.equal(createShipment('express', ALBANY)?.carrier, 'SwiftPost')
+  })
+
+  it('sends anything leaving the country with the international carrier', () => {
+    assert.deepEqual(
+      [createShipment('standard', LONDON)?.carrier, createShipment('express', LONDON)?.service],
+      ['GlobeLink', 'International']
+    )
+  })
+
+  it('books nothing for store pickup', () => {
+    assert.equal(createShipment('pickup', ALBANY), undefined)
+    assert.equal(createShipment('standard'), undefined)
+  })
+})
+
+describe('trackingEvents', () => {
+  it('times the carrier scans between shipping and delivery', () => {
+    const events = trackingEvents(shippedOrder(), new Date('2026-03-04T18:00:00Z'))
+    assert.deepEqual(events.map(e => [e.at, e.description, e.location, e.upcoming]), [
+      ['2026-03-02T10:00:00.000Z', 'Shipping label created', 'Reno, NV', false],
+      ['2026-03-03T10:00:00.000Z', 'Picked up by Parcelwise', 'Reno, NV', false],
+      ['2026-03-04T12:00:00.000Z', 'Arrived at Parcelwise hub', 'Newark, NJ', false],
+      ['2026-03-05T09:00:00.000Z', 'Out for delivery', 'Albany, New York', true],
+      ['2026-03-05T14:00:00.000Z', 'Delivered', 'Albany, New York', true],
+    ])
+  })
+
+  it('clears customs on international orders', () => {
+    const shipment = { carrier: 'GlobeLink', service: 'International', trackingNumber: 'GL123456789012' }
+    const events = trackingEvents(shippedOrder(LONDON, { shipment }), new Date('2026-03-10T00:00:00Z'))
+    assert.deepEqual(events.map(e => e.description), [
+      'Shipping label created', 'Picked up by GlobeLink', 'Arrived at GlobeLink hub', 'Cleared customs', 'Out for delivery', 'Delivered',
+    ])
+    assert.equal(events[3].location, 'United Kingdom')
+    assert.ok(events.every(e => !e.upcoming))
+  })
+
+  it('voids the label of an order cancelled before it ships', () => {
+    const cancelledAt = '2026-03-02T12:00:00.000Z'
+    const order = shippedOrder(ALBANY, {
+      status: 'cancelled',
+      history: [
+        { status: 'pending', at: CONFIRMED_AT },
+        { status: 'confirmed', at: CONFIRMED_AT },
+        { status: 'cancelled', at: cancelledAt },
+      ],
+    })
+    assert.deepEqual(trackingEvents(order, new Date('2026-03-10T00:00:00Z')).map(e => [e.at, e.description]), [
+      [CONFIRMED_AT, 'Shipping label created'],
+      [cancelledAt, 'Label voided, order cancelled'],
+    ])
+  })
+
+  it('follows the status history of orders without a carrier', () => {
+    const order = shippedOrder(ALBANY, {
+      shipping: { method: 'pickup', weightKg: 1, cost: 0, free: true },
+      shippingAddress: undefined,
+      shipment: undefined,
+      status: 'confirmed',
+      history: [
+        { status: 'pending', at: CONFIRMED_AT },
+        { status: 'confirmed', at: CONFIRMED_AT },
+      ],
+      estimatedDelivery: '2026-03-03',
+    })
+    assert.deepEqual(trackingEvents(order, new Date('2026-03-02T12:00:00Z')).map(e => [e.description, e.upcoming]), [
+      ['Order placed', false],
+      ['Payment confirmed', false],
+      ['On its way to the store', true],
+      ['Ready for pickup at the store', true],
+    ])
+  })
+})
+
+describe('order tracking', () => {
+  it('shows a shipped order\'s carrier and timeline with its details', async () => {
+    const session = await openSession('tracker')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+    await addAddress(session, { name: 'Ana Lee', line1: '1 Main St', city: 'Albany', region: 'New York', postalCode: '12207' })
+    await addToCart(session, 'LA001', 1)
+    const order = await checkout(session, { shippingMethod: 'express' })
+
+    const details = await getOrderDetails(session)
+    assert.equal(details.orderId, order.orderId)
+    assert.equal(details.shipment?.carrier, 'SwiftPost')
+    assert.deepEqual(details.timeline.map(e => [e.description, e.upcoming]).slice(0, 2), [
+      ['Shipping label created', false],
+      ['Picked up by SwiftPost', true],
+    ])
+  })
+})
@@ -0,0 +1,157 @@
+import { dataDir } from "./setup"
+import assert from "node:assert/strict"
+import * as fs from "fs"
+import * as path from "path"
+import { describe, it } from "node:test"
+import { formatIssue, importCatalog, parseCsv, useCatalog } from "../catalog"
+import { mockData } from "../data"
+import { addBusinessDays, today } from "../delivery"
+import { openSession } from "../session"
+import { getProductDetails, searchProducts } from "../tools"
+
+/**
+ * Write import files into a fresh directory and return its path
+ */
+function catalogDir(name: string, files: Record<string, string>): string {
+  const dir = path.join(dataDir, name)
+  fs.mkdirSync(dir, { recursive: true })
+  for (const [file, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, file), content)
+  }
+  return dir
+}
+
+const PRODUCTS_CSV = [
+  'id,title,price,description,deliveryDays,rating,numRatings,images,category,stock',
+  'TENT01,"Trail Tent, 2 Person",199.5,"Sleeps two, packs ""small""",3,4.4,120,a.jpg|b.jpg,Hiking Boots,4',
+  'LAMP01,Camp Lantern,24,Bright and light,1,,,,,',
+  'BAD01,Broken Row,cheap,No price,soon,,,,garden,',
+  'TENT01,Trail Tent Again,10,Duplicate,3,,,,,',
+].join('\n')
+
+const REVIEWS_CSV = [
+  'productId,rating,comment,date',
+  'TENT01,5,Kept us dry,2025-02-01',
+  'NOPE01,4,Who am I reviewing,2025-02-01',
+  'LAMP01,9,Too good,2025-02-01',
+].join('\n')
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes, newlines and blank lines', () => {
+    assert.deepEqual(
+      parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\n\n1,2'),
+      [['a', 'b'], ['x, y', 'say "hi"\nthere'], ['1', '2']]
+    )
+  })
+})
+
+describe('importCatalog', () => {
+  it('reads products and reviews from CSV and reports bad rows', async () => {
+    const dir = catalogDir('csv', { 'products.csv': PRODUCTS_CSV, 'reviews.csv': REVIEWS_CSV })
+    const { products, stock, errors } = await importCatalog([dir])
+
+    assert.deepEqual(products.map(p => p.id), ['TENT01', 'LAMP01'])
+    const tent = products[0]
+    assert.equal(tent.title, 'Trail Tent, 2 Person')
+    assert.equal(tent.description, 'Sleeps two, packs "small"')
+    assert.deepEqual(tent.images, ['a.jpg', 'b.jpg'])
+    assert.equal(tent.category, 'hiking-boots')
+    assert.deepEqual(tent.reviews.map(r => r.comment), ['Kept us dry'])
+
+    const messages = errors.map(formatIssue).map(m => m.replace(dir + path.sep, ''))
+    assert.ok(messages.some(m => m.startsWith('products.csv:4:') && m.includes('price must be a number')))
+    assert.ok(messages.some(m => m.startsWith('products.csv:4:') && m.includes('deliveryDays must be a number')))
+    assert.ok(messages.some(m => m.startsWith('products.csv:4:') && m.includes('unknown category "garden"')))
+    assert.ok(messages.some(m => m.startsWith('products.csv:5:') && m.includes('duplicate product ID "TENT01"')))
+    assert.ok(messages.some(m => m.startsWith('reviews.csv:3:') && m.includes('unknown product "NOPE01"')))
+    assert.ok(messages.some(m => m.startsWith('reviews.csv:4:') && m.includes('rating must be at most 5')))
+    assert.equal(errors.length, 4)
+
+    assert.deepEqual(stock, { TENT01: 4, LAMP01: 10 })
+  })
+
+  it('reads JSON products with embedded reviews and applies price overrides', async () => {
+    const dir = catalogDir('json', {
+      'catalog.json': JSON.stringify({
+        products: [{
+          id: 'STOVE01',
+          title: 'Pocket Stove',
+          price: 39,
+          description: 'Boils fast',
+          deliveryDays: 4,
+          reviews: [{ rating: 4, comment: 'Tiny', date: '2025-03-01' }],
+        }],
+      }),
+      'prices.csv': 'id,price\nSTOVE01,34.5\nGHOST01,1',
+    })
+    const { products, errors } = await importCatalog([dir])
+
+    assert.equal(products.length, 1)
+    assert.equal(products[0].price, 34.5)
+    assert.equal(products[0].reviews.length, 1)
+    assert.equal(errors.length, 1)
+    assert.match(errors[0].message, /price for unknown product "GHOST01"/)
+  })
+
+  it('converts a legacy deliveryDate column to business days from today', async () => {
+    const inTwoWeeks = addBusinessDays(today(), 10)
+    const dir = catalogDir('legacy', {
+      'products.csv': [
+        'id,title,price,description,deliveryDate',
+        `OLD01,Old Export,5,From before deliveryDays,${inTwoWeeks}`,
+        'OLD02,Stale Export,5,Date already passed,2020-01-31',
+        'OLD03,Broken Export,5,Not a date,next week',
+        'OLD04,No Delivery,5,Neither column,',
+      ].join('\n'),
+    })
+    const { products, errors } = await importCatalog([dir])
+
+    assert.deepEqual(products.map(p => [p.id, p.deliveryDays]), [['OLD01', 10], ['OLD02', 0]])
+    assert.deepEqual(errors.map(e => [e.row, e.message]), [
+      [4, 'deliveryDate must be a date like 2025-01-31 (got "next week")'],
+      [5, 'deliveryDays is required'],
+    ])
+  })
+
+  it('reports unreadable files without failing the import', async () => {
+    const dir = catalogDir('broken', {
+      'broken.json': '{ not json',
+      'products.csv': PRODUCTS_CSV,
+    })
+    const { products, errors } = await importCatalog([dir])
+    assert.equal(products.length, 2)
+    assert.ok(errors.some(e => e.row === 0 && e.message.startsWith('Could not read file')))
+  })
+})
+
+describe('useCatalog', () => {
+  it('refuses an import with no valid products', () => {
+    assert.throws(
+      () => useCatalog({ products: [], stock: {}, errors: [] }),
+      /produced no valid products/
+    )
+  })
+
+  it('replaces the built-in catalog and drops seed-only data', async () => {
+    const dir = catalogDir('active', {
+      'products.csv': [
+        'id,title,price,description,deliveryDays,stock',
+        'LAMP01,Camp Lantern,24,Bright and light,1,',
+        'HB001,Salomon Quest 4 GTX,229.95,Seed product kept,3,',
+      ].join('\n'),
+    })
+    useCatalog(await importCatalog([dir]))
+
+    assert.deepEqual(mockData.searchResults.map(r => r.id), ['LAMP01', 'HB001'])
+    assert.deepEqual(Object.keys(mockData.productVariants), ['HB001'])
+    assert.deepEqual(mockData.inventory, { LAMP01: 10 })
+    assert.equal(mockData.storeOrderHistory.length, 0, 'no seed basket has two imported products')
+    assert.deepEqual(mockData.promotions.map(p => p.id), ['save10', 'welcome15', 'summer25'], 'only promotions not scoped to seed categories')
+
+    const session = await openSession('importer')
+    const { results } = await searchProducts(session, 'lantern')
+    assert.equal(results[0].availableStock, 10)
+    assert.equal(results[0].stockStatus, 'in_stock')
+    await assert.rejects(getProductDetails(session, 'USB001'), /not found/)
+  })
+})
@@ -0,0 +1,103 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import {
+  categoryFacets,
+  categoryProductIds,
+  categoryTree,
+  findCategory,
+  formatCategoryPath,
+  isInCategory,
+  productCategory,
+} from "../categories"
+import { openSession } from "../session"
+import { browseCategory, searchProducts } from "../tools"
+
+describe('category lookups', () => {
+  it('find a category by ID or by name in any case', () => {
+    assert.equal(findCategory('hiking-boots')?.name, 'Hiking Boots')
+    assert.equal(findCategory('  SMART speakers ')?.id, 'smart-speakers')
+    assert.equal(findCategory('garden'), undefined)
+  })
+
+  it('format the path from the root down to a category', () => {
+    assert.equal(formatCategoryPath('headphones'), 'Electronics > Audio > Headphones')
+    assert.equal(formatCategoryPath('electronics'), 'Electronics')
+    assert.equal(productCategory('HB003'), 'Outdoor > Footwear > Mountaineering Boots')
+  })
+
+  it('include products of every subcategory', () => {
+    assert.ok(isInCategory('HP002', 'audio'))
+    assert.ok(isInCategory('HP002', 'electronics'))
+    assert.ok(!isInCategory('HP002', 'headphones'))
+    assert.deepEqual(
+      categoryProductIds('footwear').sort(),
+      ['HB001', 'HB002', 'HB003', 'HB004']
+    )
+  })
+})
+
+describe('category tree and facets', () => {
+  it('count the products under each category', () => {
+    const tree = categoryTree()
+    const outdoor = tree.find(node => node.id === 'outdoor')
+    assert.equal(outdoor?.productCount, 4)
+    const footwear = outdoor?.children.find(node => node.id === 'footwear')
+    assert.deepEqual(
+      footwear?.children.map(node => [node.id, node.productCount]),
+      [['hiking-boots', 3], ['mountaineering-boots', 1]]
+    )
+  })
+
+  it('facet on the first level where products differ', () => {
+    const facets = categoryFacets(['HB001', 'HB003', 'HB004'])
+    assert.deepEqual(
+      facets.map(f => [f.id, f.count]).sort(),
+      [['hiking-boots', 2], ['mountaineering-boots', 1]]
+    )
+    assert.equal(
+      facets.find(f => f.id === 'hiking-boots')?.path,
+      'Outdoor > Footwear > Hiking Boots'
+    )
+  })
+
+  it('give products sharing a leaf that leaf as their only facet', () => {
+    const facets = categoryFacets(['HP001', 'HP003'])
+    assert.deepEqual(facets.map(f => [f.id, f.count]), [['headphones', 2]])
+    assert.equal(categoryFacets([]).length, 0)
+  })
+})
+
+describe('browsing and filtering by category', () => {
+  it('list top-level categories when no category is given', async () => {
+    const listing = await browseCategory(await openSession('browser'))
+    assert.equal(listing.category, null)
+    assert.ok(listing.subcategories.some(node => node.id === 'outdoor'))
+    assert.equal(listing.products.length, 0)
+  })
+
+  it('list a category\'s subcategories and products', async () => {
+    const listing = await browseCategory(await openSession('browser'), 'Audio')
+    assert.equal(listing.category?.path, 'Electronics > Audio')
+    assert.deepEqual(listing.subcategories.map(node => node.id), ['headphones', 'earbuds'])
+    assert.deepEqual(listing.products.map(p => p.id).sort(), ['HP001', 'HP002', 'HP003'])
+  })
+
+  it('refuse unknown categories and name the top-level ones', async () => {
+    await assert.rejects(
+      browseCategory(await openSession('browser'), 'garden'),
+      /Category "garden" not found\. Top-level categories: Electronics, Outdoor/
+    )
+  })
+
+  it('narrow search results to a category', async () => {
+    const session = await openSession('browser')
+    const { results, facets } = await searchProducts(session, 'boots', { category: 'hiking-boots' })
+    assert.deepEqual(results.map(r => r.id).sort(), ['HB001', 'HB002', 'HB004'])
+    // The category facet ignores its own filter so the shopper can switch
+    assert.deepEqual(
+      facets.category.map(f => [f.id, f.count]),
+      [['hiking-boots', 3], ['mountaineering-boots', 1]]
+    )
+  })
+})
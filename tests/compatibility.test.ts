@@ -0,0 +1,126 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { checkPair, checkPlatform, compatibleWith, findConflicts, findPlatform } from "../compatibility"
+import { saveCard } from "../payments"
+import { openSession } from "../session"
+import { addToCart, checkCompatibility, checkout } from "../tools"
+
+describe('findPlatform', () => {
+  it('maps what shoppers type to a platform, matching whole words', () => {
+    assert.equal(findPlatform('my MacBook Air'), 'macOS')
+    assert.equal(findPlatform('iPhone 15'), 'iOS')
+    assert.equal(findPlatform('a gaming PC'), 'Windows')
+    assert.equal(findPlatform('Chrome OS'), 'ChromeOS')
+    assert.equal(findPlatform('my machine'), undefined)
+    assert.equal(findPlatform('toaster'), undefined)
+  })
+})
+
+describe('checkPair', () => {
+  it('passes a cable that fits the device\'s port and carries enough power', () => {
+    const check = checkPair('USB001', 'HP001')
+    assert.equal(check?.status, 'compatible')
+    assert.deepEqual(check?.productIds, ['USB001', 'HP001'])
+    assert.match(check?.reason ?? '', /^Fits the Sony WH-1000XM5 .+' USB-C port; 100 W covers its 15 W charging$/)
+  })
+
+  it('checks the same way whichever product comes first', () => {
+    assert.deepEqual(checkPair('HP001', 'USB001'), checkPair('USB001', 'HP001'))
+  })
+
+  it('fails a cable whose plugs don\'t fit the port', () => {
+    const check = checkPair('USB002', 'HP002')
+    assert.equal(check?.status, 'incompatible')
+    assert.match(check?.reason ?? '', /has USB-C plugs, but the Apple AirPods Pro \(2nd Gen\) charges through a Lightning port$/)
+  })
+
+  it('ignores products that don\'t plug into each other', () => {
+    assert.equal(checkPair('HP001', 'LA001'), null)
+    assert.equal(checkPair('USB001', 'USB002'), null)
+    assert.equal(checkPair('USB001', 'HB001'), null)
+    assert.equal(checkPair('USB001', 'USB001'), null)
+  })
+})
+
+describe('checkPlatform', () => {
+  it('tells full, limited and missing support apart', () => {
+    assert.equal(checkPlatform('HP002', 'iOS')?.status, 'compatible')
+    assert.match(checkPlatform('HP002', 'Android')?.reason ?? '', /works with Android, but some features need iOS\/iPadOS\/macOS/)
+    assert.equal(checkPlatform('LA002', 'Linux')?.status, 'limited')
+    assert.match(checkPlatform('LA002', 'iOS')?.reason ?? '', /doesn't support iOS \(works with macOS, Windows\)/)
+  })
+
+  it('skips products that don\'t depend on a platform', () => {
+    assert.equal(checkPlatform('HB001', 'macOS'), null)
+    assert.equal(checkPlatform('USB001', 'macOS'), null)
+  })
+})
+
+describe('compatibleWith', () => {
+  it('lists the catalog products that plug in, best fit first', () => {
+    const checks = compatibleWith('USB001')
+    assert.ok(checks.length > 0)
+    assert.ok(checks.every(check => check.productIds[0] === 'USB001'))
+    const statuses = checks.map(check => check.status)
+    assert.ok(statuses.indexOf('incompatible') > statuses.lastIndexOf('compatible'))
+    assert.ok(checks.some(check => check.productIds[1] === 'HP001' && check.status === 'compatible'))
+  })
+})
+
+describe('findConflicts', () => {
+  it('flags a cable that fits none of the devices in the cart', () => {
+    const conflicts = findConflicts(['USB002', 'HP002'])
+    assert.deepEqual(conflicts.map(check => check.productIds), [['USB002', 'HP002']])
+  })
+
+  it('leaves a cable alone when it charges something in the cart', () => {
+    assert.equal(findConflicts(['USB002', 'HP001', 'HP002']).length, 0)
+    assert.equal(findConflicts(['USB002', 'USB002']).length, 0)
+    assert.equal(findConflicts(['HP002']).length, 0)
+  })
+})
+
+describe('checkCompatibility', () => {
+  it('checks the given products against each other and a platform', async () => {
+    const report = await checkCompatibility(await openSession('checker'), ['USB001', 'HP002', 'LA002'], 'my iPhone')
+    assert.deepEqual(report.checks.map(check => [check.productIds[1], check.status]), [['HP002', 'incompatible'], ['LA002', 'compatible']])
+    assert.equal(report.platform?.name, 'iOS')
+    assert.deepEqual(report.platform?.support.map(s => [s.productId, s.status]), [['HP002', 'compatible'], ['LA002', 'incompatible']])
+    assert.equal(report.worksWith, undefined)
+    assert.equal(report.compatible, false)
+  })
+
+  it('lists what plugs into a single product', async () => {
+    const report = await checkCompatibility(await openSession('checker'), ['HP001'])
+    assert.equal(report.checks.length, 0)
+    assert.ok(report.compatible)
+    assert.deepEqual(report.worksWith?.map(r => r.id).sort(), ['USB001', 'USB002', 'USB003', 'USB004', 'USB005'])
+    assert.ok(report.worksWith?.every(r => r.status === 'compatible' && r.deliveryDate))
+  })
+
+  it('refuses unknown products and platforms', async () => {
+    const session = await openSession('checker')
+    await assert.rejects(checkCompatibility(session, []), /Name at least one product/)
+    await assert.rejects(checkCompatibility(session, ['NOPE']), /Product with ID "NOPE" not found/)
+    await assert.rejects(checkCompatibility(session, ['HP001'], 'toaster'), /Unknown platform "toaster"/)
+  })
+})
+
+describe('cart warnings', () => {
+  it('warn about a cable that fits nothing in the cart, without blocking checkout', async () => {
+    const session = await openSession('mismatched')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+    const first = await addToCart(session, 'HP002', 1)
+    assert.equal(first.warnings, undefined)
+
+    const second = await addToCart(session, 'USB002', 1, { length: '2m' })
+    assert.ok(second.success)
+    assert.equal(second.warnings?.length, 1)
+    assert.match(second.warnings![0], /Lightning port/)
+
+    const order = await checkout(session, { shippingMethod: 'pickup' })
+    assert.deepEqual(order.warnings, second.warnings)
+    assert.equal(order.items.length, 2)
+  })
+})
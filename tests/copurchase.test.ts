@@ -0,0 +1,80 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { boughtTogether } from "../copurchase"
+import { saveCard } from "../payments"
+import { openSession } from "../session"
+import { getStorage } from "../storage"
+import { addBundleToCart, addToCart, checkout, frequentlyBoughtTogether } from "../tools"
+
+describe('boughtTogether', () => {
+  it('counts shared orders and the share of the product\'s orders', async () => {
+    assert.deepEqual(await boughtTogether('HP002', 5), [
+      { productId: 'USB002', count: 3, confidence: 0.75 },
+      { productId: 'B08N5WRWNW', count: 2, confidence: 0.5 },
+    ])
+  })
+
+  it('ignores pairs seen in only one order', async () => {
+    assert.deepEqual((await boughtTogether('LA001', 5)).map(pair => pair.productId), ['LA002'])
+    assert.equal((await boughtTogether('HB002', 5)).length, 0)
+  })
+})
+
+describe('bundles', () => {
+  it('suggest what others bought after adding to the cart', async () => {
+    const session = await openSession('bundler')
+    const { bundle } = await addToCart(session, 'LA001', 1)
+    assert.deepEqual(bundle?.items.map(item => item.id), ['LA002'])
+    assert.match(bundle?.message ?? '', /^People who bought the .+ also bought the .+$/)
+  })
+
+  it('list the bundle with its total price', async () => {
+    const together = await frequentlyBoughtTogether(await openSession('bundler'), 'HP002')
+    assert.deepEqual(together.items.map(item => [item.id, item.timesBoughtTogether]), [['USB002', 3], ['B08N5WRWNW', 2]])
+    const total = together.items.reduce((sum, item) => sum + item.price, together.product.price)
+    assert.equal(together.bundleTotal, Math.round(total * 100) / 100)
+  })
+
+  it('add the whole bundle, skipping items that need a variant', async () => {
+    const session = await openSession('bundle-buyer')
+    const result = await addBundleToCart(session, 'HP001')
+    assert.equal(result.added.length, 1)
+    assert.deepEqual(result.skipped.map(item => [item.productId, item.reason]), [['USB004', 'choose a length first']])
+    assert.deepEqual(session.cart.items.map(item => item.productId), ['HP001'])
+
+    const again = await addBundleToCart(session, 'HP001')
+    assert.equal(again.success, false)
+  })
+
+  it('refuse unknown products', async () => {
+    await assert.rejects(addBundleToCart(await openSession('bundler'), 'NOPE'), /Product with ID "NOPE" not found/)
+  })
+})
+
+describe('new orders', () => {
+  it('feed the model without re-reading every shopper', async () => {
+    await boughtTogether('HP001', 5)
+
+    const storage = getStorage()
+    const loadUser = storage.loadUser.bind(storage)
+    let reads = 0
+    storage.loadUser = async (userId: string) => {
+      reads++
+      return loadUser(userId)
+    }
+
+    for (const userId of ['pair-1', 'pair-2']) {
+      const session = await openSession(userId)
+      saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+      await addToCart(session, 'HP001', 1)
+      await addToCart(session, 'LA002', 1)
+      await checkout(session, { shippingMethod: 'pickup' })
+    }
+    const afterOrders = reads
+
+    const pairs = await boughtTogether('HP001', 5)
+    assert.deepEqual(pairs.find(pair => pair.productId === 'LA002'), { productId: 'LA002', count: 2, confidence: 0.5 })
+    assert.equal(reads, afterOrders, 'no stored orders were re-read')
+  })
+})
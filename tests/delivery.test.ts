@@ -0,0 +1,37 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { addBusinessDays, businessDaysBetween, productDeliveryDate, today } from "../delivery"
+
+// 2026-10-16 is a Friday
+describe('business days', () => {
+  it('skip weekends when adding days', () => {
+    assert.equal(addBusinessDays('2026-10-15', 1), '2026-10-16')
+    assert.equal(addBusinessDays('2026-10-16', 1), '2026-10-19')
+    assert.equal(addBusinessDays('2026-10-17', 1), '2026-10-19')
+    assert.equal(addBusinessDays('2026-10-16', 6), '2026-10-26')
+    assert.equal(addBusinessDays('2026-10-16', 0), '2026-10-16')
+  })
+
+  it('cross month and year ends', () => {
+    assert.equal(addBusinessDays('2026-10-30', 1), '2026-11-02')
+    assert.equal(addBusinessDays('2026-12-31', 1), '2027-01-01')
+  })
+
+  it('count the business days between two dates', () => {
+    assert.equal(businessDaysBetween('2026-10-16', '2026-10-19'), 1)
+    assert.equal(businessDaysBetween('2026-10-16', '2026-10-18'), 0)
+    assert.equal(businessDaysBetween('2026-10-12', '2026-10-26'), 10)
+    assert.equal(businessDaysBetween('2026-10-19', '2026-10-16'), 0)
+  })
+})
+
+describe('productDeliveryDate', () => {
+  it('counts from today in UTC', () => {
+    // Friday evening in New York is already Saturday in UTC
+    const now = new Date('2026-10-16T23:30:00-05:00')
+    assert.equal(today(now), '2026-10-17')
+    assert.equal(productDeliveryDate(2, now), '2026-10-20')
+    assert.equal(productDeliveryDate(0, now), '2026-10-17')
+  })
+})
@@ -0,0 +1,87 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { applyPredicates, buildFacets, daysUntil, facetPredicates } from "../facets"
+import { openSession } from "../session"
+import { SearchResult, searchProducts } from "../tools"
+
+/**
+ * A search result with just the fields facets look at
+ */
+function result(id: string, brand: string, price: number, rating: number, deliveryDays: number): SearchResult {
+  return { id, title: id, brand, price, rating, numRatings: 1, deliveryDays }
+}
+
+// deliveryDays 0 arrives today and 10 takes at least two weeks, whatever the weekday
+const RESULTS = [
+  result('USB001', 'Anker', 12.99, 4.7, 0),
+  result('USB002', 'Apple', 19, 4.4, 10),
+  result('USB003', 'Anker', 24.99, 4.2, 10),
+  result('HP001', 'Sony', 399.99, 4.8, 0),
+  result('HP002', 'Apple', 249, 3.5, 10),
+]
+
+const counts = (buckets: Array<{ label: string; count: number }>) => buckets.map(b => [b.label, b.count])
+
+describe('buildFacets', () => {
+  it('counts results per brand, most common first', () => {
+    const { brand } = buildFacets(RESULTS)
+    assert.deepEqual(counts(brand), [['Anker', 2], ['Apple', 2], ['Sony', 1]])
+    assert.deepEqual(brand[0].filter, { brand: 'Anker' })
+  })
+
+  it('counts price bands and gives each an inclusive filter', () => {
+    const { price } = buildFacets(RESULTS)
+    assert.deepEqual(counts(price), [['Under $25', 3], ['$200 & above', 2]])
+    assert.deepEqual(price[0].filter, { minPrice: 0, maxPrice: 24.99 })
+    assert.deepEqual(price[1].filter, { minPrice: 200 })
+  })
+
+  it('counts overlapping rating and delivery buckets', () => {
+    const { rating, delivery } = buildFacets(RESULTS)
+    assert.deepEqual(counts(rating), [['4.5★ & up', 2], ['4★ & up', 4], ['3★ & up', 5]])
+    assert.deepEqual(counts(delivery), [['By tomorrow', 2], ['Within 3 days', 2], ['Within a week', 2]])
+  })
+
+  it('counts each facet with every filter but its own', () => {
+    const facets = buildFacets(RESULTS, { brand: 'anker', maxPrice: 20 })
+    assert.deepEqual(counts(facets.brand), [['Anker', 1], ['Apple', 1]])
+    assert.deepEqual(counts(facets.price), [['Under $25', 2]])
+    assert.deepEqual(counts(facets.rating), [['4.5★ & up', 1], ['4★ & up', 1], ['3★ & up', 1]])
+  })
+})
+
+describe('facet filters', () => {
+  it('match any of several brands, ignoring case', () => {
+    const matched = applyPredicates(RESULTS, facetPredicates({ brand: ['SONY', 'apple'] }))
+    assert.deepEqual(matched.map(r => r.id), ['USB002', 'HP001', 'HP002'])
+  })
+
+  it('keep results delivered within the window', () => {
+    const matched = applyPredicates(RESULTS, facetPredicates({ deliveryWithinDays: 7 }))
+    assert.deepEqual(matched.map(r => r.id), ['USB001', 'HP001'])
+  })
+
+  it('can leave one facet out', () => {
+    const predicates = facetPredicates({ brand: 'Sony', minRating: 4.5 })
+    assert.deepEqual(applyPredicates(RESULTS, predicates, 'brand').map(r => r.id), ['USB001', 'HP001'])
+  })
+})
+
+describe('daysUntil', () => {
+  it('counts whole UTC days and never goes below zero', () => {
+    const now = new Date('2026-10-16T23:30:00Z')
+    assert.equal(daysUntil('2026-10-16', now), 0)
+    assert.equal(daysUntil('2026-10-19', now), 3)
+    assert.equal(daysUntil('2026-10-01', now), 0)
+  })
+})
+
+describe('searchProducts', () => {
+  it('filters by brand and returns facets with delivery dates on results', async () => {
+    const { results, facets } = await searchProducts(await openSession('faceter'), 'usb c cable', { brand: 'Anker' })
+    assert.deepEqual(results.map(r => r.id), ['USB001'])
+    assert.match(results[0].deliveryDate ?? '', /^\d{4}-\d{2}-\d{2}$/)
+    assert.ok(facets.brand.length > 1)
+  })
+})
@@ -0,0 +1,133 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { commitStock, getAvailability, releaseStock, requireQuantity, reserveStock, stockStatus } from "../inventory"
+import { saveCard } from "../payments"
+import { openSession } from "../session"
+import { addToCart, purchaseProduct, updateCartQuantity } from "../tools"
+
+const available = async (productId: string, userId?: string) => (await getAvailability([productId], userId))[productId].availableStock
+
+describe('requireQuantity', () => {
+  it('accepts whole numbers of at least 1', () => {
+    assert.equal(requireQuantity(1), 1)
+    assert.equal(requireQuantity(12), 12)
+  })
+
+  it('rejects zero, negative, fractional and non-numeric quantities', () => {
+    for (const quantity of [0, -1, 1.5, NaN, Infinity]) {
+      assert.throws(() => requireQuantity(quantity), /whole number of at least 1/)
+    }
+  })
+})
+
+describe('stockStatus', () => {
+  it('calls five or fewer units low stock', () => {
+    assert.equal(stockStatus(0), 'out_of_stock')
+    assert.equal(stockStatus(5), 'low_stock')
+    assert.equal(stockStatus(6), 'in_stock')
+  })
+})
+
+describe('reserveStock', () => {
+  it('holds units away from other shoppers but not from the holder', async () => {
+    const before = await available('LA001')
+    await reserveStock('hold-a', 'LA001', 4)
+    assert.equal(await available('LA001', 'hold-b'), before - 4)
+    assert.equal(await available('LA001', 'hold-a'), before)
+
+    // A new hold replaces the old one rather than adding to it
+    await reserveStock('hold-a', 'LA001', 2)
+    assert.equal(await available('LA001', 'hold-b'), before - 2)
+
+    await releaseStock('hold-a')
+    assert.equal(await available('LA001', 'hold-b'), before)
+  })
+
+  it('refuses more than is available', async () => {
+    const left = await available('LA001')
+    await assert.rejects(reserveStock('hold-c', 'LA001', left + 1), new RegExp(`Only ${left} left`))
+    await assert.rejects(reserveStock('hold-c', 'HP003', 1), /out of stock/)
+  })
+
+  it('rejects invalid quantities without holding anything', async () => {
+    const before = await available('LA001')
+    for (const quantity of [0, -2, 0.5]) {
+      await assert.rejects(reserveStock('hold-d', 'LA001', quantity), /whole number/)
+    }
+    assert.equal(await available('LA001', 'hold-e'), before)
+  })
+})
+
+describe('commitStock', () => {
+  it('takes units off the shelf, using up the buyer\'s own hold first', async () => {
+    const before = await available('LA001')
+    await reserveStock('buyer-a', 'LA001', 3)
+    await commitStock('buyer-a', [{ sku: 'LA001', quantity: 2 }])
+
+    assert.equal(await available('LA001'), before - 3)
+    assert.equal(await available('LA001', 'buyer-a'), before - 2)
+    await releaseStock('buyer-a')
+    assert.equal(await available('LA001'), before - 2)
+  })
+
+  it('takes nothing when any line is short or invalid', async () => {
+    const before = await available('LA001')
+    await assert.rejects(commitStock('buyer-b', [{ sku: 'LA001', quantity: 1 }, { sku: 'HP003', quantity: 1 }]), /out of stock/)
+    await assert.rejects(commitStock('buyer-b', [{ sku: 'LA001', quantity: 1 }, { sku: 'LA001', quantity: -1 }]), /whole number/)
+    await assert.rejects(commitStock('buyer-b', [{ sku: 'LA001', quantity: 1.5 }]), /whole number/)
+    assert.equal(await available('LA001'), before)
+  })
+
+  it('counts repeated lines of a product together', async () => {
+    const left = await available('LA001')
+    await assert.rejects(commitStock('buyer-c', [{ sku: 'LA001', quantity: left }, { sku: 'LA001', quantity: 1 }]), /Only/)
+    assert.equal(await available('LA001'), left)
+  })
+})
+
+describe('quantities from the shopper', () => {
+  it('addToCart rejects invalid quantities and leaves the cart alone', async () => {
+    const session = await openSession('cart-shopper')
+    for (const quantity of [0, -1, 2.5]) {
+      await assert.rejects(addToCart(session, 'LA001', quantity), /whole number/)
+    }
+    assert.equal(session.cart.items.length, 0)
+
+    await addToCart(session, 'LA001', 2)
+    assert.equal(session.cart.items[0].quantity, 2)
+  })
+
+  it('updateCartQuantity removes the line at 0 and otherwise validates like addToCart', async () => {
+    const session = await openSession('update-shopper')
+    await addToCart(session, 'LA001', 2)
+    const held = await available('LA001')
+
+    for (const quantity of [-1, 1.5, NaN]) {
+      await assert.rejects(updateCartQuantity(session, 'LA001', quantity), /whole number/)
+    }
+    assert.equal(session.cart.items[0].quantity, 2)
+
+    await updateCartQuantity(session, 'LA001', 3)
+    assert.equal(session.cart.items[0].quantity, 3)
+    assert.equal(await available('LA001'), held - 1)
+
+    await updateCartQuantity(session, 'LA001', 0)
+    assert.equal(session.cart.items.length, 0)
+    assert.equal(await available('LA001'), held + 2)
+  })
+
+  it('purchaseProduct rejects invalid quantities before taking stock', async () => {
+    const session = await openSession('buy-shopper')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+    const before = await available('LA001')
+    for (const quantity of [0, -3, 1.25]) {
+      await assert.rejects(purchaseProduct(session, 'LA001', quantity), /whole number/)
+    }
+    assert.equal(await available('LA001'), before)
+    assert.equal(session.orders.length, 0)
+
+    await purchaseProduct(session, 'LA001', 2, undefined, { shippingMethod: 'pickup' })
+    assert.equal(await available('LA001'), before - 2)
+  })
+})
@@ -0,0 +1,126 @@
+import "./setup"
+import assert from "node:assert/strict"
+import * as fs from "fs"
+import * as path from "path"
+import { describe, it } from "node:test"
+import type { Order } from "../data"
+import { buildInvoice, InvoiceFormat, renderHtml, renderPdf, renderText, writeInvoice } from "../invoice"
+
+function paidOrder(lineCount: number = 2): Order {
+  const items = Array.from({ length: lineCount }, (_, i) => ({
+    productId: `P${i}`,
+    sku: `P${i}`,
+    title: i === 0 ? 'Café Crème <Deluxe> Grinder — 200 W' : `Cable ${i}`,
+    price: 12.5,
+    quantity: 2,
+  }))
+  const subtotal = 25 * lineCount
+  return {
+    orderId: 'ORD-TEST-0001',
+    items,
+    subtotal,
+    discounts: [{ promotionId: 'promo-test', code: 'SAVE5', description: '$5 off', amount: 5 }],
+    shipping: { method: 'standard', weightKg: 2, cost: 5.99, free: false },
+    tax: { region: 'US-NY', name: 'Test tax', rate: 10, taxable: subtotal - 5, amount: round((subtotal - 5) / 10) },
+    total: round((subtotal - 5) * 1.1 + 5.99),
+    payment: { methodId: 'pm-1', description: 'Visa ending 4242', authorizationId: 'auth-test', amount: round((subtotal - 5) * 1.1 + 5.99), capturedAt: '2026-03-02T10:00:00.000Z' },
+    refunds: [{ amount: 13.75, description: 'Visa ending 4242', reason: 'Return RET-TEST-0001-1', refundedAt: '2026-03-09T10:00:00.000Z' }],
+    status: 'delivered',
+    history: [{ status: 'delivered', at: '2026-03-05T14:00:00.000Z' }],
+    orderDate: '2026-03-02',
+  }
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+describe('buildInvoice', () => {
+  it('lists discounts, shipping, tax, refunds and what was paid net of them', () => {
+    const invoice = buildInvoice(paidOrder())
+    assert.equal(invoice.number, 'INV-TEST-0001')
+    assert.deepEqual(invoice.totals.map(t => [t.label, t.amount]), [
+      ['Subtotal', 50],
+      ['Coupon SAVE5', -5],
+      ['Shipping', 5.99],
+      ['Test tax 10% on $45.00', 4.5],
+      ['Total', 55.49],
+      ['Refund: Return RET-TEST-0001-1 (2026-03-09)', -13.75],
+      ['Net paid', 41.74],
+    ])
+  })
+})
+
+describe('renderText', () => {
+  it('keeps every line within the page width', () => {
+    const text = renderText(buildInvoice(paidOrder()))
+    for (const line of text.split('\n')) assert.ok(line.length <= 78, line)
+    assert.match(text, /Paid with: Visa ending 4242, \$55\.49 captured 2026-03-02/)
+    assert.match(text, /NET PAID\s+\$41\.74/)
+  })
+})
+
+describe('renderHtml', () => {
+  it('escapes what the shopper or catalog wrote', () => {
+    const html = renderHtml(buildInvoice(paidOrder()))
+    assert.ok(html.includes('Café Crème &lt;Deluxe&gt; Grinder'))
+    assert.ok(!html.includes('<Deluxe>'))
+  })
+})
+
+describe('renderPdf', () => {
+  /**
+   * Check the cross-reference table points at each object, counting bytes
+   * rather than characters, and that every stream's length is right
+   */
+  function assertWellFormed(pdf: Buffer): string {
+    const body = pdf.toString('latin1')
+    assert.ok(body.startsWith('%PDF-1.4\n'))
+    assert.ok(body.endsWith('%%EOF\n'))
+
+    const xref = Number(body.match(/startxref\n(\d+)\n%%EOF\n$/)![1])
+    assert.equal(body.slice(xref, xref + 5), 'xref\n')
+
+    const [, count] = body.slice(xref).match(/^xref\n0 (\d+)\n/)!
+    const entries = body.slice(xref).split('\n').slice(3, 2 + Number(count))
+    assert.equal(entries.length, Number(count) - 1)
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10))
+      assert.equal(body.slice(offset, offset + `${i + 1} 0 obj\n`.length), `${i + 1} 0 obj\n`, `object ${i + 1}`)
+    })
+
+    for (const match of body.matchAll(/<< \/Length (\d+) >>\nstream\n/g)) {
+      const start = match.index! + match[0].length
+      assert.equal(body.slice(start + Number(match[1]), start + Number(match[1]) + '\nendstream'.length), '\nendstream')
+    }
+    return body
+  }
+
+  it('writes byte-exact xref offsets when the text isn\'t plain ASCII', () => {
+    const body = assertWellFormed(renderPdf(buildInvoice(paidOrder())))
+    assert.ok(body.includes('(Caf\xe9 Cr\xe8me <Deluxe> Grinder ? 200 W'))
+    assert.match(body, /\/Count 1 >>/)
+  })
+
+  it('runs long invoices onto more pages', () => {
+    const body = assertWellFormed(renderPdf(buildInvoice(paidOrder(80))))
+    const pages = Number(body.match(/\/Count (\d+) >>/)![1])
+    assert.ok(pages > 1)
+    assert.equal(body.match(/\/Type \/Page /g)!.length, pages)
+  })
+})
+
+describe('writeInvoice', () => {
+  it('saves each format under the invoice number', async () => {
+    const dir = process.env.CONCIERGE_INVOICE_DIR!
+    for (const [format, extension] of [['text', 'txt'], ['html', 'html'], ['pdf', 'pdf']] as const) {
+      const file = await writeInvoice(paidOrder(), format)
+      assert.equal(file, path.join(dir, `INV-TEST-0001.${extension}`))
+      assert.ok(fs.statSync(file).size > 0)
+    }
+  })
+
+  it('rejects formats it doesn\'t know', async () => {
+    await assert.rejects(writeInvoice(paidOrder(), 'docx' as InvoiceFormat), /Unknown invoice format "docx"/)
+  })
+})
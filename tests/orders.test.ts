@@ -0,0 +1,191 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { Order } from "../data"
+import { advanceOrder, canTransition, enteredAt, nextStep, planReturn, refundableAmount, ReturnReason, transition } from "../orders"
+
+const CONFIRMED_AT = '2026-03-02T10:00:00.000Z' // A Monday
+
+function confirmedOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    orderId: 'ORD-TEST',
+    items: [{ productId: 'LA001', sku: 'LA001', title: 'Lamp', price: 40, quantity: 2 }],
+    total: 80,
+    status: 'confirmed',
+    history: [
+      { status: 'pending', at: CONFIRMED_AT },
+      { status: 'confirmed', at: CONFIRMED_AT },
+    ],
+    orderDate: '2026-03-02',
+    estimatedDelivery: '2026-03-05',
+    ...overrides,
+  }
+}
+
+/**
+ * Delivered 2026-03-05 14:00 UTC. $100 of items less a $10 discount, 10%
+ * tax on the $90 and $5.99 shipping: $104.99 paid.
+ */
+function deliveredOrder(): Order {
+  const order = confirmedOrder({
+    items: [
+      { productId: 'LA001', sku: 'LA001', title: 'Lamp', price: 40, quantity: 2 },
+      { productId: 'USB002', sku: 'USB002-2M', title: 'Cable', price: 20, quantity: 1 },
+    ],
+    subtotal: 100,
+    discounts: [{ promotionId: 'promo-test', description: '$10 off', amount: 10 }],
+    shipping: { method: 'standard', weightKg: 1, cost: 5.99, free: false },
+    tax: { region: 'US-NY', name: 'Test tax', rate: 10, taxable: 90, amount: 9 },
+    total: 104.99,
+    payment: { methodId: 'pm-1', description: 'Visa ending 4242', authorizationId: 'auth-test', amount: 104.99, capturedAt: CONFIRMED_AT },
+  })
+  advanceOrder(order, new Date('2026-03-06T00:00:00Z'))
+  return order
+}
+
+/**
+ * Record a return and its refund on an order, as requestReturn does
+ */
+function recordReturn(order: Order, sku: string, quantity: number, reason: ReturnReason, refunded: number): void {
+  order.returns = [...(order.returns ?? []), {
+    returnId: `RET-TEST-${(order.returns?.length ?? 0) + 1}`,
+    items: [{ sku, title: sku, quantity }],
+    reason,
+    requestedAt: '2026-03-06T00:00:00.000Z',
+    restocked: true,
+    refunded,
+  }]
+  order.refunds = [...(order.refunds ?? []), { amount: refunded, description: 'Visa ending 4242', reason: 'Return', refundedAt: '2026-03-06T00:00:00.000Z' }]
+}
+
+const WEEK_AFTER = new Date('2026-03-12T00:00:00Z')
+
+describe('transition', () => {
+  it('moves an order through its lifecycle, recording each step', () => {
+    const order = confirmedOrder()
+    transition(order, 'shipped', new Date('2026-03-03T10:00:00Z'), 'Left the warehouse')
+    transition(order, 'delivered', new Date('2026-03-05T14:00:00Z'))
+    transition(order, 'returned', new Date('2026-03-06T09:00:00Z'))
+
+    assert.equal(order.status, 'returned')
+    assert.deepEqual(order.history.map(c => c.status), ['pending', 'confirmed', 'shipped', 'delivered', 'returned'])
+    assert.equal(order.history[2].note, 'Left the warehouse')
+    assert.equal(enteredAt(order, 'delivered')?.toISOString(), '2026-03-05T14:00:00.000Z')
+  })
+
+  it('refuses moves the lifecycle doesn\'t allow and leaves the order as it was', () => {
+    const order = confirmedOrder()
+    assert.throws(() => transition(order, 'delivered'), /is confirmed and can't be delivered/)
+    assert.throws(() => transition(order, 'returned'), /can't be returned/)
+    assert.equal(order.status, 'confirmed')
+    assert.equal(order.history.length, 2)
+  })
+
+  it('only cancels orders that haven\'t shipped, and nothing leaves a final status', () => {
+    assert.ok(canTransition(confirmedOrder({ status: 'pending' }), 'cancelled'))
+    assert.ok(canTransition(confirmedOrder(), 'cancelled'))
+    assert.ok(!canTransition(confirmedOrder({ status: 'shipped' }), 'cancelled'))
+    assert.ok(!canTransition(confirmedOrder({ status: 'delivered' }), 'cancelled'))
+
+    for (const status of ['cancelled', 'returned'] as const) {
+      for (const to of ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled', 'returned'] as const) {
+        assert.ok(!canTransition(confirmedOrder({ status }), to), `${status} -> ${to}`)
+      }
+    }
+  })
+})
+
+describe('advanceOrder', () => {
+  it('ships after a day of handling and delivers on the estimated date', () => {
+    const order = confirmedOrder()
+    assert.deepEqual(nextStep(order), { status: 'shipped', at: new Date('2026-03-03T10:00:00Z') })
+
+    assert.equal(advanceOrder(order, new Date('2026-03-03T09:59:00Z')), false)
+    assert.equal(order.status, 'confirmed')
+
+    assert.equal(advanceOrder(order, new Date('2026-03-04T00:00:00Z')), true)
+    assert.equal(order.status, 'shipped')
+    assert.equal(enteredAt(order, 'shipped')?.toISOString(), '2026-03-03T10:00:00.000Z')
+    assert.deepEqual(nextStep(order), { status: 'delivered', at: new Date('2026-03-05T14:00:00Z') })
+  })
+
+  it('applies every step that is due at once, stamped with when each was due', () => {
+    const order = confirmedOrder()
+    assert.equal(advanceOrder(order, new Date('2026-04-01T00:00:00Z')), true)
+    assert.equal(order.status, 'delivered')
+    assert.deepEqual(order.history.slice(2).map(c => [c.status, c.at]), [
+      ['shipped', '2026-03-03T10:00:00.000Z'],
+      ['delivered', '2026-03-05T14:00:00.000Z'],
+    ])
+    assert.equal(nextStep(order), undefined)
+    assert.equal(advanceOrder(order, new Date('2026-05-01T00:00:00Z')), false)
+  })
+
+  it('leaves pending and cancelled orders where they are', () => {
+    const pending = confirmedOrder({ status: 'pending', history: [{ status: 'pending', at: CONFIRMED_AT }] })
+    assert.equal(advanceOrder(pending, new Date('2026-04-01T00:00:00Z')), false)
+    assert.equal(nextStep(pending), undefined)
+
+    const cancelled = confirmedOrder()
+    transition(cancelled, 'cancelled', new Date('2026-03-02T11:00:00Z'))
+    assert.equal(advanceOrder(cancelled, new Date('2026-04-01T00:00:00Z')), false)
+    assert.equal(cancelled.status, 'cancelled')
+  })
+})
+
+describe('planReturn', () => {
+  it('refunds the units\' share of the items after discounts, plus tax, but not shipping', () => {
+    const order = deliveredOrder()
+    const one = planReturn(order, [{ productId: 'LA001', quantity: 1 }], 'changed_mind', WEEK_AFTER)
+    assert.equal(one.amount, 39.6)
+    assert.equal(one.restocked, true)
+    assert.deepEqual(one.items, [{ sku: 'LA001', title: 'Lamp', quantity: 1 }])
+
+    const everything = planReturn(order, [{ productId: 'LA001' }, { productId: 'USB002' }], 'changed_mind', WEEK_AFTER)
+    assert.equal(everything.amount, 99)
+  })
+
+  it('only takes back units that haven\'t been returned yet', () => {
+    const order = deliveredOrder()
+    recordReturn(order, 'LA001', 1, 'changed_mind', 39.6)
+
+    assert.throws(() => planReturn(order, [{ productId: 'LA001', quantity: 2 }], 'changed_mind', WEEK_AFTER), /return up to 1 of Lamp/)
+    assert.throws(() => planReturn(order, [{ productId: 'LA001' }, { productId: 'LA001' }], 'changed_mind', WEEK_AFTER), /already been returned/)
+    assert.equal(planReturn(order, [{ productId: 'LA001' }], 'changed_mind', WEEK_AFTER).amount, 39.6)
+
+    recordReturn(order, 'LA001', 1, 'changed_mind', 39.6)
+    assert.throws(() => planReturn(order, [{ productId: 'LA001' }], 'changed_mind', WEEK_AFTER), /already been returned/)
+    for (const quantity of [0, -1, 0.5]) {
+      assert.throws(() => planReturn(order, [{ productId: 'USB002', quantity }], 'changed_mind', WEEK_AFTER), /return up to 1 of Cable/)
+    }
+  })
+
+  it('never refunds more than is left of what was paid', () => {
+    const order = deliveredOrder()
+    order.refunds = [{ amount: 100, description: 'Visa ending 4242', reason: 'Goodwill', refundedAt: CONFIRMED_AT }]
+    assert.equal(refundableAmount(order), 4.99)
+    assert.equal(planReturn(order, [{ productId: 'LA001', quantity: 1 }], 'changed_mind', WEEK_AFTER).amount, 4.99)
+
+    order.refunds.push({ amount: 4.99, description: 'Visa ending 4242', reason: 'Goodwill', refundedAt: CONFIRMED_AT })
+    assert.equal(refundableAmount(order), 0)
+    assert.equal(planReturn(order, [{ productId: 'LA001', quantity: 1 }], 'changed_mind', WEEK_AFTER).amount, 0)
+  })
+
+  it('keeps each reason to its window and doesn\'t resell damaged or defective units', () => {
+    const order = deliveredOrder()
+    const threeWeeksAfter = new Date('2026-03-26T00:00:00Z')
+    assert.throws(() => planReturn(order, [{ productId: 'LA001' }], 'damaged', threeWeeksAfter), /close 14 days after delivery/)
+    assert.equal(planReturn(order, [{ productId: 'LA001' }], 'defective', threeWeeksAfter).restocked, false)
+    assert.equal(planReturn(order, [{ productId: 'LA001' }], 'damaged', WEEK_AFTER).restocked, false)
+    assert.throws(() => planReturn(order, [{ productId: 'LA001' }], 'changed_mind', new Date('2026-04-05T00:00:00Z')), /close 30 days/)
+  })
+
+  it('only returns delivered orders, and only what they contain', () => {
+    assert.throws(() => planReturn(confirmedOrder(), [{ productId: 'LA001' }], 'changed_mind', WEEK_AFTER), /Only delivered orders can be returned. You can cancel it instead./)
+
+    const order = deliveredOrder()
+    assert.throws(() => planReturn(order, [{ productId: 'HP003' }], 'changed_mind', WEEK_AFTER), /doesn't include product "HP003"/)
+    assert.throws(() => planReturn(order, [], 'changed_mind', WEEK_AFTER), /Say which items/)
+    assert.throws(() => planReturn(order, [{ productId: 'LA001' }], 'bogus' as ReturnReason, WEEK_AFTER), /Unknown return reason/)
+  })
+})
@@ -0,0 +1,73 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { openSession } from "../session"
+import { DEFAULT_PAGE_SIZE, getAllProducts, searchProducts } from "../tools"
+
+describe('pagination', () => {
+  it('returns the first page by default with a cursor to the next', async () => {
+    const { results, page } = await getAllProducts(await openSession('pager'))
+    assert.equal(results.length, DEFAULT_PAGE_SIZE)
+    assert.deepEqual(
+      { offset: page.offset, limit: page.limit, total: page.total, page: page.page, pageCount: page.pageCount, hasMore: page.hasMore },
+      { offset: 0, limit: DEFAULT_PAGE_SIZE, total: 15, page: 1, pageCount: 3, hasMore: true }
+    )
+    assert.ok(page.nextCursor)
+  })
+
+  it('follows cursors through every product exactly once', async () => {
+    const session = await openSession('pager')
+    const seen: string[] = []
+    let cursor: string | undefined
+    let pages = 0
+    do {
+      const { results, page } = await getAllProducts(session, cursor ? { cursor } : { limit: 4 })
+      seen.push(...results.map(r => r.id))
+      cursor = page.nextCursor
+      pages++
+    } while (cursor)
+
+    assert.equal(pages, 4)
+    assert.equal(seen.length, 15)
+    assert.equal(new Set(seen).size, 15)
+  })
+
+  it('clamps the page size and offset', async () => {
+    const session = await openSession('pager')
+    assert.equal((await getAllProducts(session, { limit: 500 })).page.limit, 50)
+    assert.equal((await getAllProducts(session, { limit: 0 })).page.limit, 1)
+    assert.equal((await getAllProducts(session, { offset: -3 })).page.offset, 0)
+  })
+
+  it('returns an empty last page past the end', async () => {
+    const { results, page } = await getAllProducts(await openSession('pager'), { offset: 20 })
+    assert.equal(results.length, 0)
+    assert.equal(page.hasMore, false)
+    assert.equal(page.nextCursor, undefined)
+  })
+
+  it('refuses cursors it didn\'t hand out', async () => {
+    const session = await openSession('pager')
+    await assert.rejects(getAllProducts(session, { cursor: 'not-a-cursor' }), /Invalid page cursor "not-a-cursor"/)
+    const forged = Buffer.from(JSON.stringify({ offset: 'x', limit: 5 })).toString('base64url')
+    await assert.rejects(getAllProducts(session, { cursor: forged }), /Invalid page cursor/)
+  })
+
+  it('pages search results and counts facets over every match', async () => {
+    const session = await openSession('pager')
+    const first = await searchProducts(session, 'usb c cable', undefined, { limit: 3 })
+    const second = await searchProducts(session, 'usb c cable', undefined, { cursor: first.page.nextCursor })
+
+    assert.equal(first.page.total, 6)
+    assert.equal(first.results.length, 3)
+    assert.equal(second.results.length, 3)
+    assert.equal(second.page.page, 2)
+    assert.equal(second.page.hasMore, false)
+    assert.equal(
+      new Set([...first.results, ...second.results].map(r => r.id)).size,
+      6
+    )
+    const brandTotal = first.facets.brand.reduce((sum, b) => sum + b.count, 0)
+    assert.equal(brandTotal, 6)
+  })
+})
@@ -0,0 +1,126 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { PaymentMethod } from "../data"
+import { getSkuAvailability } from "../inventory"
+import { authorize, balanceOf, capture, PaymentsState, refund, saveCard, saveGiftCard, voidAuthorization } from "../payments"
+import { openSession } from "../session"
+import { getStorage } from "../storage"
+import { addToCart, checkout, purchaseProduct } from "../tools"
+
+const wallet = () => ({ methods: [] as PaymentMethod[] })
+const ledger = async () => (await getStorage().loadShared('payments')) as PaymentsState
+
+describe('authorize', () => {
+  it('declines amounts of $0 or less without holding anything', async () => {
+    const card = await saveGiftCard(wallet(), 'GIFT-ALPHA-50')
+    for (const amount of [0, -10, 0.004]) {
+      const authorization = await authorize('payer-a', card, amount)
+      assert.equal(authorization.status, 'declined')
+      assert.equal(authorization.declineReason, 'invalid_amount')
+    }
+    assert.equal(await balanceOf('payer-a', card), 50)
+  })
+
+  it('declines the gateway\'s test cards and balances that are too low', async () => {
+    const declining = saveCard(wallet(), { number: '4000 0000 0000 0002', expiry: '12/40' })
+    assert.equal((await authorize('payer-b', declining, 20)).declineReason, 'card_declined')
+
+    const gift = await saveGiftCard(wallet(), 'GIFT-CHARLIE-10')
+    assert.equal((await authorize('payer-b', gift, 10.01)).declineReason, 'insufficient_funds')
+    assert.equal((await authorize('payer-b', gift, 10)).status, 'authorized')
+  })
+})
+
+describe('capture and void', () => {
+  it('holds an approved amount until it is captured or voided', async () => {
+    const card = await saveGiftCard(wallet(), 'GIFT-ALPHA-50')
+    const held = await authorize('payer-c', card, 20)
+    assert.equal(await balanceOf('payer-c', card), 30)
+
+    await voidAuthorization(held.id)
+    assert.equal(await balanceOf('payer-c', card), 50)
+    await assert.rejects(capture(held.id), /it is voided/)
+
+    const taken = await capture((await authorize('payer-c', card, 15)).id)
+    assert.equal(taken.status, 'captured')
+    assert.equal(await balanceOf('payer-c', card), 35)
+    await assert.rejects(voidAuthorization(taken.id), /it is captured/)
+  })
+})
+
+describe('refund', () => {
+  it('sends a charge back in parts, never more than was captured', async () => {
+    const card = await saveGiftCard(wallet(), 'GIFT-BRAVO-100')
+    const charge = await capture((await authorize('payer-d', card, 60)).id)
+    assert.equal(await balanceOf('payer-d', card), 40)
+
+    assert.equal((await refund(charge.id, 25.5)).refunded, 25.5)
+    await assert.rejects(refund(charge.id, 34.51), /\$34\.50 is left to refund/)
+    await assert.rejects(refund(charge.id, 0), /can't be refunded/)
+    assert.equal(await balanceOf('payer-d', card), 65.5)
+
+    const rest = await refund(charge.id, 34.5)
+    assert.equal(rest.status, 'refunded')
+    assert.equal(rest.refunded, 60)
+    assert.equal(await balanceOf('payer-d', card), 100)
+    await assert.rejects(refund(charge.id, 0.01), /it is refunded/)
+  })
+
+  it('only refunds captured charges', async () => {
+    const card = await saveGiftCard(wallet(), 'GIFT-BRAVO-100')
+    const held = await authorize('payer-e', card, 5)
+    await assert.rejects(refund(held.id, 5), /it is authorized/)
+  })
+})
+
+describe('charging an order', () => {
+  it('voids the authorization when the stock can\'t be taken', async () => {
+    const session = await openSession('payer-f')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+
+    await assert.rejects(purchaseProduct(session, 'HP003', 1, undefined, { shippingMethod: 'pickup' }), /out of stock/)
+
+    const authorizations = (await ledger()).authorizations.filter(a => a.userId === 'payer-f')
+    assert.equal(authorizations.length, 1)
+    assert.equal(authorizations[0].status, 'voided')
+    assert.equal(session.orders.length, 0)
+  })
+
+  it('captures what the order costs once the stock is taken', async () => {
+    const session = await openSession('payer-g')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+    const before = (await getSkuAvailability(['LA001']))['LA001'].availableStock
+
+    const order = await purchaseProduct(session, 'LA001', 2, undefined, { shippingMethod: 'pickup' })
+
+    assert.equal(order.status, 'confirmed')
+    assert.equal(order.payment!.amount, order.total)
+    const [authorization] = (await ledger()).authorizations.filter(a => a.userId === 'payer-g')
+    assert.equal(authorization.status, 'captured')
+    assert.equal(authorization.amount, order.total)
+    assert.equal((await getSkuAvailability(['LA001']))['LA001'].availableStock, before - 2)
+  })
+})
+
+describe('paying at checkout', () => {
+  it('leaves the cart, stock and orders as they were when declined', async () => {
+    const session = await openSession('payer-h')
+    saveCard(session.wallet, { number: '4000000000009995', expiry: '12/40' })
+    await addToCart(session, 'LA001', 1)
+    const before = (await getSkuAvailability(['LA001'], 'payer-h'))['LA001'].availableStock
+
+    await assert.rejects(checkout(session, { shippingMethod: 'pickup' }), /Payment declined: Visa ending 9995 doesn't have enough funds/)
+    assert.equal(session.cart.items.length, 1)
+    assert.equal(session.orders.length, 0)
+    assert.equal((await getSkuAvailability(['LA001'], 'payer-h'))['LA001'].availableStock, before)
+  })
+
+  it('takes store credit in place of a saved card', async () => {
+    const session = await openSession('default')
+    await addToCart(session, 'USB003', 1, { length: '1m' })
+    const order = await checkout(session, { shippingMethod: 'pickup', paymentMethodId: 'store-credit' })
+    assert.equal(order.status, 'confirmed')
+    assert.equal(await balanceOf('default', 'store-credit'), Math.round((25 - order.total) * 100) / 100)
+  })
+})
@@ -0,0 +1,88 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { hasHistory, MAX_VIEWED_PRODUCTS, recommendFor, recordView } from "../personalize"
+import { openSession } from "../session"
+import { getStorage, emptyState } from "../storage"
+import { addToCart, addToWishlist, dismissRecommendation, getPersonalRecommendations, getProductDetails } from "../tools"
+
+describe('recordView', () => {
+  it('keeps the most recent views first, once each, up to the limit', () => {
+    const profile = emptyState().profile
+    recordView(profile, 'HP001')
+    recordView(profile, 'LA001')
+    recordView(profile, 'HP001')
+    assert.deepEqual(profile.viewed.map(view => view.productId), ['HP001', 'LA001'])
+
+    for (let i = 0; i < MAX_VIEWED_PRODUCTS + 5; i++) recordView(profile, `P${i}`)
+    assert.equal(profile.viewed.length, MAX_VIEWED_PRODUCTS)
+    assert.equal(profile.viewed[0].productId, `P${MAX_VIEWED_PRODUCTS + 4}`)
+  })
+})
+
+describe('recommendFor', () => {
+  it('falls back to popular products for a shopper with no history', () => {
+    const state = emptyState()
+    assert.ok(!hasHistory(state))
+    const picks = recommendFor(state, 3)
+    assert.equal(picks.length, 3)
+    assert.ok(picks.every(pick => pick.because === undefined))
+    assert.ok(picks[0].score >= picks[1].score)
+  })
+
+  it('suggests products like the ones the shopper showed interest in', () => {
+    const state = emptyState()
+    state.wishlist.items.push('HB001')
+    const picks = recommendFor(state, 3)
+    assert.ok(['HB002', 'HB004'].includes(picks[0].id))
+    assert.deepEqual(picks[0].because, { productId: 'HB001', signal: 'wishlisted' })
+    assert.ok(picks.every(pick => pick.id !== 'HB001'), 'never the wishlisted product itself')
+  })
+
+  it('pushes down products like the ones the shopper dismissed', () => {
+    const state = emptyState()
+    state.wishlist.items.push('HB001')
+    const before = recommendFor(state, 10)
+    state.profile.dismissed.push('HB002')
+    const after = recommendFor(state, 10)
+
+    assert.ok(after.every(pick => pick.id !== 'HB002'))
+    const score = (picks: typeof before, id: string) => picks.find(pick => pick.id === id)?.score ?? 0
+    assert.ok(score(after, 'HB004') < score(before, 'HB004'))
+  })
+})
+
+describe('personal recommendations', () => {
+  it('record views in the live session without saving them on their own', async () => {
+    const session = await openSession('viewer')
+    await getProductDetails(session, 'HP001')
+    assert.deepEqual(session.profile.viewed.map(view => view.productId), ['HP001'])
+    assert.equal((await getStorage().loadUser('viewer')).profile.viewed.length, 0)
+
+    await addToCart(session, 'LA001', 1)
+    assert.deepEqual((await getStorage().loadUser('viewer')).profile.viewed.map(view => view.productId), ['HP001'])
+  })
+
+  it('explain each pick and summarize the profile', async () => {
+    const session = await openSession('feed')
+    await addToWishlist(session, 'HB001')
+    await getProductDetails(session, 'USB002')
+
+    const feed = await getPersonalRecommendations(session, 4)
+    assert.ok(feed.personalized)
+    assert.deepEqual(feed.profile, { purchased: 0, wishlisted: 1, viewed: 1, dismissed: 0 })
+    assert.ok(feed.results.every(r => r.reason.length > 0 && r.deliveryDate))
+    assert.ok(feed.results.some(r => r.reason.startsWith('Like the') && r.basedOn === 'HB001'))
+  })
+
+  it('leave dismissed products out of the feed', async () => {
+    const session = await openSession('dismisser')
+    const { results } = await getPersonalRecommendations(session, 3)
+    await dismissRecommendation(session, results[0].id)
+
+    const again = await getPersonalRecommendations(session, 3)
+    assert.ok(again.results.every(r => r.id !== results[0].id))
+    assert.deepEqual((await getStorage().loadUser('dismisser')).profile.dismissed, [results[0].id])
+    await assert.rejects(dismissRecommendation(session, 'NOPE'), /Product "NOPE" not found/)
+  })
+})
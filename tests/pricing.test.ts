@@ -0,0 +1,120 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { CartItem } from "../data"
+import { getAvailability } from "../inventory"
+import { saveCard } from "../payments"
+import { defaultRegion, findRegion, FREE_SHIPPING_THRESHOLD, priceOrder } from "../pricing"
+import { openSession } from "../session"
+import { addAddress, addToCart, checkout, purchaseProduct } from "../tools"
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+function line(productId: string, price: number, quantity: number = 1): CartItem {
+  return { productId, sku: productId, title: productId, price, quantity }
+}
+
+describe('regions', () => {
+  it('are found by code or name in any case', () => {
+    assert.equal(findRegion('us-ny')?.name, 'New York')
+    assert.equal(findRegion(' united kingdom ')?.code, 'GB')
+    assert.equal(findRegion('Mars'), undefined)
+  })
+
+  it('default to CONCIERGE_REGION, or California', () => {
+    const saved = process.env.CONCIERGE_REGION
+    try {
+      delete process.env.CONCIERGE_REGION
+      assert.equal(defaultRegion().code, 'US-CA')
+      process.env.CONCIERGE_REGION = 'Germany'
+      assert.equal(defaultRegion().code, 'DE')
+      process.env.CONCIERGE_REGION = 'Atlantis'
+      assert.equal(defaultRegion().code, 'US-CA')
+    } finally {
+      if (saved === undefined) delete process.env.CONCIERGE_REGION
+      else process.env.CONCIERGE_REGION = saved
+    }
+  })
+})
+
+describe('shipping', () => {
+  it('is free on standard delivery from the threshold, after discounts', () => {
+    assert.equal(FREE_SHIPPING_THRESHOLD, 75)
+    assert.deepEqual(priceOrder([line('LA001', 75)], [], { region: 'US-CA' }, NOW).shipping, { method: 'standard', weightKg: 1, cost: 0, free: true })
+    assert.equal(priceOrder([line('LA001', 74.99)], [], { region: 'US-CA' }, NOW).shipping.cost, 5.99)
+
+    // $80 less SAVE10's $8 leaves $72, under the threshold
+    const discounted = priceOrder([line('LA001', 80)], ['SAVE10'], { region: 'US-CA' }, NOW)
+    assert.equal(discounted.itemsTotal, 72)
+    assert.deepEqual(discounted.shipping, { method: 'standard', weightKg: 1, cost: 5.99, free: false })
+  })
+
+  it('is never free for express or international orders', () => {
+    assert.equal(priceOrder([line('LA001', 99.99)], [], { region: 'US-CA', shippingMethod: 'express' }, NOW).shipping.cost, 14.99)
+    assert.equal(priceOrder([line('LA001', 99.99)], [], { region: 'GB' }, NOW).shipping.cost, 20.99)
+  })
+
+  it('bills each started kilogram after the first, packaging included', () => {
+    // Two 1,050 g boots and 200 g of packaging make 2.3 kg, billed as 3
+    const pricing = priceOrder([line('HB003', 10, 2)], [], { region: 'US-CA' }, NOW)
+    assert.equal(pricing.shipping.weightKg, 3)
+    assert.equal(pricing.shipping.cost, 8.99)
+
+    // Products without a weight count as 300 g
+    assert.equal(priceOrder([line('USB001', 10, 3)], [], { region: 'US-CA' }, NOW).shipping.weightKg, 2)
+  })
+})
+
+describe('tax', () => {
+  it('leaves shipping untaxed where the region doesn\'t tax it', () => {
+    const pricing = priceOrder([line('USB001', 12.99)], [], { region: 'US-CA' }, NOW)
+    assert.deepEqual(pricing.tax, { region: 'US-CA', name: 'California sales tax', rate: 7.25, taxable: 12.99, amount: 0.94 })
+    assert.equal(pricing.total, 19.92)
+  })
+
+  it('taxes shipping along with the items where the region does', () => {
+    const pricing = priceOrder([line('USB001', 12.99)], [], { region: 'New York' }, NOW)
+    assert.deepEqual(pricing.tax, { region: 'US-NY', name: 'New York sales tax', rate: 8, taxable: 18.98, amount: 1.52 })
+    assert.equal(pricing.total, 20.5)
+
+    const vat = priceOrder([line('LA001', 99.99)], [], { region: 'GB' }, NOW)
+    assert.equal(vat.tax.name, 'United Kingdom VAT')
+    assert.equal(vat.tax.taxable, 120.98)
+    assert.equal(vat.total, 145.18)
+  })
+
+  it('is charged on the items after discounts', () => {
+    const pricing = priceOrder([line('LA001', 100)], ['SAVE10'], { region: 'US-OR' }, NOW)
+    assert.equal(pricing.subtotal, 100)
+    assert.equal(pricing.discountTotal, 10)
+    assert.equal(pricing.tax.taxable, 90)
+    assert.equal(pricing.tax.amount, 0)
+    assert.equal(pricing.total, 90)
+  })
+})
+
+describe('priced orders', () => {
+  it('carry their shipping and the tax of the address they ship to', async () => {
+    const session = await openSession('priced')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+    await addAddress(session, { name: 'Ana Lee', line1: '1 Main St', city: 'Albany', region: 'New York', postalCode: '12207' })
+    await addToCart(session, 'LA001', 1)
+    const order = await checkout(session, { shippingMethod: 'express' })
+    assert.equal(order.shipping?.cost, 14.99)
+    assert.equal(order.tax?.region, 'US-NY')
+    assert.equal(order.tax?.taxable, 114.98)
+    assert.equal(order.total, 124.18)
+  })
+
+  it('need an address before taking stock, unless picked up', async () => {
+    const session = await openSession('unaddressed')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+    const before = (await getAvailability(['LA002']))['LA002'].availableStock
+    await assert.rejects(purchaseProduct(session, 'LA002', 1), /You have no saved shipping address/)
+    assert.equal((await getAvailability(['LA002']))['LA002'].availableStock, before)
+
+    const order = await purchaseProduct(session, 'LA002', 1, undefined, { shippingMethod: 'pickup' })
+    assert.equal(order.shipping?.cost, 0)
+    assert.equal(order.tax?.region, 'US-CA')
+  })
+})
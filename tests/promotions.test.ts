@@ -0,0 +1,139 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { CartItem } from "../data"
+import { saveCard } from "../payments"
+import { priceItems, validateCoupon } from "../promotions"
+import { openSession } from "../session"
+import { addToCart, applyCoupon, checkout, clearCart, removeCoupon, viewCart } from "../tools"
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+function line(productId: string, price: number, quantity: number = 1): CartItem {
+  return { productId, sku: productId, title: productId, price, quantity }
+}
+
+describe('validateCoupon', () => {
+  it('accepts codes in any case', () => {
+    assert.equal(validateCoupon(' save10 ', [], NOW).id, 'save10')
+  })
+
+  it('refuses unknown, expired, not yet valid and repeated codes', () => {
+    assert.throws(() => validateCoupon('FREESTUFF', [], NOW), /"FREESTUFF" isn't a valid coupon code/)
+    assert.throws(() => validateCoupon('SUMMER25', [], NOW), /SUMMER25 expired on 2026-08-31/)
+    assert.throws(() => validateCoupon('SUMMER25', [], new Date('2026-05-01T12:00:00Z')), /SUMMER25 starts on 2026-06-01/)
+    assert.equal(validateCoupon('SUMMER25', [], new Date('2026-07-01T12:00:00Z')).id, 'summer25')
+    assert.throws(() => validateCoupon('SAVE10', ['SAVE10'], NOW), /SAVE10 is already applied/)
+  })
+
+  it('combines stackable coupons only', () => {
+    assert.equal(validateCoupon('CABLES3FOR2', ['SAVE10', 'AUDIO25'], NOW).id, 'cables-3-for-2')
+    assert.throws(() => validateCoupon('WELCOME15', ['SAVE10'], NOW), /WELCOME15 can't be combined with other coupons\. Remove SAVE10 first/)
+    assert.throws(() => validateCoupon('SAVE10', ['WELCOME15'], NOW), /WELCOME15 can't be combined with other coupons\. Remove it first to use SAVE10/)
+  })
+})
+
+describe('priceItems', () => {
+  it('applies running sales to their category without a code', () => {
+    const pricing = priceItems([line('HB001', 200), line('LA001', 100)], [], NOW)
+    assert.equal(pricing.subtotal, 300)
+    assert.deepEqual(pricing.discounts.map(d => [d.promotionId, d.amount]), [['fall-hiking-sale', 30]])
+    assert.equal(pricing.total, 270)
+
+    const afterSale = priceItems([line('HB001', 200)], [], new Date('2027-04-01T12:00:00Z'))
+    assert.equal(afterSale.discountTotal, 0)
+  })
+
+  it('gives the cheapest unit of every full group free on buy x get y', () => {
+    const pricing = priceItems([line('USB001', 20, 3), line('USB003', 10, 2), line('HP001', 300)], ['CABLES3FOR2'], NOW)
+    assert.deepEqual(pricing.discounts.map(d => d.amount), [20], 'one full group of three cables; the fourth and fifth wait for a sixth')
+
+    const six = priceItems([line('USB001', 20, 3), line('USB003', 10, 3)], ['CABLES3FOR2'], NOW)
+    assert.deepEqual(six.discounts.map(d => d.amount), [30], 'dearest units grouped first: 20+20+20 frees 20, 10+10+10 frees 10')
+  })
+
+  it('stacks coupons in the order applied, each on what the one before left', () => {
+    const items = [line('USB001', 30), line('USB002', 20), line('USB003', 10), line('HP001', 100)]
+    const pricing = priceItems(items, ['CABLES3FOR2', 'SAVE10'], NOW)
+    assert.deepEqual(pricing.discounts.map(d => [d.code, d.amount]), [['CABLES3FOR2', 10], ['SAVE10', 15]])
+    assert.equal(pricing.total, 135)
+
+    const reversed = priceItems(items, ['SAVE10', 'CABLES3FOR2'], NOW)
+    assert.deepEqual(reversed.discounts.map(d => [d.code, d.amount]), [['SAVE10', 16], ['CABLES3FOR2', 9]])
+    assert.equal(reversed.total, 135)
+  })
+
+  it('checks minimum spend against the total after earlier discounts', () => {
+    // The sale takes $16.50 off the $110 boots, leaving less than WELCOME15 needs
+    const pricing = priceItems([line('HB001', 110)], ['WELCOME15'], NOW)
+    assert.deepEqual(pricing.discounts.map(d => d.promotionId), ['fall-hiking-sale'])
+    assert.deepEqual(pricing.notices, ['Spend $6.50 more to use WELCOME15 (minimum $100.00)'])
+
+    const short = priceItems([line('LA001', 40)], ['SAVE10'], NOW)
+    assert.equal(short.discountTotal, 0)
+    assert.deepEqual(short.notices, ['Spend $10.00 more to use SAVE10 (minimum $50.00)'])
+  })
+
+  it('caps a fixed discount at what its scope costs', () => {
+    const pricing = priceItems([line('HP001', 20), line('LA001', 200)], ['AUDIO25'], NOW)
+    assert.deepEqual(pricing.discounts.map(d => d.amount), [20])
+    assert.equal(pricing.total, 200)
+  })
+
+  it('explains coupons that don\'t take effect', () => {
+    const pricing = priceItems([line('HP001', 100)], ['CABLES3FOR2', 'SUMMER25', 'GONE'], NOW)
+    assert.equal(pricing.discountTotal, 0)
+    assert.deepEqual(pricing.notices, [
+      'SUMMER25 expired on 2026-08-31',
+      'GONE is no longer a valid coupon',
+      'CABLES3FOR2 doesn\'t apply to anything in your cart',
+    ])
+  })
+})
+
+describe('coupons on the cart', () => {
+  it('apply, show in the cart and come off again', async () => {
+    const session = await openSession('coupon-user')
+    await addToCart(session, 'LA001', 1)
+
+    const applied = await applyCoupon(session, 'save10')
+    assert.equal(applied.message, 'Applied SAVE10: 10% off orders of $50 or more - you save $10.00')
+    assert.deepEqual((await viewCart(session)).pricing.discounts.map(d => d.code), ['SAVE10'])
+    assert.equal(session.cart.total, 89.99)
+    await assert.rejects(applyCoupon(session, 'WELCOME15'), /can't be combined/)
+
+    await removeCoupon(session, 'Save10')
+    assert.deepEqual(session.cart.coupons, [])
+    assert.equal(session.cart.total, 99.99)
+    await assert.rejects(removeCoupon(session, 'SAVE10'), /Coupon "SAVE10" isn't applied to your cart/)
+  })
+
+  it('say when an applied coupon doesn\'t take effect yet', async () => {
+    const session = await openSession('coupon-short')
+    await addToCart(session, 'LA001', 1)
+    const { message } = await applyCoupon(session, 'WELCOME15')
+    assert.equal(message, 'Applied WELCOME15, but it doesn\'t take effect yet: Spend $0.01 more to use WELCOME15 (minimum $100.00)')
+  })
+
+  it('record the discounts on the order and are used up by checkout', async () => {
+    const session = await openSession('coupon-buyer')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+    await addToCart(session, 'LA001', 1)
+    await addToCart(session, 'LA002', 1)
+    await applyCoupon(session, 'WELCOME15')
+
+    const order = await checkout(session, { shippingMethod: 'pickup' })
+    assert.equal(order.subtotal, 208.99)
+    assert.deepEqual(order.discounts?.map(d => [d.code, d.amount]), [['WELCOME15', 15]])
+    assert.equal(order.total, 208.05, 'plus California sales tax, where pickup orders are taxed')
+    assert.deepEqual(session.cart.coupons, [])
+  })
+
+  it('are dropped when the cart is cleared', async () => {
+    const session = await openSession('coupon-clearer')
+    await addToCart(session, 'LA001', 1)
+    await applyCoupon(session, 'SAVE10')
+    await clearCart(session)
+    assert.deepEqual(session.cart.coupons, [])
+  })
+})
@@ -0,0 +1,100 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { mergeFilters, parseQuery } from "../query"
+import { openSession } from "../session"
+import { searchProducts } from "../tools"
+
+describe('parseQuery', () => {
+  it('splits a phrase into keywords and filters', () => {
+    assert.deepEqual(parseQuery('Anker cables under $15 with 4+ stars'), {
+      searchTerm: 'cables',
+      filters: { minRating: 4, maxPrice: 15, brand: 'Anker' },
+    })
+  })
+
+  it('reads price limits, ranges and approximate prices', () => {
+    assert.deepEqual(parseQuery('boots between $100 and $200').filters, { minPrice: 100, maxPrice: 200 })
+    assert.deepEqual(parseQuery('headphones over $200 but under $400').filters, { minPrice: 200, maxPrice: 400 })
+    assert.deepEqual(parseQuery('cables around $50').filters, { minPrice: 40, maxPrice: 60 })
+    assert.deepEqual(parseQuery('keyboard $50+').filters, { minPrice: 50 })
+    assert.deepEqual(parseQuery('speakers under 1.5k').filters, { maxPrice: 1500 })
+  })
+
+  it('reads ratings before prices', () => {
+    assert.deepEqual(parseQuery('headphones rated 4.5 or higher').filters, { minRating: 4.5 })
+    assert.deepEqual(parseQuery('mice 4 stars and up').filters, { minRating: 4 })
+    assert.deepEqual(parseQuery('cables over 4 stars').filters, { minRating: 4 })
+  })
+
+  it('reads sort orders and delivery windows', () => {
+    assert.deepEqual(parseQuery('cheapest hiking boots'), { searchTerm: 'hiking boots', filters: { sortBy: 'price_asc' } })
+    assert.deepEqual(parseQuery('best rated earbuds').filters, { sortBy: 'rating' })
+    assert.deepEqual(parseQuery('cables delivered by tomorrow'), { searchTerm: 'cables', filters: { deliveryWithinDays: 1 } })
+    assert.deepEqual(parseQuery('boots within three days').filters, { deliveryWithinDays: 3 })
+  })
+
+  it('leaves bare numbers in the search term', () => {
+    assert.deepEqual(parseQuery('10 cables'), { searchTerm: '10 cables', filters: {} })
+  })
+})
+
+describe('parseQuery brands', () => {
+  it('takes a brand that leads the query', () => {
+    assert.deepEqual(parseQuery('show me Bose headphones'), { searchTerm: 'headphones', filters: { brand: 'Bose' } })
+    assert.deepEqual(parseQuery('apple macbook charger').filters, { brand: 'Apple' })
+  })
+
+  it('takes a brand right before a product noun', () => {
+    assert.deepEqual(parseQuery('wireless Sony headphones'), { searchTerm: 'wireless headphones', filters: { brand: 'Sony' } })
+    assert.deepEqual(parseQuery('cheap Anker cables').filters, { brand: 'Anker' })
+  })
+
+  it('prefers the longest brand name and collects several', () => {
+    assert.deepEqual(parseQuery('find me some amazon basics cables').filters, { brand: 'Amazon Basics' })
+    assert.deepEqual(parseQuery('sony and bose headphones').filters, { brand: ['Sony', 'Bose'] })
+  })
+
+  it('leaves brands naming what the product must fit', () => {
+    for (const phrase of [
+      'cable for my apple macbook',
+      'cable for apple macbook',
+      'earbuds for an Apple iPhone',
+      'headphones compatible with apple',
+      'usb c cable that works with Apple',
+    ]) {
+      assert.deepEqual(parseQuery(phrase), { searchTerm: phrase, filters: {} }, phrase)
+    }
+  })
+
+  it('leaves brands mid-query that don\'t precede a product noun', () => {
+    assert.deepEqual(parseQuery('cable apple').filters, {})
+  })
+
+  it('treats "looking for" as a lead-in, not compatibility', () => {
+    assert.deepEqual(parseQuery('looking for sony headphones').filters, { brand: 'Sony' })
+  })
+})
+
+describe('mergeFilters', () => {
+  it('lets explicit filters win and ignores unset ones', () => {
+    assert.deepEqual(
+      mergeFilters({ maxPrice: 15, brand: 'Anker' }, { maxPrice: 20, minRating: undefined }),
+      { maxPrice: 20, brand: 'Anker' }
+    )
+  })
+})
+
+describe('searchProducts with a parsed phrase', () => {
+  it('searches every cable for "cable for my apple macbook"', async () => {
+    const { results, query } = await searchProducts(await openSession('parser'), 'cable for my apple macbook')
+    assert.equal(query.filters.brand, undefined)
+    assert.ok(results.some(r => r.brand !== 'Apple'))
+  })
+
+  it('reports the keywords and filters it used', async () => {
+    const { results, query } = await searchProducts(await openSession('parser'), 'Anker cables under $15')
+    assert.deepEqual(query, { searchTerm: 'cables', filters: { maxPrice: 15, brand: 'Anker' } })
+    assert.deepEqual(results.map(r => r.id), ['USB001'])
+  })
+})
@@ -0,0 +1,54 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { similarProducts } from "../recommend"
+import { openSession } from "../session"
+import { addToCart, getRecommendations } from "../tools"
+
+describe('similarProducts', () => {
+  it('ranks products from the same category first', () => {
+    const similar = similarProducts('HB001', 3)
+    assert.deepEqual(similar.map(s => s.id), ['HB002', 'HB004', 'HB003'])
+    assert.ok(similar.every((s, i) => i === 0 || s.score <= similar[i - 1].score))
+    assert.ok(similar.every(s => s.score > 0 && s.score <= 1))
+  })
+
+  it('explains each match by category, shared terms and price', () => {
+    const [best] = similarProducts('USB001', 1)
+    assert.equal(best.id, 'USB004')
+    assert.match(best.reason, /^Also in Cables & Chargers; both mention [\w, ]+; similar price$/)
+
+    const boots = similarProducts('HB001', 3)
+    assert.match(boots[0].reason, /\$79\.96 cheaper$/)
+    assert.match(boots[2].reason, /^Also in Footwear; .*\$369\.05 more$/)
+  })
+
+  it('never recommends unrelated products just for their price', () => {
+    const similar = similarProducts('HP001', 10)
+    assert.deepEqual(similar.map(s => s.id).sort(), ['HP002', 'HP003'])
+    assert.equal(similarProducts('B08N5WRWNW', 5).length, 0)
+  })
+
+  it('respects the limit and knows nothing of unknown products', () => {
+    assert.equal(similarProducts('USB001', 2).length, 2)
+    assert.equal(similarProducts('NOPE', 3).length, 0)
+  })
+})
+
+describe('getRecommendations', () => {
+  it('returns similar products with their reason and cart status', async () => {
+    const session = await openSession('recommender')
+    await addToCart(session, 'HP002', 1)
+    const recommendations = await getRecommendations(session, 'HP001')
+
+    assert.deepEqual(recommendations.map(r => r.id), ['HP003', 'HP002'])
+    assert.equal(recommendations[1].inCart, true)
+    assert.equal(recommendations[0].category, 'Electronics > Audio > Headphones')
+    assert.equal(recommendations[0].stockStatus, 'out_of_stock')
+    assert.ok(recommendations.every(r => r.reason && r.similarity > 0))
+  })
+
+  it('refuses unknown products', async () => {
+    await assert.rejects(getRecommendations(await openSession('recommender'), 'NOPE'), /Product "NOPE" not found/)
+  })
+})
@@ -0,0 +1,90 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { getSkuAvailability } from "../inventory"
+import { advanceOrder } from "../orders"
+import { PaymentsState, saveCard } from "../payments"
+import { openSession, Session } from "../session"
+import { getStorage } from "../storage"
+import { cancelOrder, purchaseProduct, requestReturn } from "../tools"
+
+const available = async (sku: string) => (await getSkuAvailability([sku]))[sku].availableStock
+
+async function shopper(userId: string): Promise<Session> {
+  const session = await openSession(userId)
+  saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+  return session
+}
+
+async function authorizationOf(id: string) {
+  const state = (await getStorage().loadShared('payments')) as PaymentsState
+  return state.authorizations.find(a => a.id === id)!
+}
+
+describe('cancelOrder', () => {
+  it('refunds what was paid and puts the units back on sale', async () => {
+    const session = await shopper('cancel-a')
+    const before = await available('LA001')
+    const order = await purchaseProduct(session, 'LA001', 3, undefined, { shippingMethod: 'pickup' })
+    assert.equal(await available('LA001'), before - 3)
+
+    const cancelled = await cancelOrder(session, order.orderId, 'Ordered by mistake')
+
+    assert.equal(cancelled.status, 'cancelled')
+    assert.equal(cancelled.refund?.amount, order.total)
+    assert.equal(await available('LA001'), before)
+    const authorization = await authorizationOf(order.payment!.authorizationId)
+    assert.equal(authorization.status, 'refunded')
+    assert.equal(authorization.refunded, order.total)
+  })
+
+  it('refuses orders that are already cancelled or have shipped', async () => {
+    const session = await shopper('cancel-b')
+    const before = await available('LA001')
+    const first = await purchaseProduct(session, 'LA001', 1, undefined, { shippingMethod: 'pickup' })
+    await cancelOrder(session, first.orderId)
+    await assert.rejects(cancelOrder(session, first.orderId), /already cancelled/)
+    assert.equal(await available('LA001'), before)
+
+    const second = await purchaseProduct(session, 'LA001', 1, undefined, { shippingMethod: 'pickup' })
+    advanceOrder(session.orders[1], new Date(Date.now() + 60 * 60 * 1000 * 30))
+    await assert.rejects(cancelOrder(session, second.orderId), /already shipped/)
+    assert.equal(await available('LA001'), before - 1)
+  })
+})
+
+describe('requestReturn', () => {
+  it('refunds returns in parts that add up to no more than was paid', async () => {
+    const session = await shopper('return-a')
+    const before = await available('LA001')
+    const order = await purchaseProduct(session, 'LA001', 3, undefined, { shippingMethod: 'pickup' })
+    advanceOrder(session.orders[0], new Date(Date.now() + 30 * 24 * 60 * 60 * 1000))
+
+    const first = await requestReturn(session, order.orderId, [{ productId: 'LA001', quantity: 1 }], 'changed_mind')
+    assert.equal(first.order.status, 'delivered')
+    assert.equal(await available('LA001'), before - 2)
+
+    const rest = await requestReturn(session, order.orderId, [{ productId: 'LA001' }], 'changed_mind')
+    assert.equal(rest.order.status, 'returned')
+    assert.equal(rest.return.items[0].quantity, 2)
+    assert.equal(await available('LA001'), before)
+
+    const refunded = first.refund!.amount + rest.refund!.amount
+    assert.ok(Math.abs(refunded - (order.total - order.shipping!.cost)) < 0.02, `refunded ${refunded} of ${order.total}`)
+    assert.ok(refunded <= order.payment!.amount)
+    assert.equal((await authorizationOf(order.payment!.authorizationId)).refunded, Math.round(refunded * 100) / 100)
+    await assert.rejects(requestReturn(session, order.orderId, [{ productId: 'LA001' }], 'changed_mind'), /is returned/)
+  })
+
+  it('doesn\'t put damaged units back on sale', async () => {
+    const session = await shopper('return-b')
+    const before = await available('LA001')
+    const order = await purchaseProduct(session, 'LA001', 2, undefined, { shippingMethod: 'pickup' })
+    advanceOrder(session.orders[0], new Date(Date.now() + 30 * 24 * 60 * 60 * 1000))
+
+    const returned = await requestReturn(session, order.orderId, [{ productId: 'LA001' }], 'damaged', 'Cracked base')
+    assert.equal(returned.return.restocked, false)
+    assert.equal(returned.return.comment, 'Cracked base')
+    assert.equal(await available('LA001'), before - 2)
+  })
+})
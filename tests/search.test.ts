@@ -0,0 +1,92 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { editDistance, rankProducts, tokenize } from "../search"
+import { openSession } from "../session"
+import { searchProducts } from "../tools"
+
+const ids = (hits: Array<{ id: string }>) => hits.map(hit => hit.id)
+const score = (hits: Array<{ id: string; score: number }>, id: string) => hits.find(hit => hit.id === id)!.score
+
+describe('tokenize', () => {
+  it('lowercases, drops stopwords and single letters, and strips plural s', () => {
+    assert.deepEqual(tokenize('The USB-C Cables for my Boots, and glass'), ['usb', 'cable', 'boot', 'glass'])
+  })
+})
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and adjacent swaps', () => {
+    assert.equal(editDistance('boot', 'boot'), 0)
+    assert.equal(editDistance('boot', 'boots'), 1)
+    assert.equal(editDistance('boot', 'boat'), 1)
+    assert.equal(editDistance('haedphone', 'headphone'), 1)
+    assert.equal(editDistance('cable', 'table'), 1)
+    assert.equal(editDistance('kitten', 'sitting'), 3)
+  })
+})
+
+describe('rankProducts', () => {
+  it('ranks products matching more query terms first', () => {
+    const hits = rankProducts('noise cancelling headphones')
+    assert.deepEqual(ids(hits), ['HP001', 'HP003', 'HP002'])
+    assert.ok(hits[0].score > hits[1].score)
+  })
+
+  it('tolerates typos but scores them below the real word', () => {
+    const exact = rankProducts('headphones')
+    const typo = rankProducts('haedphones')
+    assert.deepEqual(ids(typo), ids(exact))
+    assert.ok(typo[0].score < exact[0].score)
+  })
+
+  it('matches terms by prefix', () => {
+    assert.deepEqual(ids(rankProducts('headph')).sort(), ['HP001', 'HP003'])
+  })
+
+  it('matches category names', () => {
+    assert.deepEqual(ids(rankProducts('mountaineering')), ['HB003'])
+  })
+
+  it('leaves short terms and unknown words unmatched', () => {
+    assert.equal(rankProducts('xyzzy').length, 0)
+    assert.equal(rankProducts('usv').length, 0)
+  })
+
+  it('counts related terms for less than the query\'s own words', () => {
+    const plain = rankProducts('boots')
+    const related = rankProducts('boots', [{ term: 'waterproof', weight: 0.5 }])
+    const full = rankProducts('waterproof boots')
+    assert.ok(score(related, 'HB002') > score(plain, 'HB002'))
+    assert.ok(score(related, 'HB002') < score(full, 'HB002'))
+  })
+
+  it('only counts scoped related terms for products in that category', () => {
+    const plain = rankProducts('boots')
+    const scoped = rankProducts('boots', [{ term: 'waterproof', weight: 0.5, categoryId: 'hiking-boots' }])
+    assert.ok(score(scoped, 'HB002') > score(plain, 'HB002'))
+    assert.equal(score(scoped, 'HB003'), score(plain, 'HB003'))
+  })
+})
+
+describe('searchProducts', () => {
+  it('returns ranked results with their scores', async () => {
+    const { results } = await searchProducts(await openSession('searcher'), 'usb c cable')
+    assert.equal(results[0].id, 'USB005')
+    assert.ok(results.every(r => typeof r.score === 'number'))
+    assert.ok(ids(results).slice(0, 5).every(id => id.startsWith('USB')))
+  })
+
+  it('lists everything for an empty search term', async () => {
+    const { results } = await searchProducts(await openSession('searcher'), '', { category: 'footwear' })
+    assert.deepEqual(ids(results).sort(), ['HB001', 'HB002', 'HB003', 'HB004'])
+  })
+
+  it('reorders ranked results by sortBy', async () => {
+    const session = await openSession('searcher')
+    const ranked = await searchProducts(session, 'waterproof boots')
+    const sorted = await searchProducts(session, 'waterproof boots', { sortBy: 'price_asc' })
+    const prices = sorted.results.map(r => r.price)
+    assert.deepEqual(prices, [...prices].sort((a, b) => a - b))
+    assert.deepEqual(ids(sorted.results).sort(), ids(ranked.results).sort())
+  })
+})
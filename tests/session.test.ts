@@ -0,0 +1,67 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { saveCard } from "../payments"
+import { openSession, saveSession, SessionManager } from "../session"
+import { addToCart, addToWishlist, checkout } from "../tools"
+
+describe('sessions', () => {
+  it('start new shoppers with nothing in their cart, wishlist or orders', async () => {
+    const session = await openSession('new-shopper')
+    assert.equal(session.userId, 'new-shopper')
+    assert.equal(session.cart.items.length, 0)
+    assert.equal(session.wishlist.items.length, 0)
+    assert.equal(session.orders.length, 0)
+  })
+
+  it('keep each shopper\'s cart, wishlist and orders to themselves', async () => {
+    const ana = await openSession('ana')
+    const ben = await openSession('ben')
+    saveCard(ben.wallet, { number: '4242424242424242', expiry: '12/40' })
+    await addToCart(ana, 'HP001', 2)
+    await addToWishlist(ana, 'LA002')
+    await addToCart(ben, 'LA001', 1)
+    await checkout(ben, { shippingMethod: 'pickup' })
+
+    const anaAgain = await openSession('ana')
+    const benAgain = await openSession('ben')
+    assert.deepEqual(anaAgain.cart.items.map(i => [i.productId, i.quantity]), [['HP001', 2]])
+    assert.deepEqual(anaAgain.wishlist.items, ['LA002'])
+    assert.equal(anaAgain.orders.length, 0)
+    assert.equal(benAgain.cart.items.length, 0)
+    assert.deepEqual(benAgain.orders.map(o => o.items[0].productId), ['LA001'])
+  })
+
+  it('persist only shopping state, not the conversation', async () => {
+    const session = await openSession('chatty')
+    session.conversationHistory.push('User: hello')
+    session.productContext = { productId: 'HP001', title: 'Headphones' }
+    await saveSession(session)
+
+    const reopened = await openSession('chatty')
+    assert.deepEqual(reopened.conversationHistory, [])
+    assert.equal(reopened.productContext, null)
+  })
+})
+
+describe('SessionManager', () => {
+  it('hands every caller the same live session for a user', async () => {
+    const manager = new SessionManager()
+    const [first, second] = await Promise.all([manager.get('cara'), manager.get('cara')])
+    assert.equal(first, second)
+    assert.notEqual(await manager.get('dev'), first)
+    assert.deepEqual(manager.activeUsers().sort(), ['cara', 'dev'])
+  })
+
+  it('reopens from storage after a session ends', async () => {
+    const manager = new SessionManager()
+    const session = await manager.get('eve')
+    await addToCart(session, 'HP001', 1)
+    manager.end('eve')
+
+    const reopened = await manager.get('eve')
+    assert.notEqual(reopened, session)
+    assert.equal(reopened.cart.items[0].productId, 'HP001')
+    assert.deepEqual(manager.activeUsers(), ['eve'])
+  })
+})
@@ -0,0 +1,21 @@
+/**
+ * Shared test setup: each test file runs against its own throwaway data
+ * directory, so tests never see .concierge/ or each other's state
+ */
+
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { after } from "node:test"
+import { closeStorage } from "../storage"
+
+export const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'concierge-test-'))
+process.env.CONCIERGE_DATA_DIR = dataDir
+process.env.CONCIERGE_INVOICE_DIR = path.join(dataDir, 'invoices')
+// Order totals in tests assume the default region, California
+delete process.env.CONCIERGE_REGION
+
+after(async () => {
+  await closeStorage()
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
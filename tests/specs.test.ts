@@ -0,0 +1,84 @@
+import { dataDir } from "./setup"
+import assert from "node:assert/strict"
+import * as fs from "fs"
+import * as path from "path"
+import { describe, it } from "node:test"
+import { importCatalog } from "../catalog"
+import { openSession } from "../session"
+import { formatSpecValue, parseSpecValue } from "../specs"
+import { compareProducts } from "../tools"
+
+describe('spec values', () => {
+  it('parse raw values to the spec\'s type', () => {
+    assert.equal(parseSpecValue('chargingPower', ' 65 '), 65)
+    assert.equal(parseSpecValue('waterproof', 'Yes'), true)
+    assert.equal(parseSpecValue('braided', 'n'), false)
+    assert.equal(parseSpecValue('membrane', 'GORE-TEX'), 'GORE-TEX')
+  })
+
+  it('refuse values of the wrong type', () => {
+    assert.throws(() => parseSpecValue('chargingPower', 'fast'), /chargingPower must be a number/)
+    assert.throws(() => parseSpecValue('chargingPower', ''), /must be a number/)
+    assert.throws(() => parseSpecValue('waterproof', 'maybe'), /waterproof must be yes or no/)
+  })
+
+  it('format values with units', () => {
+    assert.equal(formatSpecValue('chargingPower', 100), '100 W')
+    assert.equal(formatSpecValue('bendLifespan', 25000), '25,000 bends')
+    assert.equal(formatSpecValue('microphones', 8), '8')
+    assert.equal(formatSpecValue('braided', true), 'Yes')
+  })
+})
+
+describe('compareProducts', () => {
+  it('lines up specs and marks the best value per row', async () => {
+    const session = await openSession('comparer')
+    const { products, rows } = await compareProducts(session, ['USB001', 'USB002', 'USB005'])
+    assert.deepEqual(products.map(p => p.id), ['USB001', 'USB002', 'USB005'])
+
+    const row = (key: string) => rows.find(r => r.key === key)!
+    assert.deepEqual(rows.slice(0, 2).map(r => r.key), ['price', 'rating'])
+    assert.deepEqual(row('chargingPower').values, ['100 W', '60 W', '100 W'])
+    assert.deepEqual(row('chargingPower').best, [0, 2])
+    assert.deepEqual(row('dataRate').best, [2])
+    assert.deepEqual(row('braided').best, [1])
+    assert.deepEqual(row('videoOutput').values, [null, null, '4K@60Hz'])
+    assert.equal(row('videoOutput').best.length, 0)
+    assert.equal(row('length').best.length, 0, 'length has no better direction')
+  })
+
+  it('prefers lower values where less is better', async () => {
+    const session = await openSession('comparer')
+    const { rows } = await compareProducts(session, ['HB001', 'HB003', 'HB004'])
+    const weight = rows.find(r => r.key === 'weight')!
+    assert.deepEqual(weight.values, ['690 g', '1,050 g', '480 g'])
+    assert.deepEqual(weight.best, [2])
+    assert.equal(rows.find(r => r.key === 'waterproof')!.best.length, 0, 'all equal')
+    assert.equal(rows.find(r => r.key === 'minTemperature')!.best.length, 0, 'only one value')
+  })
+
+  it('skips unknown products and refuses when none are left', async () => {
+    const session = await openSession('comparer')
+    const { products } = await compareProducts(session, ['HP001', 'NOPE'])
+    assert.deepEqual(products.map(p => p.id), ['HP001'])
+    await assert.rejects(compareProducts(session, ['NOPE']), /No valid products/)
+  })
+})
+
+describe('importing specs', () => {
+  it('reads spec columns and reports unknown or mistyped specs', async () => {
+    const dir = path.join(dataDir, 'specs')
+    fs.mkdirSync(dir)
+    fs.writeFileSync(path.join(dir, 'products.csv'), [
+      'id,title,price,description,deliveryDays,spec.chargingPower,spec.braided,spec.colour',
+      'C1,Cable One,9,Short cable,2,65,yes,',
+      'C2,Cable Two,9,Odd cable,2,lots,,red',
+    ].join('\n'))
+    const { products, errors } = await importCatalog([dir])
+
+    assert.deepEqual(products.map(p => [p.id, p.specs]), [['C1', { chargingPower: 65, braided: true }]])
+    assert.equal(errors.length, 1)
+    assert.match(errors[0].message, /chargingPower must be a number/)
+    assert.match(errors[0].message, /unknown spec "colour"/)
+  })
+})
@@ -0,0 +1,333 @@
+import { dataDir } from "./setup"
+import assert from "node:assert/strict"
+import * as fs from "fs"
+import * as path from "path"
+import { describe, it } from "node:test"
+import initSqlJs from "sql.js"
+import {
+  createStorage, DEFAULT_USER_ID, emptyState, SCHEMA_VERSION, ShoppingState, StorageAdapter, StorageBackend, storageConfigFromEnv,
+} from "../storage"
+
+const BACKENDS: StorageBackend[] = ['json', 'sqlite']
+
+let stores = 0
+
+/**
+ * A fresh, empty directory for one store
+ */
+function storeDir(): string {
+  return path.join(dataDir, `store-${++stores}`)
+}
+
+/**
+ * Write a store the way the build for `version` would have left it.
+ * `document` is that version's raw data: v1 held one shopper's
+ * collections, v2 `users`, and v3 on `users` and `shared`.
+ */
+async function writeRawStore(backend: StorageBackend, dir: string, version: number, document: Record<string, any>): Promise<void> {
+  fs.mkdirSync(dir, { recursive: true })
+  if (backend === 'json') {
+    const file = { schemaVersion: version, updatedAt: new Date().toISOString(), state: document }
+    fs.writeFileSync(path.join(dir, 'state.json'), JSON.stringify(file))
+    return
+  }
+
+  const SQL = await initSqlJs()
+  const db = new SQL.Database()
+  db.run('CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)')
+  db.run(`INSERT INTO meta (key, value) VALUES ('schema_version', ?)`, [String(version)])
+  if (version === 1) {
+    db.run('CREATE TABLE state (key TEXT PRIMARY KEY, value TEXT NOT NULL)')
+    for (const [key, value] of Object.entries(document)) {
+      db.run('INSERT INTO state (key, value) VALUES (?, ?)', [key, JSON.stringify(value)])
+    }
+  } else {
+    db.run('CREATE TABLE users (user_id TEXT PRIMARY KEY, state TEXT NOT NULL)')
+    for (const [userId, state] of Object.entries(document.users ?? {})) {
+      db.run('INSERT INTO users (user_id, state) VALUES (?, ?)', [userId, JSON.stringify(state)])
+    }
+  }
+  if (version >= 3) {
+    db.run('CREATE TABLE shared (key TEXT PRIMARY KEY, value TEXT NOT NULL)')
+    for (const [key, value] of Object.entries(document.shared ?? {})) {
+      db.run('INSERT INTO shared (key, value) VALUES (?, ?)', [key, JSON.stringify(value)])
+    }
+  }
+  fs.writeFileSync(path.join(dir, 'state.sqlite'), db.export())
+  db.close()
+}
+
+/**
+ * Open a store, run something against it and close it again
+ */
+async function withStore<T>(backend: StorageBackend, dir: string, use: (storage: StorageAdapter) => Promise<T>): Promise<T> {
+  const storage = createStorage({ backend, dataDir: dir })
+  try {
+    return await use(storage)
+  } finally {
+    await storage.close()
+  }
+}
+
+function sampleState(): ShoppingState {
+  return {
+    ...emptyState(),
+    cart: { items: [{ productId: 'USB001', sku: 'USB001', title: 'USB-C Cable', price: 12.99, quantity: 2 }], total: 25.98, coupons: [] },
+    wishlist: { items: ['HP001'] },
+    orders: [{
+      orderId: 'ORD-TEST-1',
+      items: [{ productId: 'LA001', sku: 'LA001', title: 'Laptop Stand', price: 49.99, quantity: 1 }],
+      total: 49.99,
+      status: 'confirmed',
+      history: [{ status: 'confirmed', at: '2026-03-02T00:00:00.000Z' }],
+      orderDate: '2026-03-02',
+    }],
+  }
+}
+
+/**
+ * sampleState as stored before carts held coupons (v5 and earlier)
+ */
+function couponlessState(): Record<string, any> {
+  const { coupons, ...cart } = sampleState().cart
+  return { ...sampleState(), cart }
+}
+
+/**
+ * One shopper as the first schema versions stored them, before SKUs
+ */
+function oldShopper(): Record<string, any> {
+  return {
+    cart: { items: [{ productId: 'USB001', title: 'USB-C Cable', price: 12.99, quantity: 2 }], total: 25.98 },
+    wishlist: { items: ['HP001'] },
+    orders: [{
+      orderId: 'ORD-TEST-1',
+      items: [{ productId: 'LA001', title: 'Laptop Stand', price: 49.99, quantity: 1 }],
+      total: 49.99,
+      status: 'confirmed',
+      orderDate: '2026-03-02',
+    }],
+  }
+}
+
+for (const backend of BACKENDS) {
+  describe(`${backend} storage`, () => {
+    it('gives new users an empty state', async () => {
+      const state = await withStore(backend, storeDir(), storage => storage.loadUser('nobody'))
+      assert.deepEqual(state, emptyState())
+    })
+
+    it('keeps what was saved across restarts', async () => {
+      const dir = storeDir()
+      await withStore(backend, dir, storage => storage.saveUser('ana', sampleState()))
+      assert.deepEqual(await withStore(backend, dir, storage => storage.loadUser('ana')), sampleState())
+    })
+
+    it('keeps users apart, even when they save at the same time', async () => {
+      const dir = storeDir()
+      const other = { ...emptyState(), wishlist: { items: ['LA001'] } }
+      await withStore(backend, dir, storage => Promise.all([storage.saveUser('ana', sampleState()), storage.saveUser('ben', other)]))
+
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+        assert.deepEqual(await storage.loadUser('ben'), other)
+      })
+    })
+
+    it('hands out copies, so changing a loaded state changes nothing until saved', async () => {
+      const dir = storeDir()
+      await withStore(backend, dir, async (storage) => {
+        await storage.saveUser('ana', sampleState())
+        const loaded = await storage.loadUser('ana')
+        loaded.wishlist.items.push('CH001')
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+      })
+    })
+
+    it('leaves no temporary files behind', async () => {
+      const dir = storeDir()
+      await withStore(backend, dir, storage => storage.saveUser('ana', sampleState()))
+      assert.deepEqual(fs.readdirSync(dir), [backend === 'json' ? 'state.json' : 'state.sqlite'])
+    })
+
+    it('reads a store written at the current version as is', async () => {
+      const dir = storeDir()
+      await writeRawStore(backend, dir, SCHEMA_VERSION, { users: { ana: sampleState() }, shared: {} })
+      assert.deepEqual(await withStore(backend, dir, storage => storage.loadUser('ana')), sampleState())
+    })
+
+    it('fills in collections a stored user is missing', async () => {
+      const dir = storeDir()
+      await writeRawStore(backend, dir, SCHEMA_VERSION, { users: { ana: { wishlist: { items: ['HP001'] } } }, shared: {} })
+      assert.deepEqual(await withStore(backend, dir, storage => storage.loadUser('ana')), { ...emptyState(), wishlist: { items: ['HP001'] } })
+    })
+
+    it('keeps shared state apart from users, across restarts', async () => {
+      const dir = storeDir()
+      const inventory = { stock: { LA001: 7 }, reservations: [] }
+      await withStore(backend, dir, async (storage) => {
+        assert.equal(await storage.loadShared('inventory'), undefined)
+        await storage.saveShared('inventory', inventory)
+        await storage.saveUser('ana', sampleState())
+      })
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual(await storage.loadShared('inventory'), inventory)
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+      })
+    })
+
+    it('refuses a store from a newer build', async () => {
+      const dir = storeDir()
+      await writeRawStore(backend, dir, SCHEMA_VERSION + 1, { users: {}, shared: {} })
+      await assert.rejects(withStore(backend, dir, storage => storage.loadUser('ana')), /schema version \d+, but this build only understands up to/)
+    })
+
+    it('upgrades a v1 store, giving its shopper to the default user', async () => {
+      const dir = storeDir()
+      await writeRawStore(backend, dir, 1, oldShopper())
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual(await storage.loadUser(DEFAULT_USER_ID), sampleState())
+        await storage.saveUser('ana', emptyState())
+      })
+
+      // Saved back at the current version, and still readable
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual(await storage.loadUser(DEFAULT_USER_ID), sampleState())
+      })
+    })
+
+    it('upgrades a v3 store, keying lines and reservations by SKU', async () => {
+      const dir = storeDir()
+      const reservation = { userId: 'ana', productId: 'LA001', quantity: 1, expiresAt: '2030-01-01T00:00:00.000Z' }
+      await writeRawStore(backend, dir, 3, {
+        users: { ana: oldShopper(), ben: { wishlist: { items: ['HP001'] } } },
+        shared: { inventory: { stock: { LA001: 7 }, reservations: [reservation] } },
+      })
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+        assert.deepEqual(await storage.loadUser('ben'), { ...emptyState(), wishlist: { items: ['HP001'] } })
+        assert.deepEqual(await storage.loadShared('inventory'), {
+          stock: { LA001: 7 },
+          reservations: [{ userId: 'ana', sku: 'LA001', quantity: 1, expiresAt: '2030-01-01T00:00:00.000Z' }],
+        })
+      })
+    })
+
+    it('upgrades a v2 store, which had no shared state', async () => {
+      const dir = storeDir()
+      await writeRawStore(backend, dir, 2, { users: { ana: oldShopper() } })
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+        assert.equal(await storage.loadShared('inventory'), undefined)
+      })
+    })
+
+    it('upgrades a v4 store, giving every shopper an empty profile', async () => {
+      const dir = storeDir()
+      const { profile, ...v4Shopper } = couponlessState()
+      await writeRawStore(backend, dir, 4, { users: { ana: v4Shopper }, shared: {} })
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+        assert.deepEqual((await storage.loadUser('ana')).profile, { viewed: [], dismissed: [] })
+      })
+    })
+
+    it('upgrades a v5 store, giving every cart an empty coupon list', async () => {
+      const dir = storeDir()
+      await writeRawStore(backend, dir, 5, { users: { ana: couponlessState() }, shared: {} })
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual((await storage.loadUser('ana')).cart.coupons, [])
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+      })
+    })
+
+    it('upgrades a v6 store, giving every shopper an empty address book', async () => {
+      const dir = storeDir()
+      const { addressBook, ...v6Shopper } = sampleState()
+      await writeRawStore(backend, dir, 6, { users: { ana: v6Shopper }, shared: {} })
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual((await storage.loadUser('ana')).addressBook, { addresses: [] })
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+      })
+    })
+
+    it('upgrades a v7 store, giving every shopper an empty wallet', async () => {
+      const dir = storeDir()
+      const { wallet, ...v7Shopper } = sampleState()
+      await writeRawStore(backend, dir, 7, { users: { ana: v7Shopper }, shared: {} })
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual((await storage.loadUser('ana')).wallet, { methods: [] })
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+      })
+    })
+
+    it('upgrades a v8 store, starting each order\'s history at its order date', async () => {
+      const dir = storeDir()
+      const state = sampleState()
+      const v8Shopper = { ...state, orders: state.orders.map(({ history, ...order }) => order) }
+      await writeRawStore(backend, dir, 8, { users: { ana: v8Shopper, ben: { wishlist: { items: ['HP001'] } } }, shared: {} })
+      await withStore(backend, dir, async (storage) => {
+        assert.deepEqual((await storage.loadUser('ana')).orders[0].history, [{ status: 'confirmed', at: '2026-03-02T00:00:00.000Z' }])
+        assert.deepEqual(await storage.loadUser('ana'), sampleState())
+        assert.deepEqual((await storage.loadUser('ben')).orders, [])
+      })
+    })
+  })
+}
+
+describe('JSON and SQLite', () => {
+  it('upgrade old stores to the same state', async () => {
+    const olderStores: Array<[number, Record<string, any>]> = [
+      [1, oldShopper()],
+      [2, { users: { [DEFAULT_USER_ID]: oldShopper() } }],
+      [3, {
+        users: { [DEFAULT_USER_ID]: oldShopper() },
+        shared: { inventory: { stock: { LA001: 7 }, reservations: [{ userId: DEFAULT_USER_ID, productId: 'LA001', quantity: 1, expiresAt: '2030-01-01T00:00:00.000Z' }] } },
+      }],
+      [4, { users: { [DEFAULT_USER_ID]: { ...couponlessState(), profile: undefined } }, shared: {} }],
+      [5, { users: { [DEFAULT_USER_ID]: couponlessState() }, shared: {} }],
+      [6, { users: { [DEFAULT_USER_ID]: { ...sampleState(), addressBook: undefined } }, shared: {} }],
+      [7, { users: { [DEFAULT_USER_ID]: { ...sampleState(), wallet: undefined } }, shared: {} }],
+      [8, { users: { [DEFAULT_USER_ID]: { ...sampleState(), orders: oldShopper().orders.map((order: Record<string, any>) => ({ ...order, items: sampleState().orders[0].items })) } }, shared: {} }],
+    ]
+    for (const [version, document] of olderStores) {
+      const loaded = await Promise.all(BACKENDS.map(async (backend) => {
+        const dir = storeDir()
+        await writeRawStore(backend, dir, version, document)
+        return withStore(backend, dir, async storage => [await storage.loadUser(DEFAULT_USER_ID), await storage.loadShared('inventory')])
+      }))
+      assert.deepEqual(loaded[0], loaded[1], `from v${version}`)
+    }
+  })
+})
+
+describe('JSON storage', () => {
+  it('treats a file without a version as version 1', async () => {
+    const dir = storeDir()
+    fs.mkdirSync(dir, { recursive: true })
+    fs.writeFileSync(path.join(dir, 'state.json'), JSON.stringify({ state: oldShopper() }))
+    assert.deepEqual(await withStore('json', dir, storage => storage.loadUser(DEFAULT_USER_ID)), sampleState())
+  })
+
+  it('reports a corrupt file rather than starting over', async () => {
+    const dir = storeDir()
+    fs.mkdirSync(dir, { recursive: true })
+    fs.writeFileSync(path.join(dir, 'state.json'), '{ not json')
+    await assert.rejects(withStore('json', dir, storage => storage.loadUser('ana')), /is not valid JSON/)
+  })
+})
+
+describe('storageConfigFromEnv', () => {
+  it('picks the backend and directory from the environment', () => {
+    const saved = process.env.CONCIERGE_STORAGE
+    try {
+      process.env.CONCIERGE_STORAGE = 'SQLite'
+      assert.deepEqual(storageConfigFromEnv(), { backend: 'sqlite', dataDir })
+      process.env.CONCIERGE_STORAGE = 'postgres'
+      assert.throws(() => storageConfigFromEnv(), /Unknown storage backend "postgres"/)
+    } finally {
+      if (saved === undefined) delete process.env.CONCIERGE_STORAGE
+      else process.env.CONCIERGE_STORAGE = saved
+    }
+  })
+})
@@ -0,0 +1,113 @@
+import { dataDir } from "./setup"
+import assert from "node:assert/strict"
+import * as fs from "fs"
+import * as path from "path"
+import { afterEach, describe, it } from "node:test"
+import { openSession } from "../session"
+import { SynonymRule, expandQuery, loadSynonyms } from "../synonyms"
+import { searchProducts } from "../tools"
+
+const customPath = path.join(dataDir, 'synonyms.json')
+let writes = 0
+
+/**
+ * Write a synonym file with a fresh mtime so the next lookup reloads it
+ */
+function writeSynonyms(content: unknown) {
+  fs.writeFileSync(customPath, typeof content === 'string' ? content : JSON.stringify(content))
+  const mtime = new Date(Date.now() + ++writes * 1000)
+  fs.utimesSync(customPath, mtime, mtime)
+}
+
+function useSynonyms(synonyms: SynonymRule[]) {
+  process.env.CONCIERGE_SYNONYMS = customPath
+  writeSynonyms({ version: 1, synonyms })
+}
+
+afterEach(() => {
+  delete process.env.CONCIERGE_SYNONYMS
+})
+
+describe('loadSynonyms', () => {
+  it('uses the synonyms.json next to the code by default', async () => {
+    const dictionary = await loadSynonyms()
+    assert.equal(dictionary.source, path.join(__dirname, '..', 'synonyms.json'))
+    assert.equal(dictionary.error, undefined)
+    assert.ok(dictionary.ruleCount > 0)
+  })
+
+  it('reloads the file when it changes', async () => {
+    useSynonyms([{ terms: ['tent', 'shelter'] }])
+    assert.equal((await loadSynonyms()).ruleCount, 1)
+
+    writeSynonyms({ version: 1, synonyms: [{ terms: ['tent', 'shelter'] }, { from: 'lamp', to: ['lantern'] }] })
+    assert.equal((await loadSynonyms()).ruleCount, 2)
+    assert.deepEqual((await expandQuery('lamp')).map(e => e.term), ['lantern'])
+  })
+
+  it('keeps the last good rules when the file breaks', async () => {
+    useSynonyms([{ from: 'lamp', to: ['lantern'] }])
+    await loadSynonyms()
+
+    writeSynonyms('{ "version": 1, "synonyms": [')
+    const broken = await loadSynonyms()
+    assert.match(broken.error ?? '', /^synonyms\.json: /)
+    assert.deepEqual((await expandQuery('lamp')).map(e => e.term), ['lantern'])
+  })
+
+  it('reports invalid entries by position', async () => {
+    const cases: Array<[unknown, RegExp]> = [
+      [{ version: 2, synonyms: [] }, /unsupported version 2/],
+      [{ version: 1, synonyms: {} }, /"synonyms" must be a list/],
+      [{ version: 1, synonyms: [{ terms: ['solo'] }] }, /synonym 1: "terms" needs at least two entries/],
+      [{ version: 1, synonyms: [{ terms: ['tent', 'shelter'] }, { from: 'lamp', to: ['lantern'], category: 'garden' }] }, /synonym 2: unknown category "garden"/],
+      [{ version: 1, synonyms: [{ from: 'lamp', to: ['?'] }] }, /"to" must be a word or phrase/],
+      [{ version: 1, synonyms: [{ from: 'lamp', to: ['lantern'], weight: 2 }] }, /"weight" must be above 0 and at most 1/],
+      [{ version: 1, synonyms: [{ to: ['lantern'] }] }, /needs either "terms"/],
+    ]
+    process.env.CONCIERGE_SYNONYMS = customPath
+    for (const [file, error] of cases) {
+      writeSynonyms(file)
+      assert.match((await loadSynonyms()).error ?? '', error)
+    }
+  })
+
+  it('reports a missing file', async () => {
+    process.env.CONCIERGE_SYNONYMS = path.join(dataDir, 'nowhere.json')
+    assert.match((await loadSynonyms()).error ?? '', /nowhere\.json not found/)
+  })
+})
+
+describe('expandQuery', () => {
+  it('expands two-way groups to the other terms', async () => {
+    useSynonyms([{ terms: ['headphones', 'headset', 'cans'], category: 'Audio' }])
+    assert.deepEqual(await expandQuery('cheap cans'), [
+      { trigger: 'cans', term: 'headphones', weight: 0.5, categoryId: 'audio' },
+      { trigger: 'cans', term: 'headset', weight: 0.5, categoryId: 'audio' },
+    ])
+  })
+
+  it('expands one-way rules only forwards', async () => {
+    useSynonyms([{ from: ['audio', 'sound'], to: ['headphones'], weight: 0.8 }])
+    assert.deepEqual((await expandQuery('sound system')).map(e => [e.term, e.weight]), [['headphones', 0.8]])
+    assert.equal((await expandQuery('headphones')).length, 0)
+  })
+
+  it('matches phrases only when their words are adjacent', async () => {
+    useSynonyms([{ from: 'noise cancelling', to: ['anc'] }])
+    assert.equal((await expandQuery('Noise-Cancelling headphones')).length, 1)
+    assert.equal((await expandQuery('noise free cancelling')).length, 0)
+  })
+})
+
+describe('searchProducts with synonyms', () => {
+  it('finds products through a synonym the catalog never mentions', async () => {
+    const session = await openSession('synonyms')
+    useSynonyms([])
+    assert.equal((await searchProducts(session, 'cans')).results.length, 0)
+
+    useSynonyms([{ terms: ['headphones', 'cans'], category: 'audio' }])
+    const { results } = await searchProducts(session, 'cans')
+    assert.deepEqual(results.map(r => r.id).sort(), ['HP001', 'HP003'])
+  })
+})
@@ -0,0 +1,87 @@
+import "./setup"
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { getSkuAvailability } from "../inventory"
+import { saveCard } from "../payments"
+import { openSession } from "../session"
+import { addToCart, getProductDetails, getVariantChoice, purchaseProduct, removeFromCart, updateCartQuantity } from "../tools"
+
+describe('getVariantChoice', () => {
+  it('needs nothing for products without variants or a complete choice', () => {
+    assert.equal(getVariantChoice('LA001'), null)
+    assert.equal(getVariantChoice('USB001', { length: '2m' }), null)
+    assert.equal(getVariantChoice('HB002', { Size: '10', COLOR: 'black night' }), null)
+  })
+
+  it('offers only the attributes still to choose', () => {
+    assert.deepEqual(getVariantChoice('USB001')?.options, { length: ['1m', '2m', '3m'] })
+    const choice = getVariantChoice('HB002', { size: '9' })
+    assert.deepEqual(choice?.options, { color: ['Earth', 'Black Night'] })
+    assert.match(choice!.message, /Please choose a color/)
+  })
+
+  it('offers everything again when the choice matches nothing', () => {
+    const choice = getVariantChoice('USB001', { length: '5m' })
+    assert.deepEqual(choice?.options, { length: ['1m', '2m', '3m'] })
+    assert.match(choice!.message, /isn't available/)
+  })
+})
+
+describe('variants in the cart', () => {
+  it('keeps each variant on its own line, priced with its price difference', async () => {
+    const session = await openSession('variant-cart')
+    await addToCart(session, 'USB001', 1, { length: '1m' })
+    await addToCart(session, 'USB001', 2, { length: '3m' })
+    await addToCart(session, 'USB001', 1, { length: '1m' })
+
+    assert.deepEqual(session.cart.items.map(i => [i.sku, i.quantity, i.price, i.variant]), [
+      ['USB001-1M', 2, 10.99, { length: '1m' }],
+      ['USB001-3M', 2, 15.99, { length: '3m' }],
+    ])
+    assert.equal(session.cart.total, 53.96)
+  })
+
+  it('refuses to add a product until a variant is chosen', async () => {
+    const session = await openSession('variant-undecided')
+    await assert.rejects(addToCart(session, 'HB002', 1, { size: '9' }), /Please choose a color/)
+    await assert.rejects(purchaseProduct(session, 'USB001', 1), /Please choose a length/)
+    assert.equal(session.cart.items.length, 0)
+    assert.equal(session.orders.length, 0)
+  })
+
+  it('asks which line is meant when a product is in the cart more than once', async () => {
+    const session = await openSession('variant-ambiguous')
+    await addToCart(session, 'USB001', 1, { length: '1m' })
+    await addToCart(session, 'USB001', 1, { length: '2m' })
+
+    await assert.rejects(removeFromCart(session, 'USB001'), /several options .* USB001-1M \(length 1m\), USB001-2M \(length 2m\)/)
+    await updateCartQuantity(session, 'USB001', 3, 'USB001-2M')
+    await removeFromCart(session, 'USB001', 'USB001-1M')
+    assert.deepEqual(session.cart.items.map(i => [i.sku, i.quantity]), [['USB001-2M', 3]])
+  })
+
+  it('holds and sells stock per SKU', async () => {
+    const session = await openSession('variant-stock')
+    saveCard(session.wallet, { number: '4242424242424242', expiry: '12/40' })
+    const stock = async () => {
+      const availability = await getSkuAvailability(['HB002-10-EAR', 'HB002-10-BLK'])
+      return [availability['HB002-10-EAR'].availableStock, availability['HB002-10-BLK'].availableStock]
+    }
+    const [earth, black] = await stock()
+
+    await addToCart(session, 'HB002', 1, { size: '10', color: 'Earth' })
+    await purchaseProduct(session, 'HB002', 2, { size: '10', color: 'Black Night' }, { shippingMethod: 'pickup' })
+    assert.deepEqual(await stock(), [earth - 1, black - 2])
+    assert.equal(session.orders[0].items[0].sku, 'HB002-10-BLK')
+  })
+})
+
+describe('getProductDetails', () => {
+  it('lists each variant with what is left of it', async () => {
+    const session = await openSession('variant-details')
+    const details = await getProductDetails(session, 'HB001')
+    const size12 = details.variants?.find(v => v.sku === 'HB001-12')
+    assert.equal(details.variants?.length, 5)
+    assert.equal(size12?.stockStatus, 'out_of_stock')
+  })
+})
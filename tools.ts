@@ -1,4 +1,76 @@
-import { mockData, cart, wishlist, orders, CartItem, Order } from "./data"
+import { mockData, Address, Cart, CartItem, Order, OrderPayment, OrderRefund, OrderReturn, PaymentMethod } from "./data"
+import { Session, saveSession } from "./session"
+import {
+  Availability,
+  StockStatus,
+  RESERVATION_TTL_MINUTES,
+  getAvailability,
+  getSkuAvailability,
+  reserveStock,
+  releaseStock,
+  commitStock,
+  requireQuantity,
+  restock,
+} from "./inventory"
+import {
+  CategoryNode,
+  categoryProductIds,
+  categoryTree,
+  childCategories,
+  findCategory,
+  formatCategoryPath,
+  productCategory,
+} from "./categories"
+import { ProductSpecs, ProductComparison, compareSpecs } from "./specs"
+import { rankProducts, suggestSpelling } from "./search"
+import { SearchFacets, applyPredicates, buildFacets, facetPredicates } from "./facets"
+import { productDeliveryDate, today } from "./delivery"
+import { ParsedQuery, mergeFilters, parseQuery } from "./query"
+import { expandQuery } from "./synonyms"
+import { similarProducts } from "./recommend"
+import { boughtTogether, recordOrder } from "./copurchase"
+import { Signal, hasHistory, recommendFor, recordView } from "./personalize"
+import {
+  CompatibilityCheck,
+  CompatibilityStatus,
+  PlatformSupport,
+  checkPair,
+  checkPlatform,
+  compatibleWith,
+  findConflicts,
+  findPlatform,
+} from "./compatibility"
+import { CartPricing, priceItems, validateCoupon } from "./promotions"
+import {
+  ReturnLineInput,
+  ReturnReason,
+  advanceOrders,
+  canTransition,
+  fullyReturned,
+  planReturn,
+  refundableAmount,
+  returnReasonLabel,
+  transition,
+} from "./orders"
+import { SHIPPING_METHODS, ShippingMethod, estimateDelivery, priceOrder, shippingMethodLabel } from "./pricing"
+import { AddressInput, deleteAddress, formatAddress, requireAddress, saveAddress } from "./addresses"
+import { TrackingEvent, createShipment, trackingEvents } from "./carrier"
+import { InvoiceFormat, writeInvoice } from "./invoice"
+import {
+  CardInput,
+  STORE_CREDIT_METHOD_ID,
+  authorize,
+  balanceOf,
+  capture,
+  declineMessage,
+  deletePaymentMethod,
+  refund,
+  describePaymentMethod,
+  requirePaymentMethod,
+  saveCard,
+  saveGiftCard,
+  voidAuthorization,
+} from "./payments"
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -7,25 +79,108 @@ import { mockData, cart, wishlist, orders, CartItem, Order } from "./data"
 export type SearchResult = {
   id: string
   title: string
+  brand?: string
   price: number
   rating: number
   numRatings: number
-  deliveryDate: string
+  deliveryDays: number // Business days from ordering to delivery
+  deliveryDate?: string // When it arrives if ordered now; filled in when shown
+  category?: string // e.g. "Electronics > Audio > Headphones"
+  score?: number // Search relevance; higher is a better match
   inCart?: boolean
   inWishlist?: boolean
+  availableStock?: number
+  stockStatus?: StockStatus
+}
+
+/**
+ * A recommended product, how similar it is and why it was picked
+ */
+export type Recommendation = SearchResult & {
+  similarity: number // 0-1
+  reason: string
+}
+
+/**
+ * A product picked for the shopper from their history, and why
+ */
+export type PersonalRecommendation = SearchResult & {
+  reason: string
+  basedOn?: string // Product ID of the purchase, wishlist item or view that led to it
+}
+
+/**
+ * The "recommended for you" feed and what it was built from
+ */
+export type PersonalFeed = {
+  results: PersonalRecommendation[]
+  personalized: boolean // False when the shopper has no history yet and popular products are shown
+  profile: { purchased: number; wishlisted: number; viewed: number; dismissed: number }
+}
+
+/**
+ * Products often ordered together with one product, and what the whole
+ * set costs
+ */
+export type BoughtTogether = {
+  product: { id: string; title: string; price: number }
+  items: Array<SearchResult & { timesBoughtTogether: number; confidence: number }>
+  bundleTotal: number // The product plus every item
+}
+
+/**
+ * Suggested after adding a product to the cart: what other shoppers added with it
+ */
+export type BundleSuggestion = {
+  productId: string
+  message: string // e.g. "People who bought the Logitech MX Master 3S also bought the Keychron K3 Pro"
+  items: Array<{ id: string; title: string; price: number }>
 }
 
 export type ProductDetails = {
   id: string
   title: string
+  brand?: string
   price: number
   rating: number
   numRatings: number
   description: string
   images: string[]
-  deliveryDate: string
+  deliveryDays: number
+  deliveryDate?: string // When it arrives if ordered now; filled in when shown
+  category?: string
+  specs?: ProductSpecs
   inCart?: boolean
   inWishlist?: boolean
+  availableStock?: number
+  stockStatus?: StockStatus
+  variants?: Array<ProductVariant & Availability>
+}
+
+/**
+ * A sellable version of a product (e.g. a shoe size or cable length)
+ */
+export type ProductVariant = {
+  sku: string
+  attributes: Record<string, string> // e.g. { size: "10", color: "Black" }
+  priceDelta: number // Added to the product's base price
+  stock: number // Initial units on hand
+}
+
+/**
+ * Attribute values chosen by the shopper, e.g. { size: "10" }
+ */
+export type VariantSelection = Record<string, string>
+
+/**
+ * Returned instead of adding/buying when the shopper still has to pick a variant
+ */
+export type VariantChoiceRequired = {
+  needsVariantSelection: true
+  productId: string
+  title: string
+  message: string
+  options: Record<string, string[]> // Attribute name -> values to choose from
 }
 
 export type ProductReview = {
@@ -38,42 +193,166 @@ export type FilterOptions = {
   minPrice?: number
   maxPrice?: number
   minRating?: number
+  category?: string // Category ID or name; includes its subcategories
+  brand?: string | string[] // Any of these brands (case-insensitive)
+  deliveryWithinDays?: number
   sortBy?: 'price_asc' | 'price_desc' | 'rating' | 'popularity'
 }
 
+/**
+ * Search results plus counts the shopper can use to narrow them down
+ */
+export type SearchResponse = {
+  results: SearchResult[] // Current page only
+  facets: SearchFacets // Counted over every match, not just this page
+  page: PageInfo
+  query: ParsedQuery // Keywords and filters actually searched, after parsing the phrase
+  suggestions?: string[] // "Did you mean" respellings, when nothing matched
+}
+
+/**
+ * Which slice of a result list to return: an offset/limit pair, or the
+ * cursor handed out with the previous page
+ */
+export type PageRequest = {
+  offset?: number
+  limit?: number
+  cursor?: string
+}
+
+export type PageInfo = {
+  offset: number
+  limit: number
+  total: number
+  page: number // 1-based
+  pageCount: number
+  hasMore: boolean
+  nextCursor?: string
+}
+
+/**
+ * What works with what: checks between the given products, their support
+ * for a platform if one was asked about, and (for a single product) the
+ * catalog products that plug into it
+ */
+export type CompatibilityReport = {
+  products: Array<{ id: string; title: string }>
+  checks: CompatibilityCheck[] // Pairs of the given products that relate
+  platform?: { name: string; support: PlatformSupport[] }
+  worksWith?: Array<SearchResult & { status: CompatibilityStatus; reason: string }>
+  compatible: boolean // False if any check or platform came out incompatible
+}
+
+/**
+ * A cart with its discount breakdown
+ */
+export type CartView = Cart & {
+  pricing: CartPricing
+}
+
+/**
+ * How and where an order is delivered. Shipped orders go to the default
+ * address unless another saved one is picked.
+ */
+export type CheckoutOptions = {
+  shippingMethod?: ShippingMethod
+  addressId?: string
+  paymentMethodId?: string // Saved method or "store-credit"; defaults to the default method
+}
+
+/**
+ * A saved address and whether it's the shopper's default
+ */
+export type SavedAddress = Address & {
+  isDefault: boolean
+  formatted: string // One-line form
+}
+
+/**
+ * A card or gift card to save
+ */
+export type PaymentMethodInput = ({ type: 'card' } & CardInput) | { type: 'gift_card'; code: string }
+
+/**
+ * A way to pay, as shown to the shopper. Cards only show their brand and
+ * last four digits.
+ */
+export type SavedPaymentMethod = {
+  id: string
+  type: 'card' | 'gift_card' | 'store_credit'
+  description: string // e.g. "Visa ending 4242"
+  expiry?: string // Cards only, MM/YY
+  balance?: number // Gift cards and store credit
+  isDefault: boolean
+}
+
+/**
+ * A way the cart can be delivered: its shipping cost, grand total and ETA
+ */
+export type DeliveryOption = {
+  method: ShippingMethod
+  label: string
+  shippingCost: number
+  free: boolean
+  total: number // Grand total with this method, tax included
+  estimatedDelivery: string
+}
+
+/**
+ * The delivery options for the cart and the address they're priced for
+ * (unset when the shopper has no saved address yet)
+ */
+export type DeliveryOptions = {
+  address?: SavedAddress
+  options: DeliveryOption[]
+}
+
+/**
+ * A return that went through: the order it came from, what was sent back
+ * and the refund (unset when nothing was left to refund)
+ */
+export type ReturnConfirmation = {
+  order: Order
+  return: OrderReturn
+  refund?: OrderRefund
+}
+
+/**
+ * An order with its timeline: carrier scans for shipped orders, the
+ * status history otherwise, and the steps still expected
+ */
+export type OrderDetails = Order & {
+  timeline: TrackingEvent[]
+}
+
+/**
+ * A category with its subcategories and the products filed under it
+ */
+export type CategoryListing = {
+  category: { id: string; name: string; path: string } | null // null = top level
+  subcategories: CategoryNode[]
+  products: SearchResult[]
+}
+
 // ============================================================================
-// SEARCH KEYWORD ALIASES - Maps common search terms to product-related keywords
+// PAGINATION
 // ============================================================================
 
-const SEARCH_ALIASES: Record<string, string[]> = {
-  // Audio category - focused on audio product keywords (use specific brand/product terms)
-  audio: ['headphones', 'earbuds', 'speaker', 'echo dot', 'noise cancelling', 'airpods', 'bose', 'sony wh-', 'quietcomfort', 'spatial audio', 'xm5'],
-  music: ['headphones', 'earbuds', 'speaker'],
-  headphones: ['earbuds', 'noise cancelling', 'over-ear', 'wh-1000', 'quietcomfort', 'airpods pro'],
-  earbuds: ['airpods', 'in-ear'],
-  speakers: ['speaker', 'echo', 'alexa', 'smart speaker', 'echo dot'],
-  sound: ['headphones', 'earbuds', 'speaker'],
-  
-  // Tech/Accessories category
-  tech: ['usb', 'cable', 'mouse', 'keyboard', 'speaker', 'headphones', 'echo'],
-  electronics: ['usb', 'cable', 'mouse', 'keyboard', 'speaker', 'headphones', 'echo'],
-  accessories: ['cable', 'mouse', 'keyboard', 'usb'],
-  cables: ['usb', 'cable', 'usb-c', 'usb c'],
-  charger: ['usb', 'cable', 'charging', 'fast charging', 'power delivery'],
-  charging: ['usb', 'cable', 'charger', 'power delivery'],
-  
-  // Outdoor category
-  outdoor: ['hiking', 'boots', 'trekking', 'mountaineering', 'trail'],
-  hiking: ['boots', 'trekking', 'trail', 'outdoor', 'waterproof', 'gtx'],
-  boots: ['hiking', 'trekking', 'mountaineering', 'waterproof'],
-  shoes: ['boots', 'hiking', 'trekking'],
-  trekking: ['hiking', 'boots', 'mountaineering'],
-  
-  // Smart home
-  'smart home': ['alexa', 'echo', 'smart speaker'],
-  smart: ['alexa', 'echo', 'smart speaker'],
-  alexa: ['echo', 'smart speaker', 'echo dot'],
-}
+/**
+ * Products per page when the caller doesn't ask for a size
+ */
+export const DEFAULT_PAGE_SIZE = 5
+
+const MAX_PAGE_SIZE = 50
+
+// ============================================================================
+// BUNDLES
+// ============================================================================
+
+/**
+ * Most "frequently bought together" items suggested or added with a product
+ */
+const MAX_BUNDLE_ITEMS = 2
 
 // ============================================================================
 // PRODUCT SEARCH & DISCOVERY
@@ -81,50 +360,43 @@ const SEARCH_ALIASES: Record<string, string[]> = {
 
 /**
  * Search for products with optional filters
- * Searches in both title and description, with keyword alias expansion
+ * Results are ranked by relevance (see search.ts) across title, category and
+ * description, with typo tolerance and synonym expansion (see synonyms.ts).
+ * `sortBy` reorders them; ties keep their relevance order. Returns one page of
+ * results (DEFAULT_PAGE_SIZE unless `page` says otherwise).
+ * Constraints written into the search term ("under $15", "4+ stars") are
+ * parsed into filters; explicit filters take precedence over them.
  */
 export async function searchProducts(
+  session: Session,
   searchTerm: string,
-  filters?: FilterOptions
-): Promise<SearchResult[]> {
-  const searchLower = searchTerm.toLowerCase()
+  filters?: FilterOptions,
+  page?: PageRequest
+): Promise<SearchResponse> {
+  const parsed = parseQuery(searchTerm)
+  searchTerm = parsed.searchTerm
+  filters = mergeFilters(parsed.filters, filters)
+  // Expand with synonyms; they count for less than the user's own words
+  const synonyms = await expandQuery(searchTerm)
   
-  // Expand search term with aliases for title matching only
-  const expandedTermsForTitle = [searchLower]
-  for (const [key, aliases] of Object.entries(SEARCH_ALIASES)) {
-    if (searchLower.includes(key)) {
-      expandedTermsForTitle.push(...aliases)
-    }
+  // An empty search term lists everything (e.g. browsing with only a category filter)
+  let results: SearchResult[]
+  if (searchTerm.trim()) {
+    const products = new Map(mockData.searchResults.map(r => [r.id, r]))
+    results = rankProducts(searchTerm, synonyms)
+      .filter(hit => products.has(hit.id))
+      .map(hit => ({ ...products.get(hit.id)!, score: hit.score }))
+  } else {
+    results = [...mockData.searchResults]
   }
-  
-  // Remove duplicates
-  const uniqueTitleTerms = Array.from(new Set(expandedTermsForTitle))
-  
-  let results = mockData.searchResults.filter((result) => {
-    const titleLower = result.title.toLowerCase()
-    
-    // Check if any expanded term matches the title
-    const titleMatch = uniqueTitleTerms.some(term => titleLower.includes(term))
-    if (titleMatch) return true
-    
-    // For description, only use the original search term (not expanded aliases)
-    // This prevents false positives from common words in descriptions
-    const details = mockData.productDetails[result.id]
-    const descriptionLower = details?.description?.toLowerCase() || ''
-    return descriptionLower.includes(searchLower)
-  })
 
-  // Apply filters
+  // Apply filters (facets are counted from the unfiltered matches)
+  const matched = results
   if (filters) {
-    if (filters.minPrice !== undefined) {
-      results = results.filter(r => r.price >= filters.minPrice!)
-    }
-    if (filters.maxPrice !== undefined) {
-      results = results.filter(r => r.price <= filters.maxPrice!)
-    }
-    if (filters.minRating !== undefined) {
-      results = results.filter(r => r.rating >= filters.minRating!)
+    if (filters.category) {
+      requireCategory(filters.category)
     }
+    results = applyPredicates(matched, facetPredicates(filters))
 
     // Sort results
     if (filters.sortBy) {
@@ -145,18 +417,60 @@ export async function searchProducts(
     }
   }
 
-  // Enrich with cart/wishlist status
-  return results.map(r => ({
+  const { items, page: pageInfo } = paginate(results, page)
+
+  // Enrich with category, cart/wishlist status and stock levels
+  const enriched = await withAvailability(session, items.map(r => ({
     ...r,
-    inCart: cart.items.some(item => item.productId === r.id),
-    inWishlist: wishlist.items.includes(r.id),
-  }))
+    category: productCategory(r.id),
+    inCart: session.cart.items.some(item => item.productId === r.id),
+    inWishlist: session.wishlist.items.includes(r.id),
+  })))
+
+  return {
+    results: enriched,
+    facets: buildFacets(matched, filters),
+    page: pageInfo,
+    query: { searchTerm, filters },
+    suggestions: matched.length === 0 && searchTerm.trim() ? suggestSpelling(searchTerm) : undefined,
+  }
+}
+
+/**
+ * Browse the category tree: the top-level categories when no category is
+ * given, otherwise its subcategories and every product filed under it
+ */
+export async function browseCategory(
+  session: Session,
+  category?: string
+): Promise<CategoryListing> {
+  if (!category) {
+    return { category: null, subcategories: categoryTree(), products: [] }
+  }
+
+  const found = requireCategory(category)
+  const productIds = categoryProductIds(found.id)
+  const products = mockData.searchResults
+    .filter(r => productIds.includes(r.id))
+    .map(r => ({
+      ...r,
+      category: productCategory(r.id),
+      inCart: session.cart.items.some(item => item.productId === r.id),
+      inWishlist: session.wishlist.items.includes(r.id),
+    }))
+
+  return {
+    category: { id: found.id, name: found.name, path: formatCategoryPath(found.id) },
+    subcategories: categoryTree(found.id),
+    products: await withAvailability(session, products),
+  }
 }
 
 /**
  * Get detailed product information
  */
 export async function getProductDetails(
+  session: Session,
   productId: string
 ): Promise<ProductDetails> {
   const productDetails = mockData.productDetails[productId]
@@ -164,11 +478,24 @@ export async function getProductDetails(
     throw new Error(`Product with ID "${productId}" not found`)
   }
   
-  return {
+  const [product] = await withAvailability(session, [{
     ...productDetails,
-    inCart: cart.items.some(item => item.productId === productId),
-    inWishlist: wishlist.items.includes(productId),
+    category: productCategory(productId),
+    inCart: session.cart.items.some(item => item.productId === productId),
+    inWishlist: session.wishlist.items.includes(productId),
+  }])
+
+  const variants = mockData.productVariants[productId]
+  if (variants) {
+    const availability = await getSkuAvailability(variants.map(v => v.sku), session.userId)
+    product.variants = variants.map(v => ({ ...v, ...availability[v.sku] }))
   }
+
+  // Kept in memory; the shopper's next change to their cart, wishlist or
+  // orders saves it along with the rest of the session
+  recordView(session.profile, productId)
+
+  return product
 }
 
 /**
@@ -185,11 +512,12 @@ export async function getProductReviews(
 }
 
 /**
- * Compare multiple products side by side
+ * Compare multiple products side by side, with their specs aligned row by row
  */
 export async function compareProducts(
+  session: Session,
   productIds: string[]
-): Promise<ProductDetails[]> {
+): Promise<ProductComparison> {
   const products: ProductDetails[] = []
   
   for (const id of productIds) {
@@ -197,8 +525,9 @@ export async function compareProducts(
     if (details) {
       products.push({
         ...details,
-        inCart: cart.items.some(item => item.productId === id),
-        inWishlist: wishlist.items.includes(id),
+        category: productCategory(id),
+        inCart: session.cart.items.some(item => item.productId === id),
+        inWishlist: session.wishlist.items.includes(id),
       })
     }
   }
@@ -207,7 +536,66 @@ export async function compareProducts(
     throw new Error('No valid products found to compare')
   }
   
-  return products
+  const enriched = await withAvailability(session, products)
+  return { products: enriched, rows: compareSpecs(enriched) }
+}
+
+/**
+ * Check whether products work together and, optionally, with a platform
+ * ("macOS", "my iPhone"). With one product, also lists what plugs into it.
+ */
+export async function checkCompatibility(
+  session: Session,
+  productIds: string[],
+  platform?: string
+): Promise<CompatibilityReport> {
+  const ids = Array.from(new Set(productIds))
+  if (ids.length === 0) {
+    throw new Error('Name at least one product to check')
+  }
+  for (const id of ids) {
+    if (!mockData.productDetails[id]) {
+      throw new Error(`Product with ID "${id}" not found`)
+    }
+  }
+
+  const checks = ids.flatMap((a, i) => ids.slice(i + 1).map(b => checkPair(a, b)))
+    .filter((check): check is CompatibilityCheck => check !== null)
+
+  let platformReport: CompatibilityReport['platform']
+  if (platform) {
+    const name = findPlatform(platform)
+    if (!name) {
+      throw new Error(`Unknown platform "${platform}". Try macOS, Windows, Linux, iOS, iPadOS, Android or ChromeOS`)
+    }
+    const support = ids.map(id => checkPlatform(id, name))
+      .filter((s): s is PlatformSupport => s !== null)
+    platformReport = { name, support }
+  }
+
+  let worksWith: CompatibilityReport['worksWith']
+  if (ids.length === 1) {
+    const products = new Map(mockData.searchResults.map(r => [r.id, r]))
+    worksWith = await withAvailability(session, compatibleWith(ids[0]).map(check => {
+      const otherId = check.productIds[0] === ids[0] ? check.productIds[1] : check.productIds[0]
+      return {
+        ...products.get(otherId)!,
+        category: productCategory(otherId),
+        status: check.status,
+        reason: check.reason,
+        inCart: session.cart.items.some(item => item.productId === otherId),
+        inWishlist: session.wishlist.items.includes(otherId),
+      }
+    }))
+  }
+
+  return {
+    products: ids.map(id => ({ id, title: mockData.productDetails[id].title })),
+    checks,
+    platform: platformReport,
+    worksWith,
+    compatible: ![...checks, ...(platformReport?.support ?? [])].some(c => c.status === 'incompatible'),
+  }
 }
 
 // ============================================================================
@@ -218,78 +606,140 @@ export async function compareProducts(
  * Add a product to the shopping cart
  */
 export async function addToCart(
+  session: Session,
   productId: string,
-  quantity: number = 1
-): Promise<{ success: boolean; message: string; cart: typeof cart }> {
+  quantity: number = 1,
+  selection?: VariantSelection
+): Promise<{ success: boolean; message: string; cart: Cart; bundle?: BundleSuggestion; warnings?: string[] }> {
   const product = mockData.productDetails[productId]
   if (!product) {
     throw new Error(`Product with ID "${productId}" not found`)
   }
+  requireQuantity(quantity)
+
+  const line = buildCartLine(productId, selection, quantity)
+  const { cart } = session
+  const existingItem = cart.items.find(item => item.sku === line.sku)
 
-  const existingItem = cart.items.find(item => item.productId === productId)
+  // Hold the stock before touching the cart (throws if there isn't enough)
+  await reserveStock(session.userId, line.sku, (existingItem?.quantity ?? 0) + quantity)
   
   if (existingItem) {
     existingItem.quantity += quantity
   } else {
-    cart.items.push({
-      productId,
-      title: product.title,
-      price: product.price,
-      quantity,
-    })
+    cart.items.push(line)
   }
 
   // Recalculate total
-  cart.total = cart.items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
+  cart.total = calculateCartTotal(cart)
+  await saveSession(session)
 
   return {
     success: true,
-    message: `Added ${quantity}x "${product.title}" to cart`,
+    message: `Added ${quantity}x "${describeLine(line)}" to cart (reserved for ${RESERVATION_TTL_MINUTES} minutes)`,
     cart: { ...cart },
+    bundle: await suggestBundle(session, productId),
+    warnings: cartWarnings(cart, productId),
   }
 }
 
 /**
- * Remove a product from the cart
+ * Add a product together with the products most often bought with it, one
+ * of each. Items already in the cart are left alone; items that need a
+ * size/color/length or are out of stock are skipped and reported.
  */
-export async function removeFromCart(
+export async function addBundleToCart(
+  session: Session,
   productId: string
-): Promise<{ success: boolean; message: string; cart: typeof cart }> {
-  const itemIndex = cart.items.findIndex(item => item.productId === productId)
-  
-  if (itemIndex === -1) {
-    throw new Error(`Product "${productId}" is not in your cart`)
+): Promise<{ success: boolean; message: string; added: string[]; skipped: Array<{ productId: string; title: string; reason: string }>; cart: Cart }> {
+  const product = mockData.productDetails[productId]
+  if (!product) {
+    throw new Error(`Product with ID "${productId}" not found`)
   }
 
+  const bundle = [productId, ...(await boughtTogether(productId, MAX_BUNDLE_ITEMS)).map(pair => pair.productId)]
+  const added: string[] = []
+  const skipped: Array<{ productId: string; title: string; reason: string }> = []
+
+  for (const id of bundle) {
+    const { title } = mockData.productDetails[id]
+    if (session.cart.items.some(item => item.productId === id)) continue
+
+    const choice = getVariantChoice(id)
+    if (choice) {
+      skipped.push({ productId: id, title, reason: `choose a ${Object.keys(choice.options).join(' and ')} first` })
+      continue
+    }
+    try {
+      await addToCart(session, id, 1)
+      added.push(title)
+    } catch (error) {
+      skipped.push({ productId: id, title, reason: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const parts: string[] = []
+  parts.push(added.length > 0
+    ? `Added ${added.map(title => `"${title}"`).join(', ')} to cart`
+    : 'Nothing new to add - the bundle is already in your cart')
+  for (const item of skipped) {
+    parts.push(`Skipped "${item.title}": ${item.reason}`)
+  }
+
+  return {
+    success: added.length > 0,
+    message: parts.join('\n'),
+    added,
+    skipped,
+    cart: { ...session.cart },
+  }
+}
+
+/**
+ * Remove a product from the cart
+ * Pass a SKU when the cart holds more than one variant of the product
+ */
+export async function removeFromCart(
+  session: Session,
+  productId: string,
+  sku?: string
+): Promise<{ success: boolean; message: string; cart: Cart }> {
+  const { cart } = session
+  const itemIndex = findCartLine(cart, productId, sku)
+
   const removed = cart.items.splice(itemIndex, 1)[0]
-  cart.total = cart.items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
+  await releaseStock(session.userId, removed.sku)
+  cart.total = calculateCartTotal(cart)
+  await saveSession(session)
 
   return {
     success: true,
-    message: `Removed "${removed.title}" from cart`,
+    message: `Removed "${describeLine(removed)}" from cart`,
     cart: { ...cart },
   }
 }
 
 /**
- * Update quantity of an item in cart
+ * Update quantity of an item in cart; a quantity of 0 removes it
  */
 export async function updateCartQuantity(
+  session: Session,
   productId: string,
-  quantity: number
-): Promise<{ success: boolean; message: string; cart: typeof cart }> {
-  const item = cart.items.find(item => item.productId === productId)
-  
-  if (!item) {
-    throw new Error(`Product "${productId}" is not in your cart`)
-  }
+  quantity: number,
+  sku?: string
+): Promise<{ success: boolean; message: string; cart: Cart }> {
+  const { cart } = session
+  const item = cart.items[findCartLine(cart, productId, sku)]
 
-  if (quantity <= 0) {
-    return removeFromCart(productId)
+  if (quantity === 0) {
+    return removeFromCart(session, productId, item.sku)
   }
+  requireQuantity(quantity)
 
+  await reserveStock(session.userId, item.sku, quantity)
   item.quantity = quantity
-  cart.total = cart.items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
+  cart.total = calculateCartTotal(cart)
+  await saveSession(session)
 
   return {
     success: true,
@@ -299,18 +749,21 @@ export async function updateCartQuantity(
 }
 
 /**
- * View the current shopping cart
+ * View the current shopping cart with its discounts
  */
-export async function viewCart(): Promise<typeof cart> {
-  return { ...cart }
+export async function viewCart(session: Session): Promise<CartView> {
+  return priceCartView(session.cart)
 }
 
 /**
  * Clear the entire cart
  */
-export async function clearCart(): Promise<{ success: boolean; message: string }> {
-  cart.items = []
-  cart.total = 0
+export async function clearCart(session: Session): Promise<{ success: boolean; message: string }> {
+  await releaseStock(session.userId)
+  session.cart.items = []
+  session.cart.total = 0
+  session.cart.coupons = []
+  await saveSession(session)
   
   return {
     success: true,
@@ -318,6 +771,60 @@ export async function clearCart(): Promise<{ success: boolean; message: string }
   }
 }
 
+// ============================================================================
+// PROMOTIONS
+// ============================================================================
+
+/**
+ * Apply a coupon code to the cart
+ */
+export async function applyCoupon(
+  session: Session,
+  code: string
+): Promise<{ success: boolean; message: string; cart: CartView }> {
+  const { cart } = session
+  const coupon = validateCoupon(code, cart.coupons)
+
+  cart.coupons.push(coupon.code!)
+  cart.total = calculateCartTotal(cart)
+  await saveSession(session)
+
+  const view = priceCartView(cart)
+  const discount = view.pricing.discounts.find(d => d.promotionId === coupon.id)
+  const notice = view.pricing.notices.find(n => n.includes(coupon.code!))
+  return {
+    success: true,
+    message: discount
+      ? `Applied ${coupon.code}: ${coupon.description} - you save ${formatMoney(discount.amount)}`
+      : `Applied ${coupon.code}${notice ? `, but it doesn't take effect yet: ${notice}` : ''}`,
+    cart: view,
+  }
+}
+
+/**
+ * Remove a coupon code from the cart
+ */
+export async function removeCoupon(
+  session: Session,
+  code: string
+): Promise<{ success: boolean; message: string; cart: CartView }> {
+  const { cart } = session
+  const index = cart.coupons.findIndex(c => c.toUpperCase() === code.trim().toUpperCase())
+  if (index === -1) {
+    throw new Error(`Coupon "${code}" isn't applied to your cart`)
+  }
+
+  const [removed] = cart.coupons.splice(index, 1)
+  cart.total = calculateCartTotal(cart)
+  await saveSession(session)
+
+  return {
+    success: true,
+    message: `Removed coupon ${removed}`,
+    cart: priceCartView(cart),
+  }
+}
+
 // ============================================================================
 // WISHLIST OPERATIONS
 // ============================================================================
@@ -326,6 +833,7 @@ export async function clearCart(): Promise<{ success: boolean; message: string }
  * Add a product to the wishlist
  */
 export async function addToWishlist(
+  session: Session,
   productId: string
 ): Promise<{ success: boolean; message: string; wishlist: string[] }> {
   const product = mockData.productDetails[productId]
@@ -333,6 +841,8 @@ export async function addToWishlist(
     throw new Error(`Product with ID "${productId}" not found`)
   }
 
+  const { wishlist } = session
+
   if (wishlist.items.includes(productId)) {
     return {
       success: true,
@@ -342,6 +852,7 @@ export async function addToWishlist(
   }
 
   wishlist.items.push(productId)
+  await saveSession(session)
 
   return {
     success: true,
@@ -354,8 +865,10 @@ export async function addToWishlist(
  * Remove a product from the wishlist
  */
 export async function removeFromWishlist(
+  session: Session,
   productId: string
 ): Promise<{ success: boolean; message: string; wishlist: string[] }> {
+  const { wishlist } = session
   const index = wishlist.items.indexOf(productId)
   
   if (index === -1) {
@@ -363,6 +876,7 @@ export async function removeFromWishlist(
   }
 
   wishlist.items.splice(index, 1)
+  await saveSession(session)
   const product = mockData.productDetails[productId]
 
   return {
@@ -375,35 +889,38 @@ export async function removeFromWishlist(
 /**
  * View the wishlist with full product details
  */
-export async function viewWishlist(): Promise<ProductDetails[]> {
+export async function viewWishlist(session: Session): Promise<ProductDetails[]> {
   const products: ProductDetails[] = []
   
-  for (const id of wishlist.items) {
+  for (const id of session.wishlist.items) {
     const details = mockData.productDetails[id]
     if (details) {
       products.push({
         ...details,
-        inCart: cart.items.some(item => item.productId === id),
+        inCart: session.cart.items.some(item => item.productId === id),
         inWishlist: true,
       })
     }
   }
   
-  return products
+  return withAvailability(session, products)
 }
 
 /**
  * Move an item from wishlist to cart
  */
 export async function moveWishlistToCart(
-  productId: string
+  session: Session,
+  productId: string,
+  selection?: VariantSelection
 ): Promise<{ success: boolean; message: string }> {
-  if (!wishlist.items.includes(productId)) {
+  if (!session.wishlist.items.includes(productId)) {
     throw new Error(`Product "${productId}" is not in your wishlist`)
   }
 
-  await removeFromWishlist(productId)
-  await addToCart(productId, 1)
+  // Add first so a missing variant or stock shortage keeps the wishlist intact
+  await addToCart(session, productId, 1, selection)
+  await removeFromWishlist(session, productId)
 
   const product = mockData.productDetails[productId]
   return {
@@ -412,97 +929,750 @@ export async function moveWishlistToCart(
   }
 }
 
+// ============================================================================
+// ADDRESSES & DELIVERY
+// ============================================================================
+
+/**
+ * Save a shipping address. The first one saved becomes the default, as
+ * does any saved with `makeDefault`.
+ */
+export async function addAddress(
+  session: Session,
+  input: AddressInput,
+  makeDefault: boolean = false
+): Promise<{ success: boolean; message: string; address: SavedAddress }> {
+  const book = session.addressBook
+  const address = saveAddress(book, input)
+  if (makeDefault) book.defaultId = address.id
+  await saveSession(session)
+
+  const saved = describeAddress(session, address)
+  return {
+    success: true,
+    message: `Saved ${saved.formatted}${saved.isDefault ? ' as your default address' : ''}`,
+    address: saved,
+  }
+}
+
+/**
+ * List the shopper's saved addresses, default first
+ */
+export async function viewAddresses(session: Session): Promise<SavedAddress[]> {
+  return session.addressBook.addresses
+    .map(address => describeAddress(session, address))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+}
+
+/**
+ * Make a saved address the one orders ship to by default
+ */
+export async function setDefaultAddress(
+  session: Session,
+  addressId: string
+): Promise<{ success: boolean; message: string }> {
+  const address = requireAddress(session.addressBook, addressId)
+  session.addressBook.defaultId = address.id
+  await saveSession(session)
+
+  return {
+    success: true,
+    message: `Orders will now ship to ${formatAddress(address)}`,
+  }
+}
+
+/**
+ * Delete a saved address
+ */
+export async function removeAddress(
+  session: Session,
+  addressId: string
+): Promise<{ success: boolean; message: string }> {
+  const address = deleteAddress(session.addressBook, addressId)
+  await saveSession(session)
+
+  return {
+    success: true,
+    message: `Removed ${formatAddress(address)}`,
+  }
+}
+
+/**
+ * What each delivery method would cost for the cart and when it would
+ * arrive, shipping to the given saved address or the default one
+ */
+export async function getDeliveryOptions(session: Session, addressId?: string): Promise<DeliveryOptions> {
+  const { cart, addressBook } = session
+  if (cart.items.length === 0) {
+    throw new Error('Your cart is empty. Add items to see delivery options.')
+  }
+
+  const address = addressId || addressBook.defaultId ? requireAddress(addressBook, addressId) : undefined
+  const orderDate = today()
+  const options = SHIPPING_METHODS.map(method => {
+    const pricing = priceOrder(cart.items, cart.coupons, { shippingMethod: method, region: address?.region })
+    return {
+      method,
+      label: shippingMethodLabel(method),
+      shippingCost: pricing.shipping.cost,
+      free: pricing.shipping.free,
+      total: pricing.total,
+      estimatedDelivery: estimateDelivery(method, address?.region, orderDate),
+    }
+  })
+
+  return { address: address && describeAddress(session, address), options }
+}
+
+// ============================================================================
+// PAYMENT METHODS
+// ============================================================================
+
+/**
+ * Save a card (kept as a token) or a gift card. The first one saved
+ * becomes the default, as does any saved with `makeDefault`.
+ */
+export async function addPaymentMethod(
+  session: Session,
+  input: PaymentMethodInput,
+  makeDefault: boolean = false
+): Promise<{ success: boolean; message: string; method: SavedPaymentMethod }> {
+  const { wallet } = session
+  const method = input.type === 'gift_card'
+    ? await saveGiftCard(wallet, input.code)
+    : saveCard(wallet, input)
+  if (makeDefault) wallet.defaultId = method.id
+  await saveSession(session)
+
+  const saved = await describeSavedMethod(session, method)
+  const balance = saved.balance !== undefined ? ` (balance ${formatMoney(saved.balance)})` : ''
+  return {
+    success: true,
+    message: `Saved ${saved.description}${balance}${saved.isDefault ? ' as your default payment method' : ''}`,
+    method: saved,
+  }
+}
+
+/**
+ * List the shopper's saved payment methods, default first, plus their
+ * store credit when they have some
+ */
+export async function viewPaymentMethods(session: Session): Promise<SavedPaymentMethod[]> {
+  const methods = await Promise.all(session.wallet.methods.map(method => describeSavedMethod(session, method)))
+  const credit = await describeSavedMethod(session, STORE_CREDIT_METHOD_ID)
+  if (credit.balance) methods.push(credit)
+  return methods.sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+}
+
+/**
+ * Make a saved payment method the one orders are charged to by default
+ */
+export async function setDefaultPaymentMethod(
+  session: Session,
+  methodId: string
+): Promise<{ success: boolean; message: string }> {
+  const method = requirePaymentMethod(session.wallet, methodId)
+  session.wallet.defaultId = method === STORE_CREDIT_METHOD_ID ? method : method.id
+  await saveSession(session)
+
+  return {
+    success: true,
+    message: `Orders will now be charged to ${describePaymentMethod(method)}`,
+  }
+}
+
+/**
+ * Delete a saved payment method
+ */
+export async function removePaymentMethod(
+  session: Session,
+  methodId: string
+): Promise<{ success: boolean; message: string }> {
+  const method = deletePaymentMethod(session.wallet, methodId)
+  await saveSession(session)
+
+  return {
+    success: true,
+    message: `Removed ${describePaymentMethod(method)}`,
+  }
+}
+
 // ============================================================================
 // PURCHASE & ORDERS
 // ============================================================================
 
 /**
- * Purchase a single product directly
+ * Purchase a single product directly. Shipped orders need a saved address,
+ * and the order is only confirmed once its payment is captured.
  */
 export async function purchaseProduct(
+  session: Session,
   productId: string,
-  quantity: number = 1
+  quantity: number = 1,
+  selection?: VariantSelection,
+  options: CheckoutOptions = {}
 ): Promise<Order> {
   const product = mockData.productDetails[productId]
   if (!product) {
     throw new Error(`Product with ID "${productId}" not found`)
   }
+  requireQuantity(quantity)
+
+  const line = buildCartLine(productId, selection, quantity)
+  // Settle delivery before stock is taken so a missing address doesn't use any up
+  const { method, address } = resolveDelivery(session, options)
+  // Buying outright skips the cart, so only running sales apply, not coupons
+  const pricing = priceOrder([line], [], { shippingMethod: method, region: address?.region })
 
+  const placedAt = new Date()
+  const orderDate = today(placedAt)
   const order: Order = {
     orderId: generateOrderId(),
-    items: [{
-      productId,
-      title: product.title,
-      price: product.price,
-      quantity,
-    }],
-    total: product.price * quantity,
-    status: 'confirmed',
-    orderDate: new Date().toISOString().split('T')[0],
-    estimatedDelivery: product.deliveryDate,
-  }
-
-  orders.push(order)
+    items: [line],
+    subtotal: pricing.subtotal,
+    discounts: pricing.discounts,
+    shipping: pricing.shipping,
+    tax: pricing.tax,
+    total: pricing.total,
+    shippingAddress: address && { ...address },
+    shipment: createShipment(method, address),
+    status: 'pending',
+    history: [{ status: 'pending', at: placedAt.toISOString() }],
+    orderDate,
+    estimatedDelivery: estimateDelivery(method, address?.region, orderDate),
+  }
+
+  order.payment = await chargeOrder(session, [line], order.total, options.paymentMethodId)
+  transition(order, 'confirmed')
+
+  session.orders.push(order)
+  await saveSession(session)
+  recordOrder([productId])
   return order
 }
 
 /**
- * Checkout the current cart
+ * Checkout the current cart, charging shipping by method and weight and
+ * the tax of the region it ships to. Shipped orders need a saved address,
+ * and the order is only confirmed once its payment is captured. Items that
+ * don't fit together don't block the order; they come back as warnings.
  */
-export async function checkout(): Promise<Order> {
+export async function checkout(
+  session: Session,
+  options: CheckoutOptions = {}
+): Promise<Order & { warnings?: string[] }> {
+  const { cart } = session
+
   if (cart.items.length === 0) {
     throw new Error('Your cart is empty. Add items before checkout.')
   }
 
-  // Find the latest delivery date among all items
-  let latestDelivery = ''
-  for (const item of cart.items) {
-    const product = mockData.productDetails[item.productId]
-    if (product && product.deliveryDate > latestDelivery) {
-      latestDelivery = product.deliveryDate
-    }
-  }
+  const warnings = cartWarnings(cart)
+  const { method, address } = resolveDelivery(session, options)
+  // Reprice now: a coupon or sale may have ended since the cart was last touched
+  const pricing = priceOrder(cart.items, cart.coupons, { shippingMethod: method, region: address?.region })
 
+  const placedAt = new Date()
+  const orderDate = today(placedAt)
   const order: Order = {
     orderId: generateOrderId(),
     items: [...cart.items],
-    total: cart.total,
-    status: 'confirmed',
-    orderDate: new Date().toISOString().split('T')[0],
-    estimatedDelivery: latestDelivery || undefined,
+    subtotal: pricing.subtotal,
+    discounts: pricing.discounts,
+    shipping: pricing.shipping,
+    tax: pricing.tax,
+    total: pricing.total,
+    shippingAddress: address && { ...address },
+    shipment: createShipment(method, address),
+    status: 'pending',
+    history: [{ status: 'pending', at: placedAt.toISOString() }],
+    orderDate,
+    estimatedDelivery: estimateDelivery(method, address?.region, orderDate),
   }
 
-  orders.push(order)
+  // Charging also converts the cart reservations into a hard stock decrement
+  order.payment = await chargeOrder(session, cart.items, order.total, options.paymentMethodId)
+  transition(order, 'confirmed')
+  session.orders.push(order)
 
-  // Clear the cart after checkout
+  // Clear the cart (and the coupons used on it) after checkout
   cart.items = []
   cart.total = 0
+  cart.coupons = []
+  await saveSession(session)
+  recordOrder(order.items.map(item => item.productId))
 
-  return order
+  return { ...order, warnings }
 }
 
 /**
- * View order history
+ * View order history, with each order moved along by the fulfillment clock
  */
-export async function viewOrders(): Promise<Order[]> {
-  return [...orders]
+export async function viewOrders(session: Session): Promise<Order[]> {
+  await syncOrders(session)
+  return [...session.orders]
 }
 
 /**
- * Get details of a specific order
+ * Get details of a specific order, brought up to date, with its tracking
+ * timeline. Without an order ID, the most recent order.
  */
-export async function getOrderDetails(orderId: string): Promise<Order> {
-  const order = orders.find(o => o.orderId === orderId)
-  if (!order) {
-    throw new Error(`Order "${orderId}" not found`)
+export async function getOrderDetails(session: Session, orderId?: string): Promise<OrderDetails> {
+  const order = await findOrder(session, orderId)
+  return { ...order, timeline: trackingEvents(order) }
+}
+
+/**
+ * Cancel an order that hasn't shipped yet: refund everything paid to the
+ * original payment method and put the stock back on sale
+ */
+export async function cancelOrder(session: Session, orderId: string, reason?: string): Promise<Order & { refund?: OrderRefund }> {
+  const order = await findOrder(session, orderId)
+  if (!canTransition(order, 'cancelled')) {
+    throw new Error(order.status === 'shipped' || order.status === 'delivered'
+      ? `Order ${order.orderId} has already shipped, so it can't be cancelled. Once it's delivered you can return it instead.`
+      : `Order ${order.orderId} is already ${order.status}`)
   }
-  return order
+
+  const refunded = await refundOrder(order, refundableAmount(order), 'Order cancelled')
+  await restock(order.items)
+  transition(order, 'cancelled', new Date(), reason?.trim() || undefined)
+  await saveSession(session)
+
+  return { ...order, refund: refunded }
+}
+
+/**
+ * Return units of a delivered order, within the return window of the
+ * reason given. The items' share of what was paid (after discounts, with
+ * tax, without shipping) is refunded to the original payment method, and
+ * resellable units go back on sale. Once every unit is back the order is
+ * marked returned.
+ */
+export async function requestReturn(
+  session: Session,
+  orderId: string,
+  items: ReturnLineInput[],
+  reason: ReturnReason,
+  comment?: string
+): Promise<ReturnConfirmation> {
+  const order = await findOrder(session, orderId)
+  const plan = planReturn(order, items, reason)
+
+  const returns = order.returns ?? []
+  const returned: OrderReturn = {
+    returnId: `${order.orderId.replace(/^ORD/, 'RET')}-${returns.length + 1}`,
+    items: plan.items,
+    reason: plan.reason,
+    comment: comment?.trim() || undefined,
+    requestedAt: new Date().toISOString(),
+    restocked: plan.restocked,
+    refunded: plan.amount,
+  }
+
+  const refunded = await refundOrder(order, plan.amount, `Return ${returned.returnId}`)
+  if (plan.restocked) {
+    await restock(plan.items)
+  }
+  order.returns = [...returns, returned]
+  if (fullyReturned(order)) {
+    transition(order, 'returned', new Date(), returnReasonLabel(reason))
+  }
+  await saveSession(session)
+
+  return { order, return: returned, refund: refunded }
+}
+
+/**
+ * Write a printable invoice for an order (the most recent one when no ID
+ * is given) as plain text, HTML or PDF, returning where it was saved
+ */
+export async function exportInvoice(
+  session: Session,
+  orderId?: string,
+  format: InvoiceFormat = 'pdf'
+): Promise<{ orderId: string; format: InvoiceFormat; path: string }> {
+  const order = await findOrder(session, orderId)
+  const file = await writeInvoice(order, format)
+  return { orderId: order.orderId, format, path: file }
+}
+
+// ============================================================================
+// PRODUCT VARIANTS
+// ============================================================================
+
+/**
+ * Check whether a product still needs a variant choice before it can be
+ * added or bought. Returns null when the selection is complete (or the
+ * product has no variants), otherwise the options left to choose from.
+ */
+export function getVariantChoice(
+  productId: string,
+  selection?: VariantSelection
+): VariantChoiceRequired | null {
+  const product = mockData.productDetails[productId]
+  const variants = mockData.productVariants[productId]
+  if (!product || !variants) return null
+
+  const matching = variants.filter(v => matchesSelection(v, selection))
+  if (matching.length === 1) return null
+
+  // Offer only the attributes the shopper hasn't pinned down yet,
+  // or everything again if their choice matched nothing
+  const chosen = new Set(Object.keys(selection ?? {}).map(name => name.toLowerCase()))
+  const candidates = matching.length > 0 ? matching : variants
+  const options: Record<string, string[]> = {}
+  for (const variant of candidates) {
+    for (const [name, value] of Object.entries(variant.attributes)) {
+      if (matching.length > 0 && chosen.has(name.toLowerCase())) continue
+      options[name] = options[name] || []
+      if (!options[name].includes(value)) options[name].push(value)
+    }
+  }
+
+  const attributeNames = Object.keys(options).join(' and ')
+  return {
+    needsVariantSelection: true,
+    productId,
+    title: product.title,
+    message: matching.length > 0
+      ? `Please choose a ${attributeNames} for "${product.title}"`
+      : `That option isn't available for "${product.title}". Please choose a ${attributeNames}`,
+    options,
+  }
+}
+
+/**
+ * Find the single variant matching a shopper's selection
+ */
+function resolveVariant(productId: string, selection?: VariantSelection): ProductVariant | null {
+  const variants = mockData.productVariants[productId]
+  if (!variants) return null
+
+  const choice = getVariantChoice(productId, selection)
+  if (choice) {
+    throw new Error(choice.message)
+  }
+  return variants.find(v => matchesSelection(v, selection))!
+}
+
+/**
+ * Whether a variant has every attribute value the shopper asked for
+ * (attribute names and values are compared case-insensitively)
+ */
+function matchesSelection(variant: ProductVariant, selection?: VariantSelection): boolean {
+  return Object.entries(selection ?? {}).every(([name, value]) => {
+    const attribute = Object.keys(variant.attributes).find(a => a.toLowerCase() === name.toLowerCase())
+    return attribute !== undefined &&
+      variant.attributes[attribute].toLowerCase() === String(value).toLowerCase()
+  })
+}
+
+/**
+ * Build a cart/order line for a product and (if it has variants) the chosen variant
+ */
+function buildCartLine(productId: string, selection: VariantSelection | undefined, quantity: number): CartItem {
+  const product = mockData.productDetails[productId]
+  const variant = resolveVariant(productId, selection)
+
+  return {
+    productId,
+    sku: variant?.sku ?? productId,
+    title: product.title,
+    price: roundPrice(product.price + (variant?.priceDelta ?? 0)),
+    quantity,
+    ...(variant && { variant: variant.attributes }),
+  }
+}
+
+/**
+ * Locate a cart line by SKU, or by product ID when it is unambiguous
+ */
+function findCartLine(cart: Cart, productId: string, sku?: string): number {
+  const matches = cart.items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => sku ? item.sku === sku : item.productId === productId || item.sku === productId)
+
+  if (matches.length === 0) {
+    throw new Error(`Product "${sku || productId}" is not in your cart`)
+  }
+  if (matches.length > 1) {
+    const skus = matches.map(({ item }) => `${item.sku} (${formatVariantLabel(item.variant)})`).join(', ')
+    throw new Error(`Your cart has several options of "${matches[0].item.title}": ${skus}. Please specify which one.`)
+  }
+  return matches[0].index
+}
+
+/**
+ * Product title plus chosen variant, e.g. "Salomon Quest 4 GTX (size 10)"
+ */
+function describeLine(line: CartItem): string {
+  return line.variant ? `${line.title} (${formatVariantLabel(line.variant)})` : line.title
+}
+
+/**
+ * Render variant attributes as "size 10, color Black"
+ */
+function formatVariantLabel(attributes?: Record<string, string>): string {
+  return Object.entries(attributes ?? {}).map(([name, value]) => `${name} ${value}`).join(', ')
 }
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Round a currency amount to cents
+ */
+function roundPrice(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Attach current stock levels (as seen by the shopper), and the delivery date
+ * if ordered now, to a list of products
+ */
+async function withAvailability<T extends { id: string; deliveryDays?: number }>(
+  session: Session,
+  products: T[]
+): Promise<Array<T & Availability>> {
+  const availability = await getAvailability(products.map(p => p.id), session.userId)
+  return products.map(p => {
+    const delivery = p.deliveryDays !== undefined ? { deliveryDate: productDeliveryDate(p.deliveryDays) } : {}
+    return { ...p, ...delivery, ...availability[p.id] }
+  })
+}
+
+/**
+ * Cut one page out of a result list. A cursor wins over offset/limit.
+ */
+function paginate<T>(items: T[], request: PageRequest = {}): { items: T[]; page: PageInfo } {
+  const position = request.cursor ? decodeCursor(request.cursor) : request
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(position.limit ?? DEFAULT_PAGE_SIZE)))
+  const offset = Math.max(0, Math.floor(position.offset ?? 0))
+  const hasMore = offset + limit < items.length
+
+  return {
+    items: items.slice(offset, offset + limit),
+    page: {
+      offset,
+      limit,
+      total: items.length,
+      page: Math.floor(offset / limit) + 1,
+      pageCount: Math.max(1, Math.ceil(items.length / limit)),
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(offset + limit, limit) : undefined,
+    },
+  }
+}
+
+/**
+ * Opaque token for "the page after this one"
+ */
+function encodeCursor(offset: number, limit: number): string {
+  return Buffer.from(JSON.stringify({ offset, limit })).toString('base64url')
+}
+
+function decodeCursor(cursor: string): { offset: number; limit: number } {
+  try {
+    const { offset, limit } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    if (Number.isInteger(offset) && Number.isInteger(limit)) {
+      return { offset, limit }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid page cursor "${cursor}"`)
+}
+
+/**
+ * Look up a category by ID or name, listing the top-level ones if it's unknown
+ */
+function requireCategory(idOrName: string) {
+  const category = findCategory(idOrName)
+  if (!category) {
+    const topLevel = childCategories().map(c => c.name).join(', ')
+    throw new Error(`Category "${idOrName}" not found. Top-level categories: ${topLevel}`)
+  }
+  return category
+}
+
+/**
+ * The "also bought" items for a product just added to the cart, leaving out
+ * anything already in it
+ */
+async function suggestBundle(session: Session, productId: string): Promise<BundleSuggestion | undefined> {
+  const pairs = (await boughtTogether(productId, MAX_BUNDLE_ITEMS))
+    .filter(pair => !session.cart.items.some(item => item.productId === pair.productId))
+  if (pairs.length === 0) return undefined
+
+  const items = pairs.map(pair => {
+    const { id, title, price } = mockData.productDetails[pair.productId]
+    return { id, title, price }
+  })
+  return {
+    productId,
+    message: `People who bought the ${shortTitle(mockData.productDetails[productId].title)} also bought the ${items.map(item => shortTitle(item.title)).join(' and the ')}`,
+    items,
+  }
+}
+
+/**
+ * A product title without its marketing tail ("Logitech MX Master 3S - Wireless ..." -> "Logitech MX Master 3S")
+ */
+function shortTitle(title: string): string {
+  return title.split(/ [-|] /)[0].trim()
+}
+
+/**
+ * Why a personal recommendation was made, e.g. "Because you viewed the Echo Dot (4th Gen)"
+ */
+function describeInterest(productId: string, signal: Signal): string {
+  const title = shortTitle(mockData.productDetails[productId].title)
+  switch (signal) {
+    case 'purchased': return `Because you bought the ${title}`
+    case 'wishlisted': return `Like the ${title} on your wishlist`
+    case 'viewed': return `Because you viewed the ${title}`
+  }
+}
+
+/**
+ * Compatibility problems among the cart's products, optionally only those
+ * involving one product; undefined when there are none
+ */
+function cartWarnings(cart: Cart, productId?: string): string[] | undefined {
+  const conflicts = findConflicts(cart.items.map(item => item.productId))
+    .filter(check => !productId || check.productIds.includes(productId))
+  return conflicts.length > 0 ? conflicts.map(check => check.reason) : undefined
+}
+
+/**
+ * What the cart costs after running sales and its coupons
+ */
+function calculateCartTotal(cart: Cart): number {
+  return priceItems(cart.items, cart.coupons).total
+}
+
+/**
+ * A copy of the cart with its discount breakdown, priced as of now
+ */
+function priceCartView(cart: Cart): CartView {
+  const pricing = priceItems(cart.items, cart.coupons)
+  return { ...cart, coupons: [...cart.coupons], total: pricing.total, pricing }
+}
+
+/**
+ * The delivery method of a purchase and, unless it's picked up, the saved
+ * address it ships to. Throws when a shipped order has no address.
+ */
+function resolveDelivery(session: Session, options: CheckoutOptions): { method: ShippingMethod; address?: Address } {
+  const method = options.shippingMethod ?? 'standard'
+  if (!SHIPPING_METHODS.includes(method)) {
+    throw new Error(`Unknown delivery method "${method}". Choose ${SHIPPING_METHODS.join(', ')}`)
+  }
+  if (method === 'pickup') return { method }
+  return { method, address: requireAddress(session.addressBook, options.addressId) }
+}
+
+/**
+ * Pay for an order and take its stock: authorize the payment, commit the
+ * stock (voiding the authorization if that fails), then capture. Throws
+ * for totals of $0 or less and when the payment is declined, in which case
+ * nothing is charged or taken.
+ */
+async function chargeOrder(session: Session, lines: CartItem[], amount: number, methodId?: string): Promise<OrderPayment> {
+  if (!(amount > 0)) {
+    throw new Error(`Order total must be more than $0.00, not ${formatMoney(amount)}`)
+  }
+  const method = requirePaymentMethod(session.wallet, methodId)
+  const authorization = await authorize(session.userId, method, amount)
+  if (authorization.status === 'declined') {
+    throw new Error(declineMessage(authorization, method))
+  }
+
+  try {
+    await commitStock(session.userId, lines)
+  } catch (error) {
+    await voidAuthorization(authorization.id)
+    throw error
+  }
+
+  const captured = await capture(authorization.id)
+  return {
+    methodId: captured.methodId,
+    description: describePaymentMethod(method),
+    authorizationId: captured.id,
+    amount: captured.amount,
+    capturedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Send money back to whatever paid for an order and record it there.
+ * Orders placed before payments have no charge to refund through the
+ * gateway, so only the record is kept. Nothing happens for zero amounts.
+ */
+async function refundOrder(order: Order, amount: number, reason: string): Promise<OrderRefund | undefined> {
+  if (amount <= 0) return undefined
+
+  if (order.payment) {
+    await refund(order.payment.authorizationId, amount)
+  }
+  const refunded: OrderRefund = {
+    amount,
+    description: order.payment?.description ?? 'Original payment method',
+    authorizationId: order.payment?.authorizationId,
+    reason,
+    refundedAt: new Date().toISOString(),
+  }
+  order.refunds = [...(order.refunds ?? []), refunded]
+  return refunded
+}
+
+async function describeSavedMethod(session: Session, method: PaymentMethod | typeof STORE_CREDIT_METHOD_ID): Promise<SavedPaymentMethod> {
+  const id = method === STORE_CREDIT_METHOD_ID ? method : method.id
+  return {
+    id,
+    type: method === STORE_CREDIT_METHOD_ID ? 'store_credit' : method.type,
+    description: describePaymentMethod(method),
+    expiry: method !== STORE_CREDIT_METHOD_ID && method.type === 'card' ? method.expiry : undefined,
+    balance: await balanceOf(session.userId, method),
+    isDefault: session.wallet.defaultId === id,
+  }
+}
+
+function describeAddress(session: Session, address: Address): SavedAddress {
+  return { ...address, isDefault: session.addressBook.defaultId === address.id, formatted: formatAddress(address) }
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+/**
+ * A shopper's order by ID (ignoring case), or their most recent one when
+ * no ID is given, brought up to date
+ */
+async function findOrder(session: Session, orderId?: string): Promise<Order> {
+  const order = orderId
+    ? session.orders.find(o => o.orderId.toLowerCase() === orderId.trim().toLowerCase())
+    : session.orders[session.orders.length - 1]
+  if (!order) {
+    throw new Error(orderId ? `Order "${orderId}" not found` : "You haven't placed any orders yet")
+  }
+  await syncOrders(session)
+  return order
+}
+
+/**
+ * Ship and deliver whatever orders are due, saving if any moved on
+ */
+async function syncOrders(session: Session): Promise<void> {
+  if (advanceOrders(session.orders)) {
+    await saveSession(session)
+  }
+}
+
 /**
  * Generate a unique order ID
  */
@@ -513,41 +1683,128 @@ function generateOrderId(): string {
 }
 
 /**
- * Get product recommendations based on a product
+ * Get product recommendations based on a product: the most similar products
+ * by content (title, category, description, specs) and price, each with the
+ * reason it was picked
  */
 export async function getRecommendations(
+  session: Session,
   productId: string,
   limit: number = 3
-): Promise<SearchResult[]> {
+): Promise<Recommendation[]> {
   const product = mockData.productDetails[productId]
   if (!product) {
     throw new Error(`Product "${productId}" not found`)
   }
 
-  // Simple recommendation: find products in similar price range
-  const priceRange = product.price * 0.5
-  
-  const recommendations = mockData.searchResults
-    .filter(p => p.id !== productId)
-    .filter(p => Math.abs(p.price - product.price) <= priceRange)
-    .sort((a, b) => b.rating - a.rating)
-    .slice(0, limit)
-    .map(r => ({
-      ...r,
-      inCart: cart.items.some(item => item.productId === r.id),
-      inWishlist: wishlist.items.includes(r.id),
-    }))
+  const products = new Map(mockData.searchResults.map(r => [r.id, r]))
+  const recommendations = similarProducts(productId, limit).map(similar => ({
+    ...products.get(similar.id)!,
+    category: productCategory(similar.id),
+    similarity: similar.score,
+    reason: similar.reason,
+    inCart: session.cart.items.some(item => item.productId === similar.id),
+    inWishlist: session.wishlist.items.includes(similar.id),
+  }))
+
+  return withAvailability(session, recommendations)
+}
+
+/**
+ * Products other shoppers most often ordered together with this one
+ */
+export async function frequentlyBoughtTogether(
+  session: Session,
+  productId: string,
+  limit: number = MAX_BUNDLE_ITEMS
+): Promise<BoughtTogether> {
+  const product = mockData.productDetails[productId]
+  if (!product) {
+    throw new Error(`Product "${productId}" not found`)
+  }
+
+  const products = new Map(mockData.searchResults.map(r => [r.id, r]))
+  const items = await withAvailability(session, (await boughtTogether(productId, limit)).map(pair => ({
+    ...products.get(pair.productId)!,
+    category: productCategory(pair.productId),
+    timesBoughtTogether: pair.count,
+    confidence: pair.confidence,
+    inCart: session.cart.items.some(item => item.productId === pair.productId),
+    inWishlist: session.wishlist.items.includes(pair.productId),
+  })))
+
+  return {
+    product: { id: product.id, title: product.title, price: product.price },
+    items,
+    bundleTotal: roundPrice(items.reduce((sum, item) => sum + item.price, product.price)),
+  }
+}
 
-  return recommendations
+/**
+ * Recommendations for the shopper with no seed product, from what they have
+ * bought, wishlisted and viewed
+ */
+export async function getPersonalRecommendations(
+  session: Session,
+  limit: number = DEFAULT_PAGE_SIZE
+): Promise<PersonalFeed> {
+  const products = new Map(mockData.searchResults.map(r => [r.id, r]))
+
+  const results = await withAvailability(session, recommendFor(session, limit).map(pick => ({
+    ...products.get(pick.id)!,
+    category: productCategory(pick.id),
+    score: pick.score,
+    reason: pick.because ? describeInterest(pick.because.productId, pick.because.signal) : 'Popular with shoppers',
+    basedOn: pick.because?.productId,
+  })))
+
+  return {
+    results,
+    personalized: hasHistory(session),
+    profile: {
+      purchased: new Set(session.orders.flatMap(order => order.items.map(item => item.productId))).size,
+      wishlisted: session.wishlist.items.length,
+      viewed: session.profile.viewed.length,
+      dismissed: session.profile.dismissed.length,
+    },
+  }
 }
 
 /**
- * Get all available products (for browsing)
+ * Stop recommending a product (and steer away from products like it)
  */
-export async function getAllProducts(): Promise<SearchResult[]> {
-  return mockData.searchResults.map(r => ({
+export async function dismissRecommendation(
+  session: Session,
+  productId: string
+): Promise<{ success: boolean; message: string }> {
+  const product = mockData.productDetails[productId]
+  if (!product) {
+    throw new Error(`Product "${productId}" not found`)
+  }
+
+  if (!session.profile.dismissed.includes(productId)) {
+    session.profile.dismissed.push(productId)
+    await saveSession(session)
+  }
+
+  return {
+    success: true,
+    message: `Got it - you won't see "${product.title}" in your recommendations again`,
+  }
+}
+
+/**
+ * Get all available products (for browsing), one page at a time
+ */
+export async function getAllProducts(
+  session: Session,
+  page?: PageRequest
+): Promise<{ results: SearchResult[]; page: PageInfo }> {
+  const { items, page: pageInfo } = paginate(mockData.searchResults, page)
+  const results = await withAvailability(session, items.map(r => ({
     ...r,
-    inCart: cart.items.some(item => item.productId === r.id),
-    inWishlist: wishlist.items.includes(r.id),
-  }))
+    inCart: session.cart.items.some(item => item.productId === r.id),
+    inWishlist: session.wishlist.items.includes(r.id),
+  })))
+  return { results, page: pageInfo }
 }
@@ -112,6 +112,10 @@ export const icons = {
   clock: '⏰',
   user: '👤',
   store: '🏪',
+  home: '🏠',
+  returned: '↩',
+  dot: '●',
+  circle: '○',
 }
 
 // ============================================================================
@@ -252,6 +256,9 @@ export function productCard(product: {
   deliveryDate?: string
   inCart?: boolean
   inWishlist?: boolean
+  category?: string
+  availableStock?: number
+  stockStatus?: 'in_stock' | 'low_stock' | 'out_of_stock'
 }): string {
   const lines: string[] = []
   const width = 54
@@ -271,6 +278,14 @@ export function productCard(product: {
   lines.push(`${colors.brightBlack}${box.vertical}${colors.reset} ${style.bold(title)}${' '.repeat(Math.max(0, width - visibleLength(title) - 1))}${colors.brightBlack}${box.vertical}${colors.reset}`)
   lines.push(`${colors.brightBlack}${box.vertical}${colors.reset} ${style.muted(`ID: ${product.id}`)}${' '.repeat(Math.max(0, width - product.id.length - 5))}${colors.brightBlack}${box.vertical}${colors.reset}`)
   
+  // Category breadcrumb
+  if (product.category) {
+    const category = product.category.length > maxTitleLength
+      ? product.category.substring(0, maxTitleLength - 3) + '...'
+      : product.category
+    lines.push(`${colors.brightBlack}${box.vertical}${colors.reset} ${style.muted(category)}${' '.repeat(Math.max(0, width - category.length - 1))}${colors.brightBlack}${box.vertical}${colors.reset}`)
+  }
+  
   // Price and rating line
   const priceStr = `${style.price(`$${product.price.toFixed(2)}`)}  ${renderStars(product.rating)}`
   const ratingsStr = product.numRatings ? style.muted(`(${product.numRatings.toLocaleString()} reviews)`) : ''
@@ -283,6 +298,14 @@ export function productCard(product: {
     lines.push(`${colors.brightBlack}${box.vertical}${colors.reset} ${style.info(deliveryStr)}${' '.repeat(Math.max(0, width - visibleLength(deliveryStr) - 1))}${colors.brightBlack}${box.vertical}${colors.reset}`)
   }
   
+  // Stock level (only shown when the shopper should act on it)
+  if (product.stockStatus === 'out_of_stock' || product.stockStatus === 'low_stock') {
+    const stockStr = product.stockStatus === 'out_of_stock'
+      ? style.error(`${icons.cross} Out of stock`)
+      : style.warning(`${icons.warning} Only ${product.availableStock} left`)
+    lines.push(`${colors.brightBlack}${box.vertical}${colors.reset} ${stockStr}${' '.repeat(Math.max(0, width - visibleLength(stockStr) - 1))}${colors.brightBlack}${box.vertical}${colors.reset}`)
+  }
+  
   // Status badges
   if (badges.length > 0) {
     const badgeLine = badges.join('  ')
@@ -411,6 +434,225 @@ export function table(headers: string[], rows: string[][]): string {
   return lines.join('\n')
 }
 
+/**
+ * Format selected variant attributes, e.g. "Size 10 · Color Black"
+ */
+export function formatVariant(attributes: Record<string, string>): string {
+  return Object.entries(attributes)
+    .map(([name, value]) => `${name.charAt(0).toUpperCase()}${name.slice(1)} ${value}`)
+    .join(' · ')
+}
+
+/**
+ * Format the variants of a product with their price and stock
+ */
+export function variantList(basePrice: number, variants: Array<{
+  sku: string
+  attributes: Record<string, string>
+  priceDelta: number
+  availableStock?: number
+  stockStatus?: 'in_stock' | 'low_stock' | 'out_of_stock'
+}>): string {
+  const lines: string[] = []
+  lines.push(`  ${style.bold('Options:')}`)
+  
+  for (const variant of variants) {
+    const label = padEnd(formatVariant(variant.attributes), 28)
+    const price = style.price(formatPrice(basePrice + variant.priceDelta))
+    const stock = variant.stockStatus === 'out_of_stock' ? style.error('Out of stock')
+      : variant.stockStatus === 'low_stock' ? style.warning(`Only ${variant.availableStock} left`)
+      : style.success('In stock')
+    lines.push(`    ${icons.bullet} ${label} ${price}  ${stock}  ${style.muted(variant.sku)}`)
+  }
+  
+  return lines.join('\n')
+}
+
+/**
+ * Ask the shopper to pick a variant
+ */
+export function variantPicker(choice: {
+  message: string
+  options: Record<string, string[]>
+}): string {
+  const lines: string[] = []
+  
+  lines.push('')
+  lines.push(`${colors.brightCyan}${icons.info}${colors.reset} ${formatMarkdown(choice.message)}`)
+  lines.push('')
+  for (const [name, values] of Object.entries(choice.options)) {
+    lines.push(`  ${style.bold(`${name.charAt(0).toUpperCase()}${name.slice(1)}:`)} ${values.map(v => style.info(v)).join(style.muted(' | '))}`)
+  }
+  lines.push('')
+  
+  return lines.join('\n')
+}
+
+type CategoryTreeNode = {
+  name: string
+  productCount: number
+  children: CategoryTreeNode[]
+}
+
+/**
+ * Format a category tree with product counts, one level of indent per depth
+ */
+export function categoryTree(nodes: CategoryTreeNode[], depth: number = 0): string {
+  const lines: string[] = []
+  
+  for (const node of nodes) {
+    const indent = '  '.repeat(depth + 1)
+    const name = depth === 0 ? style.bold(node.name) : node.name
+    lines.push(`${indent}${style.info(icons.bullet)} ${name} ${style.muted(`(${node.productCount})`)}`)
+    if (node.children.length > 0) {
+      lines.push(categoryTree(node.children, depth + 1))
+    }
+  }
+  
+  return lines.join('\n')
+}
+
+/**
+ * Format search facets as a "Refine by" summary, one line per facet
+ */
+export function facetSummary(facets: {
+  brand: Array<{ label: string; count: number }>
+  category: Array<{ name: string; count: number }>
+  price: Array<{ label: string; count: number }>
+  rating: Array<{ label: string; count: number }>
+  delivery: Array<{ label: string; count: number }>
+}): string {
+  const rows: Array<[string, Array<{ label: string; count: number }>]> = [
+    ['Brand', facets.brand],
+    // A single category gives nothing to drill into
+    ['Category', facets.category.length > 1 ? facets.category.map(c => ({ label: c.name, count: c.count })) : []],
+    ['Price', facets.price],
+    ['Rating', facets.rating],
+    ['Delivery', facets.delivery],
+  ]
+  
+  const lines: string[] = []
+  lines.push(`  ${style.bold('Refine by:')}`)
+  for (const [name, buckets] of rows) {
+    if (buckets.length === 0) continue
+    const options = buckets.map(b => `${b.label} ${style.muted(`(${b.count})`)}`)
+    lines.push(`    ${style.muted(padEnd(name, 10))}${options.join(style.muted(' · '))}`)
+  }
+  
+  return lines.join('\n')
+}
+
+/**
+ * Describe the filters a search ran with, e.g. "Under $15 · 4★ & up · Anker"
+ */
+export function activeFilters(filters: {
+  minPrice?: number
+  maxPrice?: number
+  minRating?: number
+  category?: string
+  brand?: string | string[]
+  deliveryWithinDays?: number
+  sortBy?: string
+}): string {
+  const parts: string[] = []
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined) {
+    parts.push(`${formatPrice(filters.minPrice)} - ${formatPrice(filters.maxPrice)}`)
+  } else if (filters.maxPrice !== undefined) {
+    parts.push(`Under ${formatPrice(filters.maxPrice)}`)
+  } else if (filters.minPrice !== undefined) {
+    parts.push(`${formatPrice(filters.minPrice)} & above`)
+  }
+  if (filters.minRating !== undefined) parts.push(`${filters.minRating}★ & up`)
+  if (filters.category) parts.push(filters.category)
+  if (filters.brand) parts.push([filters.brand].flat().join(' or '))
+  if (filters.deliveryWithinDays !== undefined) {
+    const days = filters.deliveryWithinDays
+    parts.push(days === 0 ? 'Arrives today' : days === 1 ? 'Arrives by tomorrow' : `Arrives within ${days} days`)
+  }
+  const sortLabels: Record<string, string> = {
+    price_asc: 'Price: low to high',
+    price_desc: 'Price: high to low',
+    rating: 'Top rated',
+    popularity: 'Most popular',
+  }
+  if (filters.sortBy) parts.push(sortLabels[filters.sortBy] ?? filters.sortBy)
+
+  return parts.join(' · ')
+}
+
+/**
+ * Which slice of the results is showing and how to get the next one
+ */
+export function pageFooter(page: { offset: number; limit: number; total: number; hasMore: boolean }, shown: number): string {
+  const range = `Showing ${page.offset + 1}-${page.offset + shown} of ${page.total}`
+  if (!page.hasMore) {
+    return `  ${style.muted(range)}`
+  }
+  const nextCount = Math.min(page.limit, page.total - page.offset - shown)
+  return `  ${style.muted(`${range} ·`)} Say ${style.info('"more"')} ${style.muted(`to see the next ${nextCount}`)}`
+}
+
+/**
+ * Show how a query expands through the synonym dictionary
+ */
+export function synonymExpansion(
+  query: string,
+  dictionary: { source: string; version: number; ruleCount: number; error?: string },
+  expansions: Array<{ trigger: string; term: string; weight: number; categoryId?: string }>
+): string {
+  const lines: string[] = []
+  lines.push(`  ${style.bold('Query:')} ${query || style.muted('(empty)')}`)
+  lines.push(`  ${style.muted(`${dictionary.source} · version ${dictionary.version} · ${dictionary.ruleCount} entries`)}`)
+  if (dictionary.error) {
+    lines.push(`  ${style.warning(`${icons.warning} ${dictionary.error} (using the last good rules)`)}`)
+  }
+  lines.push('')
+  
+  if (expansions.length === 0) {
+    lines.push(`  ${style.muted('No synonyms apply')}`)
+  }
+  for (const e of expansions) {
+    const scope = e.categoryId ? style.muted(` in ${e.categoryId}`) : ''
+    lines.push(`  ${e.trigger} ${style.info(icons.arrow)} ${style.bold(e.term)} ${style.muted(`×${e.weight}`)}${scope}`)
+  }
+  
+  return lines.join('\n')
+}
+
+/**
+ * One compatibility verdict, e.g. "✔ Compatible  Fits the Sony WH-1000XM5's USB-C port"
+ */
+export function compatibilityLine(status: 'compatible' | 'limited' | 'incompatible', reason: string): string {
+  const badge = {
+    compatible: style.success(`${icons.check} Compatible`),
+    limited: style.warning(`${icons.warning} Limited`),
+    incompatible: style.error(`${icons.cross} Incompatible`),
+  }[status]
+  return `  ${badge}  ${style.muted(reason)}`
+}
+
+/**
+ * Warnings about cart items that don't fit together
+ */
+export function compatibilityWarnings(warnings: string[]): string {
+  return warnings.map(warning => `  ${style.warning(`${icons.warning} ${warning}`)}`).join('\n')
+}
+
+/**
+ * The price of a product bundle and how to add it
+ */
+export function bundleSummary(itemCount: number, total: number): string {
+  return `  ${style.bold(`Bundle of ${itemCount}:`)} ${style.price(formatPrice(total))}  ${style.muted('·')} Say ${style.info('"add bundle"')} ${style.muted('to add them all')}`
+}
+
+/**
+ * The parts of a cart or order price that come from promotions
+ */
+type PricingBreakdown = {
+  subtotal?: number
+  discounts?: Array<{ code?: string; description: string; amount: number }>
+}
+
 /**
  * Format cart summary
  */
@@ -418,7 +660,8 @@ export function cartSummary(items: Array<{
   title: string
   price: number
   quantity: number
-}>, total: number): string {
+  variant?: Record<string, string>
+}>, total: number, pricing?: PricingBreakdown & { notices: string[] }): string {
   const lines: string[] = []
   
   lines.push('')
@@ -431,11 +674,20 @@ export function cartSummary(items: Array<{
     for (const item of items) {
       const titleTrunc = item.title.length > 40 ? item.title.substring(0, 37) + '...' : item.title
       lines.push(`  ${icons.bullet} ${titleTrunc}`)
+      if (item.variant) {
+        lines.push(`    ${style.info(formatVariant(item.variant))}`)
+      }
       lines.push(`    ${style.muted(`Qty: ${item.quantity}`)}  ${style.price(formatPrice(item.price * item.quantity))}`)
     }
     lines.push('')
     lines.push(divider())
+    if (pricing) {
+      lines.push(...discountBreakdown(pricing))
+    }
     lines.push(`  ${style.bold('Total:')} ${style.price(formatPrice(total))}`)
+    for (const notice of pricing?.notices ?? []) {
+      lines.push(`  ${style.warning(`${icons.tag} ${notice}`)}`)
+    }
   }
   
   lines.push('')
@@ -443,15 +695,53 @@ export function cartSummary(items: Array<{
 }
 
 /**
- * Format product comparison table
+ * Subtotal and one line per discount; nothing when there are no discounts
  */
-export function comparisonTable(products: Array<{
-  title: string
-  price: number
-  rating: number
-  features?: string[]
-}>): string {
+function discountBreakdown(pricing: PricingBreakdown): string[] {
+  if (!pricing.discounts || pricing.discounts.length === 0) return []
+  const lines = [`  ${style.muted('Subtotal:')} ${formatPrice(pricing.subtotal ?? 0)}`]
+  for (const discount of pricing.discounts) {
+    const label = discount.code ? `${discount.code} - ${discount.description}` : discount.description
+    lines.push(`  ${icons.tag} ${style.accent(label)}  ${style.success(`-${formatPrice(discount.amount)}`)}`)
+  }
+  return lines
+}
+
+/**
+ * An order's receipt: subtotal, discounts, shipping and tax. Orders placed
+ * before shipping and tax were charged only list their discounts.
+ */
+function receiptBreakdown(order: PricingBreakdown & {
+  shipping?: { method: string; weightKg: number; cost: number; free: boolean }
+  tax?: { name: string; rate: number; amount: number }
+}): string[] {
+  if (!order.shipping && !order.tax) return discountBreakdown(order)
+
+  const lines = [`  ${style.muted('Subtotal:')} ${formatPrice(order.subtotal ?? 0)}`]
+  lines.push(...discountBreakdown(order).slice(1))
+  if (order.shipping?.method === 'pickup') {
+    lines.push(`  ${style.muted('Store pickup:')} ${style.success('FREE')}`)
+  } else if (order.shipping) {
+    const { method, weightKg, cost, free } = order.shipping
+    const label = `Shipping (${method.charAt(0).toUpperCase() + method.slice(1)}, ${weightKg} kg):`
+    lines.push(`  ${style.muted(label)} ${free ? style.success('FREE') : formatPrice(cost)}`)
+  }
+  if (order.tax) {
+    lines.push(`  ${style.muted(`${order.tax.name} (${order.tax.rate}%):`)} ${formatPrice(order.tax.amount)}`)
+  }
+  return lines
+}
+
+/**
+ * Format a product comparison with specs aligned in rows and the best
+ * value in each row highlighted
+ */
+export function comparisonTable(
+  products: Array<{ title: string }>,
+  rows: Array<{ label: string; values: Array<string | null>; best: number[] }>
+): string {
   const lines: string[] = []
+  const maxCellWidth = 18
   
   lines.push('')
   lines.push(divider(`${icons.search} Product Comparison`))
@@ -459,14 +749,33 @@ export function comparisonTable(products: Array<{
   
   for (let i = 0; i < products.length; i++) {
     const p = products[i]
-    const num = i + 1
-    lines.push(`${style.accent(`[${num}]`)} ${style.bold(p.title.substring(0, 50))}${p.title.length > 50 ? '...' : ''}`)
-    lines.push(`    ${style.price(formatPrice(p.price))}  ${renderStars(p.rating)}`)
-    if (p.features && p.features.length > 0) {
-      lines.push(`    ${style.muted(p.features.slice(0, 3).join(' • '))}`)
-    }
-    lines.push('')
+    lines.push(`  ${style.accent(`[${i + 1}]`)} ${style.bold(p.title.substring(0, 50))}${p.title.length > 50 ? '...' : ''}`)
   }
+  lines.push('')
+  
+  const truncate = (value: string) =>
+    value.length > maxCellWidth ? value.substring(0, maxCellWidth - 3) + '...' : value
+  const labelWidth = Math.max(...rows.map(r => r.label.length))
+  const colWidths = products.map((_, i) =>
+    Math.max(3, ...rows.map(r => truncate(r.values[i] ?? '-').length + (r.best.includes(i) ? 2 : 0)))
+  )
+  
+  // Header: product numbers over their columns
+  const headerCells = products.map((_, i) => padEnd(style.accent(`[${i + 1}]`), colWidths[i]))
+  lines.push(`  ${' '.repeat(labelWidth)}  ${headerCells.join('  ')}`)
+  
+  for (const row of rows) {
+    const cells = row.values.map((value, i) => {
+      if (value === null) return padEnd(style.muted('-'), colWidths[i])
+      const text = truncate(value)
+      return padEnd(row.best.includes(i) ? style.success(`${text} ${icons.check}`) : text, colWidths[i])
+    })
+    lines.push(`  ${style.muted(padEnd(row.label, labelWidth))}  ${cells.join('  ')}`)
+  }
+  
+  lines.push('')
+  lines.push(`  ${style.muted(`${icons.check} best in row`)}`)
+  lines.push('')
   
   return lines.join('\n')
 }
@@ -491,7 +800,20 @@ export function helpMenu(): string {
     ['Compare products', '"Compare the hiking boots"'],
     ['Purchase', '"Buy product USB001"'],
     ['View orders', '"Show my orders"'],
+    ['Track an order', '"track" for your latest order or "Where is ORD-…?"'],
+    ['Invoice', '"invoice" or "invoice ORD-… html" - saves a PDF, HTML or text invoice'],
+    ['Cancel or return', '"Cancel my last order" or "Return the boots, they arrived damaged"'],
     ['Filter', '"Find cables under $15 with 4+ stars"'],
+    ['Browse categories', '"categories" or "Show me everything in Audio"'],
+    ['More results', '"more" or "previous page" after a search'],
+    ['Test synonyms', '"synonyms noise cancelling cans"'],
+    ['Coupons', '"Apply coupon SAVE10" or "remove coupon SAVE10"'],
+    ['Compatibility', '"Will this cable charge my AirPods?" or "Does the Keychron work on Linux?"'],
+    ['For you', '"for me" - picks based on what you viewed, saved and bought'],
+    ['Bought together', '"What do people buy with the MX Master?" then "add bundle"'],
+    ['Addresses', '"addresses" or "Ship to 12 Main St, Austin, TX 78701"'],
+    ['Delivery', '"How fast can this get here?" or "Check out with express shipping"'],
+    ['Payment', '"wallet" or "Add my Visa 4242 4242 4242 4242, expires 12/28"'],
   ]
   
   lines.push(style.bold('  Example Commands:'))
@@ -540,6 +862,121 @@ export function welcomeBanner(): string {
   return lines.join('\n')
 }
 
+/**
+ * Format the shopper's saved addresses, marking the default
+ */
+export function addressList(addresses: Array<{ id: string; formatted: string; isDefault: boolean }>): string {
+  const lines: string[] = []
+
+  lines.push('')
+  lines.push(divider(`${icons.home} Shipping Addresses`))
+  lines.push('')
+
+  if (addresses.length === 0) {
+    lines.push(`  ${style.muted('No saved addresses yet. Tell me where to ship and I\'ll save it.')}`)
+  }
+  for (const address of addresses) {
+    const marker = address.isDefault ? ` ${style.success('(default)')}` : ''
+    lines.push(`  ${icons.bullet} ${style.accent(address.id)}${marker}`)
+    lines.push(`    ${address.formatted}`)
+  }
+
+  lines.push('')
+  return lines.join('\n')
+}
+
+/**
+ * Format the shopper's payment methods, marking the default
+ */
+export function paymentMethodList(methods: Array<{ id: string; description: string; expiry?: string; balance?: number; isDefault: boolean }>): string {
+  const lines: string[] = []
+
+  lines.push('')
+  lines.push(divider(`${icons.money} Payment Methods`))
+  lines.push('')
+
+  if (methods.length === 0) {
+    lines.push(`  ${style.muted('No saved payment methods yet. Add a card or gift card to check out.')}`)
+  }
+  for (const method of methods) {
+    const marker = method.isDefault ? ` ${style.success('(default)')}` : ''
+    const detail = method.expiry ? `expires ${method.expiry}` : method.balance !== undefined ? `balance ${formatPrice(method.balance)}` : ''
+    lines.push(`  ${icons.bullet} ${method.description}${marker}  ${style.muted(`${method.id}${detail ? ` · ${detail}` : ''}`)}`)
+  }
+
+  lines.push('')
+  return lines.join('\n')
+}
+
+/**
+ * Format each delivery method with its shipping cost, total and ETA
+ */
+export function deliveryOptions(
+  shipTo: string | undefined,
+  options: Array<{ method: string; label: string; shippingCost: number; free: boolean; total: number; estimatedDelivery: string }>
+): string {
+  const lines: string[] = []
+
+  lines.push('')
+  lines.push(divider(`${icons.truck} Delivery Options`))
+  lines.push('')
+  lines.push(`  ${style.muted('Ship to:')} ${shipTo ?? style.warning('no saved address yet (needed for standard and express)')}`)
+  lines.push('')
+
+  for (const option of options) {
+    const cost = option.method === 'pickup' || option.free ? style.success('FREE') : formatPrice(option.shippingCost)
+    const when = option.method === 'pickup' ? 'ready' : 'arrives'
+    lines.push(`  ${icons.bullet} ${style.bold(option.label)}  ${cost}  ${style.muted(`${when} ${formatDate(option.estimatedDelivery)}`)}`)
+    lines.push(`    ${style.muted('Total:')} ${style.price(formatPrice(option.total))}`)
+  }
+
+  lines.push('')
+  return lines.join('\n')
+}
+
+/**
+ * Format an order's tracking as a vertical timeline, newest step on top.
+ * Steps still expected are hollow and dimmed; the latest one is highlighted.
+ */
+export function trackingTimeline(
+  order: { orderId: string; status: string; shipment?: { carrier: string; service: string; trackingNumber: string } },
+  events: Array<{ at: string; description: string; location?: string; upcoming: boolean }>
+): string {
+  const lines: string[] = []
+
+  lines.push('')
+  lines.push(divider(`${icons.truck} Tracking ${order.orderId}`))
+  lines.push('')
+  lines.push(`  ${style.muted('Status:')} ${style.bold(order.status.toUpperCase())}`)
+  if (order.shipment) {
+    lines.push(`  ${style.muted('Carrier:')} ${order.shipment.carrier} ${order.shipment.service} ${style.muted('·')} ${style.accent(order.shipment.trackingNumber)}`)
+  }
+  lines.push('')
+
+  const newestFirst = [...events].reverse()
+  const latest = newestFirst.find(event => !event.upcoming)
+  newestFirst.forEach((event, i) => {
+    const date = new Date(event.at)
+    const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+    const when = event.upcoming ? `expected ${formatDate(event.at)}` : `${formatDate(event.at)}, ${time}`
+    const detail = [when, event.location].filter(Boolean).join(' · ')
+    const rail = i < newestFirst.length - 1 ? style.muted(box.vertical) : ' '
+
+    if (event.upcoming) {
+      lines.push(`  ${style.muted(icons.circle)} ${style.muted(event.description)}`)
+    } else if (event === latest) {
+      lines.push(`  ${style.success(icons.dot)} ${style.bold(event.description)}`)
+    } else {
+      lines.push(`  ${icons.dot} ${event.description}`)
+    }
+    lines.push(`  ${rail}   ${style.muted(detail)}`)
+    if (i < newestFirst.length - 1) lines.push(`  ${rail}`)
+  })
+
+  lines.push('')
+  return lines.join('\n')
+}
+
 /**
  * Loading indicator
  */
@@ -552,10 +989,15 @@ export function loadingMessage(message: string = 'Processing'): string {
  */
 export function orderConfirmation(order: {
   orderId: string
-  items: Array<{ title: string; price: number; quantity: number }>
+  items: Array<{ title: string; price: number; quantity: number; variant?: Record<string, string> }>
   total: number
   estimatedDelivery?: string
-}): string {
+  shipping?: { method: string; weightKg: number; cost: number; free: boolean }
+  tax?: { name: string; rate: number; amount: number }
+  shipTo?: string // Formatted shipping address
+  payment?: { description: string }
+  warnings?: string[]
+} & PricingBreakdown): string {
   const lines: string[] = []
   
   lines.push('')
@@ -570,15 +1012,33 @@ export function orderConfirmation(order: {
   
   for (const item of order.items) {
     lines.push(`  ${icons.package} ${item.title.substring(0, 40)}${item.title.length > 40 ? '...' : ''}`)
+    if (item.variant) {
+      lines.push(`    ${style.info(formatVariant(item.variant))}`)
+    }
     lines.push(`    ${style.muted(`Qty: ${item.quantity}`)} × ${formatPrice(item.price)}`)
   }
   
   lines.push('')
   lines.push(divider())
+  lines.push(...receiptBreakdown(order))
   lines.push(`  ${style.bold('Total Paid:')} ${style.price(formatPrice(order.total))}`)
+  if (order.payment) {
+    lines.push(`  ${icons.money} ${style.muted('Paid with')} ${order.payment.description}`)
+  }
   
+  if (order.shipping?.method === 'pickup') {
+    lines.push(`  ${icons.store} ${style.info('Pick up at our store')}`)
+  } else if (order.shipTo) {
+    lines.push(`  ${icons.home} ${style.muted('Ship to:')} ${order.shipTo}`)
+  }
   if (order.estimatedDelivery) {
-    lines.push(`  ${icons.truck} ${style.info(`Estimated Delivery: ${formatDate(order.estimatedDelivery)}`)}`)
+    const label = order.shipping?.method === 'pickup' ? 'Ready for Pickup' : 'Estimated Delivery'
+    lines.push(`  ${icons.truck} ${style.info(`${label}: ${formatDate(order.estimatedDelivery)}`)}`)
+  }
+
+  if (order.warnings) {
+    lines.push('')
+    lines.push(compatibilityWarnings(order.warnings))
   }
   
   lines.push('')